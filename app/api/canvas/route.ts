@@ -0,0 +1,68 @@
+// ---------- Canvas API proxy ----------
+// Canvas doesn't send CORS headers, so the browser calls this route and it forwards the request
+// with the user's token. Nothing is stored: the token only passes through for the one request.
+//
+// CANVAS_ALLOWED_HOSTS is required: a comma-separated list of the Canvas hosts this server may
+// call, e.g. "canvas.example.edu". With it unset every request is refused, so the route can't be
+// used to make the server fetch arbitrary URLs. For the local mock outside production, add
+// "localhost:4010" (plain http to localhost is only accepted when NODE_ENV isn't "production").
+
+export const dynamic = "force-dynamic";
+
+const ALLOWED_HOSTS = (process.env.CANVAS_ALLOWED_HOSTS ?? "")
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+
+// Plain http only for a local mock server during development
+function isDevLocalHost(host: string) {
+  if (process.env.NODE_ENV === "production") return false;
+  return host === "localhost" || host === "127.0.0.1" || host === "[::1]";
+}
+
+function checkTarget(raw: string | null): URL | string {
+  if (!raw) return "Missing url parameter.";
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "Invalid url parameter.";
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && isDevLocalHost(url.hostname))) {
+    return "Canvas URL must use https.";
+  }
+  if (!url.pathname.startsWith("/api/v1/")) return "Only Canvas /api/v1 endpoints can be requested.";
+  if (ALLOWED_HOSTS.length === 0) {
+    return "Fetching from Canvas is not configured on this server (set CANVAS_ALLOWED_HOSTS).";
+  }
+  if (!ALLOWED_HOSTS.includes(url.host.toLowerCase())) {
+    return `Canvas host ${url.host} is not allowed on this server.`;
+  }
+  return url;
+}
+
+export async function GET(req: Request) {
+  const target = checkTarget(new URL(req.url).searchParams.get("url"));
+  if (typeof target === "string") return Response.json({ error: target }, { status: 400 });
+
+  const token = req.headers.get("x-canvas-token");
+  if (!token) return Response.json({ error: "Missing Canvas access token." }, { status: 401 });
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      headers: { Authorization: `Bearer ${token}`, Accept: "application/json" },
+      cache: "no-store",
+      redirect: "error",
+    });
+  } catch (e: any) {
+    return Response.json({ error: `Could not reach Canvas: ${e?.message ?? String(e)}` }, { status: 502 });
+  }
+
+  const headers = new Headers({ "content-type": upstream.headers.get("content-type") ?? "application/json" });
+  // Pagination links point at Canvas; the client sends them back through this route
+  const link = upstream.headers.get("link");
+  if (link) headers.set("link", link);
+
+  return new Response(upstream.body, { status: upstream.status, headers });
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useId, useMemo, useState } from "react";
+import { MetricLink, describeDroppedCard, metricLink, parseAIAnalysis } from "../../lib/aiAnalysis";
+import { KPI_TONE_LABELS } from "../../lib/kpis";
+import type { AIMetric, AnalyzeResponse } from "../../lib/schema";
+
+const TONE_CHIP: Record<AIMetric["tone"], string> = {
+  good: "border-green-200 bg-green-50 text-green-900",
+  warn: "border-amber-200 bg-amber-50 text-amber-900",
+  bad: "border-red-200 bg-red-50 text-red-900",
+  neutral: "border-slate-200 bg-slate-50 text-slate-800",
+};
+
+const TONE_DOT: Record<AIMetric["tone"], string> = {
+  good: "bg-green-600",
+  warn: "bg-amber-500",
+  bad: "bg-red-600",
+  neutral: "bg-slate-400",
+};
+
+function MetricChip({ metric, link, onOpenRows }: { metric: AIMetric; link: MetricLink | null; onOpenRows: (link: MetricLink) => void }) {
+  const toneLabel = KPI_TONE_LABELS[metric.tone];
+  const body = (
+    <>
+      <span aria-hidden="true" className={`inline-block h-2 w-2 shrink-0 rounded-full ${TONE_DOT[metric.tone]}`} />
+      <span className="opacity-80">{metric.label}:</span>
+      <span className="font-semibold">{metric.value}</span>
+      {toneLabel && <span className="sr-only">({toneLabel})</span>}
+    </>
+  );
+  const className = `inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs ${TONE_CHIP[metric.tone]}`;
+
+  if (!link) {
+    return (
+      <span className={className} title={toneLabel || undefined}>
+        {body}
+      </span>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={() => onOpenRows(link)}
+      title={`${toneLabel ? `${toneLabel}. ` : ""}Show “${link.query}” in the tables`}
+      className={`${className} underline decoration-dotted underline-offset-2 hover:brightness-95 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen`}
+    >
+      {body}
+    </button>
+  );
+}
+
+// AI tab: validated cards with tone-colored metric chips; metrics naming a module or media link to its table rows
+export default function AIAnalysisPanel({
+  result,
+  onOpenRows,
+}: {
+  result: AnalyzeResponse | null;
+  onOpenRows: (link: MetricLink) => void;
+}) {
+  const parsed = useMemo(() => parseAIAnalysis(result?.analysis?.text), [result]);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  // Card ids come from the model and may contain spaces, so element ids use the position instead
+  const idBase = useId();
+
+  if (result?.analysis?.error) {
+    return (
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
+        <div className="text-sm text-red-700">{result.analysis.error}</div>
+      </div>
+    );
+  }
+
+  if (parsed.kind === "text" || parsed.cards.length === 0) {
+    const reason =
+      parsed.kind === "text"
+        ? parsed.reason
+        : parsed.dropped.length > 0
+          ? "None of the analysis cards could be shown."
+          : null;
+    return (
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
+        <div className="text-lg font-semibold text-slate-900 mb-2">AI Analysis</div>
+        {reason && (
+          <div className="mb-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-900" role="status">
+            {reason} Showing the raw response.
+          </div>
+        )}
+        <pre className="text-sm font-sans whitespace-pre-wrap text-slate-800">
+          {result?.analysis?.text || "No AI analysis returned."}
+        </pre>
+      </div>
+    );
+  }
+
+  const notices = [
+    parsed.warning,
+    parsed.repairs.length > 0 ? `The response needed repair (${parsed.repairs.join(", ")}).` : null,
+  ].filter((n): n is string => !!n);
+  const allCollapsed = parsed.cards.every((c) => collapsed[c.id]);
+
+  return (
+    <div className="space-y-4">
+      {(notices.length > 0 || parsed.dropped.length > 0) && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900" role="status">
+          {notices.map((n) => (
+            <div key={n}>{n}</div>
+          ))}
+          {parsed.dropped.length > 0 && (
+            <>
+              <div className="font-medium mt-1">
+                {parsed.dropped.length} {parsed.dropped.length === 1 ? "card was" : "cards were"} left out:
+              </div>
+              <ul className="list-disc list-inside text-xs space-y-0.5">
+                {parsed.dropped.map((d) => (
+                  <li key={d.index}>{describeDroppedCard(d)}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() =>
+            setCollapsed(allCollapsed ? {} : Object.fromEntries(parsed.cards.map((c) => [c.id, true])))
+          }
+          className="text-sm text-slate-700 underline"
+        >
+          {allCollapsed ? "Expand all" : "Collapse all"}
+        </button>
+      </div>
+
+      {parsed.cards.map((card, i) => {
+        const open = !collapsed[card.id];
+        const bodyId = `${idBase}-card-${i}`;
+        return (
+          <section key={card.id} className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
+            <h3>
+              <button
+                type="button"
+                onClick={() => setCollapsed((c) => ({ ...c, [card.id]: open }))}
+                aria-expanded={open}
+                aria-controls={bodyId}
+                className="flex w-full items-center justify-between gap-3 text-left text-lg font-semibold text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen rounded-lg"
+              >
+                {card.title}
+                <span aria-hidden="true" className="text-sm text-slate-500">
+                  {open ? "▲" : "▼"}
+                </span>
+              </button>
+            </h3>
+
+            <div id={bodyId} hidden={!open} className="mt-3">
+              {card.summary && <p className="text-sm text-slate-700 mb-4">{card.summary}</p>}
+
+              {card.bullets.length > 0 && (
+                <ul className="list-disc list-inside space-y-1 mb-4">
+                  {card.bullets.map((bullet, idx) => (
+                    <li key={idx} className="text-sm text-slate-700">
+                      {bullet}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {card.metrics.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-3 border-t border-slate-100">
+                  {card.metrics.map((metric, idx) => (
+                    <MetricChip key={idx} metric={metric} link={metricLink(metric, result)} onOpenRows={onOpenRows} />
+                  ))}
+                </div>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { MetricLink } from "../../lib/aiAnalysis";
+import { ChatMessage, buildChatContext, resolveCitation, splitCitations, streamChat } from "../../lib/chat";
+import { getRun, saveRunChat } from "../../lib/runHistory";
+import type { AnalyzeResponse } from "../../lib/schema";
+
+const SUGGESTIONS = [
+  "Which module had the worst viewing?",
+  "Draft an announcement encouraging students to watch Module 4",
+];
+
+function AnswerText({
+  text,
+  result,
+  onOpenRows,
+}: {
+  text: string;
+  result: AnalyzeResponse | null;
+  onOpenRows: (link: MetricLink) => void;
+}) {
+  return (
+    <div className="whitespace-pre-wrap">
+      {splitCitations(text).map((seg, idx) => {
+        if (seg.kind === "text") return <React.Fragment key={idx}>{seg.text}</React.Fragment>;
+        const cited = resolveCitation(seg, result);
+        if (!cited) {
+          return (
+            <span key={idx} className="text-slate-400" title="This row is not in the current results">
+              [{seg.ref}]
+            </span>
+          );
+        }
+        return (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => onOpenRows(cited.link)}
+            title={`Show “${cited.label}” in the tables`}
+            className="mx-0.5 inline rounded-full border border-slate-300 bg-white px-2 text-xs text-slate-800 underline decoration-dotted underline-offset-2 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            {cited.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+// Follow-up questions about the current run; the conversation is saved with the run in History
+export default function ChatPanel({
+  runId,
+  courseId,
+  result,
+  endpoint,
+  onOpenRows,
+}: {
+  runId: string | null;
+  courseId: string;
+  result: AnalyzeResponse | null;
+  endpoint: string;
+  onOpenRows: (link: MetricLink) => void;
+}) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [streaming, setStreaming] = useState(false);
+  const [copied, setCopied] = useState<number | null>(null);
+  // History load/save failures; the conversation itself keeps working
+  const [storageNotice, setStorageNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped when the run changes or the conversation is cleared; a turn from an older generation is dropped
+  const generationRef = useRef(0);
+  const logRef = useRef<HTMLOListElement>(null);
+
+  // Load the saved conversation for this run; stop any answer still streaming for the previous one
+  useEffect(() => {
+    let cancelled = false;
+    generationRef.current += 1;
+    abortRef.current?.abort();
+    setMessages([]);
+    setStorageNotice(null);
+    if (runId) {
+      getRun(runId)
+        .then((run) => {
+          if (!cancelled) setMessages(run?.chat ?? []);
+        })
+        .catch(() => {
+          if (!cancelled) setStorageNotice("The saved conversation could not be loaded.");
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [runId]);
+
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [messages]);
+
+  function persist(chat: ChatMessage[]) {
+    if (!runId) return;
+    const generation = generationRef.current;
+    const notify = (notice: string | null) => {
+      if (generationRef.current === generation) setStorageNotice(notice);
+    };
+    saveRunChat(runId, chat).then(
+      () => notify(null),
+      () => notify("Conversation could not be saved.")
+    );
+  }
+
+  async function ask(text: string) {
+    const q = text.trim();
+    if (!q || streaming || !result || !endpoint) return;
+
+    const generation = generationRef.current;
+    const history = messages;
+    const now = new Date().toISOString();
+    let answer = "";
+    const withReply = (content: string, error?: boolean): ChatMessage[] => [
+      ...history,
+      { role: "user", content: q, at: now },
+      { role: "assistant", content, at: new Date().toISOString(), ...(error ? { error: true } : {}) },
+    ];
+
+    setQuestion("");
+    setMessages(withReply(""));
+    setStreaming(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let final: ChatMessage[];
+    try {
+      answer = await streamChat({
+        endpoint,
+        question: q,
+        history,
+        context: buildChatContext(result, courseId),
+        signal: controller.signal,
+        onDelta: (delta) => {
+          answer += delta;
+          if (generationRef.current === generation) setMessages(withReply(answer));
+        },
+      });
+      final = withReply(answer || "(No answer returned.)", !answer);
+    } catch (e: any) {
+      final =
+        e?.name === "AbortError"
+          ? withReply(answer ? `${answer}\n\n(Stopped.)` : "(Stopped.)", true)
+          : withReply(`Could not get an answer: ${e?.message ?? String(e)}`, true);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStreaming(false);
+    }
+    if (generationRef.current !== generation) return;
+    setMessages(final);
+    persist(final);
+  }
+
+  function clearConversation() {
+    generationRef.current += 1;
+    abortRef.current?.abort();
+    setMessages([]);
+    persist([]);
+  }
+
+  async function copyAnswer(idx: number, text: string) {
+    try {
+      await navigator.clipboard.writeText(text.replace(/\[ref:[a-z-]+:\d+\]/g, "").trim());
+      setCopied(idx);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (e) {
+      console.error("Copy answer failed:", e);
+      alert("Could not copy the answer. Select the text and copy it instead.");
+    }
+  }
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div>
+          <div className="text-lg font-semibold text-slate-900">Ask about this course</div>
+          <div className="text-xs text-slate-500">
+            Sends your question with the summary and module tables (no student rows).
+            {runId ? " The conversation is saved with this run." : " Save the run to keep the conversation."}
+          </div>
+        </div>
+        {messages.length > 0 && (
+          <button type="button" onClick={clearConversation} className="text-sm text-slate-700 underline">
+            Clear conversation
+          </button>
+        )}
+      </div>
+
+      {storageNotice && <div className="mb-3 text-xs text-amber-800">{storageNotice}</div>}
+
+      {!endpoint ? (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          No chat endpoint is configured. Set <code>NEXT_PUBLIC_CHAT_URL</code> (or <code>NEXT_PUBLIC_API_BASE_URL</code>,
+          which uses its <code>/chat</code> route). To try it locally, run <code>npm run mock:chat</code> and set{" "}
+          <code>NEXT_PUBLIC_CHAT_URL=http://localhost:4020/chat</code>.
+        </div>
+      ) : (
+        <>
+          {messages.length > 0 && (
+            <ol ref={logRef} aria-label="Conversation" className="mb-4 max-h-[28rem] space-y-3 overflow-y-auto">
+              {messages.map((m, idx) => (
+                <li key={idx} className={m.role === "user" ? "flex justify-end" : "flex justify-start"}>
+                  <div
+                    className={
+                      m.role === "user"
+                        ? "max-w-[85%] rounded-2xl bg-slate-900 px-4 py-2 text-sm text-white"
+                        : `max-w-[85%] rounded-2xl border px-4 py-2 text-sm ${
+                            m.error ? "border-amber-200 bg-amber-50 text-amber-900" : "border-slate-200 bg-slate-50 text-slate-800"
+                          }`
+                    }
+                  >
+                    <span className="sr-only">{m.role === "user" ? "You:" : "Answer:"}</span>
+                    {m.role === "user" ? (
+                      <div className="whitespace-pre-wrap">{m.content}</div>
+                    ) : m.content ? (
+                      <AnswerText text={m.content} result={result} onOpenRows={onOpenRows} />
+                    ) : (
+                      <span className="text-slate-500">Thinking...</span>
+                    )}
+                    {m.role === "assistant" && m.content && !m.error && !(streaming && idx === messages.length - 1) && (
+                      <button
+                        type="button"
+                        onClick={() => copyAnswer(idx, m.content)}
+                        className="mt-1 text-xs text-slate-500 underline"
+                      >
+                        {copied === idx ? "Copied" : "Copy"}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {/* Completed answers are announced once; streaming deltas would be read piecemeal */}
+          <div aria-live="polite" className="sr-only">
+            {!streaming && messages[messages.length - 1]?.role === "assistant" ? messages[messages.length - 1].content : ""}
+          </div>
+
+          {messages.length === 0 && (
+            <div className="mb-3 flex flex-wrap gap-2">
+              {SUGGESTIONS.map((s) => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => ask(s)}
+                  disabled={!result}
+                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs text-slate-800 hover:bg-slate-50 disabled:opacity-60"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              ask(question);
+            }}
+            className="flex gap-2"
+          >
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  ask(question);
+                }
+              }}
+              rows={2}
+              placeholder="Ask a follow-up question (Enter to send, Shift+Enter for a new line)"
+              aria-label="Question"
+              className="min-w-0 flex-1 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+            />
+            {streaming ? (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="self-end rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!question.trim() || !result}
+                className="self-end rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Ask
+              </button>
+            )}
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import { JOB_STAGES } from "../../lib/analysisJob";
+import {
+  BATCH_CONCURRENCY,
+  BatchCourse,
+  BatchEngine,
+  BatchEntry,
+  BatchPlan,
+  BatchStatus,
+  ROLLUP_KPI_IDS,
+  analyzeBatchCourse,
+  departmentRollup,
+  kpiSortValue,
+  planBatch,
+  rollupCsv,
+  rollupKpis,
+  runWithConcurrency,
+} from "../../lib/batch";
+import { EvaluatedKpi, KPI_TONE_LABELS, KpiTone, formatKpi, getKpi } from "../../lib/kpis";
+import { SavedRun, downloadTextFile } from "../../lib/runHistory";
+
+const TONE_CELL: Record<KpiTone, string> = {
+  good: "bg-green-50 text-green-900",
+  warn: "bg-amber-50 text-amber-900",
+  bad: "bg-red-50 text-red-900",
+  neutral: "text-slate-800",
+};
+
+const STATUS_LABEL: Record<BatchStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_CLASS: Record<BatchStatus, string> = {
+  queued: "text-slate-500",
+  running: "text-slate-900",
+  done: "text-green-700",
+  failed: "text-red-700",
+  cancelled: "text-slate-500",
+};
+
+type SortKey = "course" | "status" | string; // string: a rollup KPI id
+type Sort = { key: SortKey; dir: "asc" | "desc" };
+
+function KpiCell({ kpi }: { kpi: EvaluatedKpi }) {
+  const toneLabel = KPI_TONE_LABELS[kpi.tone];
+  return (
+    <td className={`px-3 py-2 text-right tabular-nums ${TONE_CELL[kpi.tone]}`} title={toneLabel || undefined}>
+      {formatKpi(kpi.def, kpi.value)}
+      {toneLabel && <span className="sr-only"> ({toneLabel})</span>}
+    </td>
+  );
+}
+
+function SortHeader({
+  sortKey,
+  label,
+  sort,
+  onSort,
+  align = "left",
+}: {
+  sortKey: SortKey;
+  label: string;
+  sort: Sort;
+  onSort: (key: SortKey) => void;
+  align?: "left" | "right";
+}) {
+  const active = sort.key === sortKey;
+  return (
+    <th
+      scope="col"
+      aria-sort={active ? (sort.dir === "asc" ? "ascending" : "descending") : "none"}
+      className={`px-3 py-2 font-semibold text-slate-700 ${align === "right" ? "text-right" : "text-left"}`}
+    >
+      <button type="button" onClick={() => onSort(sortKey)} className="inline-flex items-center gap-1 hover:underline">
+        {label}
+        <span aria-hidden="true" className="text-xs text-slate-400">
+          {active ? (sort.dir === "asc" ? "▲" : "▼") : "↕"}
+        </span>
+      </button>
+    </th>
+  );
+}
+
+// Many courses at once: pair the uploaded exports, analyze them a few at a time, compare them in a rollup
+export default function BatchPanel({
+  apiBase,
+  defaultEngine,
+  onOpen,
+  onClose,
+}: {
+  apiBase: string;
+  defaultEngine: BatchEngine;
+  onOpen: (run: SavedRun) => void;
+  onClose: () => void;
+}) {
+  const [engine, setEngine] = useState<BatchEngine>(defaultEngine);
+  const [plan, setPlan] = useState<BatchPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<Sort>({ key: "course", dir: "asc" });
+  const [concernsOnly, setConcernsOnly] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const defs = ROLLUP_KPI_IDS.map((id) => getKpi(id)!);
+
+  async function handleFiles(list: FileList | null) {
+    if (!list || list.length === 0) return;
+    setPlanning(true);
+    setError(null);
+    try {
+      const next = await planBatch(Array.from(list));
+      setPlan(next);
+      setEntries(next.courses.map((course) => ({ course, status: "queued" })));
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setPlanning(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function update(courseId: string, patch: Partial<BatchEntry>) {
+    setEntries((list) => list.map((e) => (e.course.courseId === courseId ? { ...e, ...patch } : e)));
+  }
+
+  async function runBatch(courses: BatchCourse[]) {
+    if (courses.length === 0 || running) return;
+    if (engine === "backend" && !apiBase) {
+      setError("Missing NEXT_PUBLIC_API_BASE_URL. Choose \"In this browser\" to analyze offline.");
+      return;
+    }
+    const ids = new Set(courses.map((c) => c.courseId));
+    setEntries((list) =>
+      list.map((e) => (ids.has(e.course.courseId) ? { course: e.course, status: "queued" as const } : e))
+    );
+    setError(null);
+    setRunning(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      await runWithConcurrency(
+        courses,
+        BATCH_CONCURRENCY[engine],
+        async (course) => {
+          update(course.courseId, { status: "running", stage: "Checking files" });
+          try {
+            const run = await analyzeBatchCourse(course, {
+              engine,
+              apiBase,
+              signal: controller.signal,
+              onStage: (id, status) => {
+                if (status === "running") update(course.courseId, { stage: JOB_STAGES.find((s) => s.id === id)?.label });
+              },
+            });
+            update(course.courseId, { status: "done", stage: undefined, run });
+          } catch (e: any) {
+            update(
+              course.courseId,
+              e?.name === "AbortError"
+                ? { status: "cancelled", stage: undefined }
+                : { status: "failed", stage: undefined, error: e?.message ?? String(e) }
+            );
+          }
+        },
+        controller.signal
+      );
+    } finally {
+      // Courses the cancel stopped before they started
+      setEntries((list) => list.map((e) => (ids.has(e.course.courseId) && e.status === "queued" ? { ...e, status: "cancelled" } : e)));
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunning(false);
+    }
+  }
+
+  const counts = useMemo(() => {
+    const out: Record<BatchStatus, number> = { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+    for (const e of entries) out[e.status] += 1;
+    return out;
+  }, [entries]);
+
+  const rows = useMemo(() => {
+    const withKpis = entries.map((entry) => ({ entry, kpis: rollupKpis(entry) }));
+    const visible = concernsOnly ? withKpis.filter((r) => r.kpis.some((k) => k.tone === "bad" || k.tone === "warn")) : withKpis;
+    const key = (r: (typeof withKpis)[number]): string | number | null => {
+      if (sort.key === "course") return r.entry.course.name;
+      if (sort.key === "status") return STATUS_LABEL[r.entry.status];
+      return kpiSortValue(r.kpis.find((k) => k.def.id === sort.key)?.value ?? null);
+    };
+    const dir = sort.dir === "asc" ? 1 : -1;
+    return [...visible].sort((a, b) => {
+      const ka = key(a);
+      const kb = key(b);
+      // Courses without a value sort last either way
+      if (ka === null || kb === null) return ka === kb ? 0 : ka === null ? 1 : -1;
+      if (typeof ka === "number" && typeof kb === "number") return (ka - kb) * dir;
+      return String(ka).localeCompare(String(kb), undefined, { numeric: true }) * dir;
+    });
+  }, [entries, sort, concernsOnly]);
+
+  const department = useMemo(() => departmentRollup(entries), [entries]);
+  const retryable = entries.filter((e) => e.status === "failed" || e.status === "cancelled").map((e) => e.course);
+
+  function toggleSort(key: SortKey) {
+    setSort((s) => (s.key === key ? { key, dir: s.dir === "asc" ? "desc" : "asc" } : { key, dir: key === "course" ? "asc" : "desc" }));
+  }
+
+  return (
+    <section aria-label="Batch analysis" className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Batch analysis</h2>
+          <div className="text-sm text-slate-600">Analyze many courses at once and compare them in a department rollup.</div>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 mb-4">
+        <div className="text-sm text-slate-700 mb-3">
+          Choose a <strong>zip</strong> of the exports, or the exports plus a <strong>manifest CSV</strong> with the columns{" "}
+          <code>course_id</code>, <code>gradebook</code>, <code>echo</code> (file names) and optionally <code>name</code>.
+          Without a manifest, files are paired by the course ID in their folder or file name, e.g.{" "}
+          <code>12345/grades.csv</code> and <code>12345/echo.csv</code>.
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            disabled={running || planning}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60"
+          >
+            {planning ? "Reading files..." : plan ? "Choose different files" : "Choose files"}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            multiple
+            accept=".csv,.zip,text/csv,application/zip"
+            className="sr-only"
+            aria-label="Batch files"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <fieldset className="flex flex-wrap items-center gap-3 text-sm text-slate-800" disabled={running}>
+            <legend className="sr-only">Analysis engine</legend>
+            <label className="inline-flex items-center gap-1.5">
+              <input
+                type="radio"
+                name="batch-engine"
+                checked={engine === "backend"}
+                onChange={() => setEngine("backend")}
+                disabled={!apiBase}
+              />
+              Analytics server
+            </label>
+            <label className="inline-flex items-center gap-1.5">
+              <input type="radio" name="batch-engine" checked={engine === "local"} onChange={() => setEngine("local")} />
+              In this browser
+            </label>
+          </fieldset>
+        </div>
+      </div>
+
+      {plan && (
+        <div className="mb-4 space-y-3">
+          <div className="text-sm text-slate-700">
+            {plan.courses.length} {plan.courses.length === 1 ? "course" : "courses"} ready
+            {plan.manifest ? ` from ${plan.manifest}` : ", paired by course ID"}.
+          </div>
+          {plan.problems.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900" role="status">
+              <div className="font-medium">
+                {plan.problems.length} {plan.problems.length === 1 ? "item was" : "items were"} left out:
+              </div>
+              <ul className="list-disc list-inside text-xs space-y-0.5 mt-1">
+                {plan.problems.map((p) => (
+                  <li key={p}>{p}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            {running ? (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+              >
+                Cancel batch
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => runBatch(plan.courses)}
+                disabled={plan.courses.length === 0}
+                className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Run {plan.courses.length} {plan.courses.length === 1 ? "analysis" : "analyses"}
+              </button>
+            )}
+            {!running && retryable.length > 0 && (
+              <button
+                type="button"
+                onClick={() => runBatch(retryable)}
+                className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+              >
+                Retry {retryable.length} unfinished
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => downloadTextFile("department-rollup.csv", rollupCsv(entries), "text/csv")}
+              disabled={counts.done === 0}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Download rollup CSV
+            </button>
+            <div className="text-sm text-slate-600" aria-live="polite">
+              {counts.done} done
+              {counts.failed > 0 && ` · ${counts.failed} failed`}
+              {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+              {running && ` · ${counts.running} running, ${counts.queued} queued`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <div className="flex flex-wrap gap-3 text-xs text-slate-600" aria-label="Highlight legend">
+              {(["good", "warn", "bad"] as KpiTone[]).map((tone) => (
+                <span key={tone} className={`rounded-full px-2 py-0.5 ${TONE_CELL[tone]}`}>
+                  {KPI_TONE_LABELS[tone]}
+                </span>
+              ))}
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+              <input type="checkbox" checked={concernsOnly} onChange={(e) => setConcernsOnly(e.target.checked)} />
+              Only courses to watch
+            </label>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="min-w-full text-sm">
+              <caption className="sr-only">Department rollup, one row per course. Select a course to open its results.</caption>
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <SortHeader sortKey="course" label="Course" sort={sort} onSort={toggleSort} />
+                  <SortHeader sortKey="status" label="Status" sort={sort} onSort={toggleSort} />
+                  {defs.map((d) => (
+                    <SortHeader key={d.id} sortKey={d.id} label={d.label} sort={sort} onSort={toggleSort} align="right" />
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map(({ entry, kpis }) => (
+                  <tr key={entry.course.courseId}>
+                    <th scope="row" className="px-3 py-2 text-left font-normal">
+                      {entry.run ? (
+                        <button
+                          type="button"
+                          onClick={() => onOpen(entry.run!)}
+                          className="font-medium text-slate-900 underline decoration-dotted underline-offset-2 hover:decoration-solid focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen rounded"
+                        >
+                          {entry.course.name}
+                        </button>
+                      ) : (
+                        <span className="font-medium text-slate-900">{entry.course.name}</span>
+                      )}
+                      {entry.course.name !== entry.course.courseId && (
+                        <div className="text-xs text-slate-500">Course {entry.course.courseId}</div>
+                      )}
+                    </th>
+                    <td className={`px-3 py-2 ${STATUS_CLASS[entry.status]}`}>
+                      {STATUS_LABEL[entry.status]}
+                      {entry.stage && <div className="text-xs text-slate-500">{entry.stage}...</div>}
+                      {entry.error && <div className="text-xs text-red-700 max-w-xs">{entry.error}</div>}
+                    </td>
+                    {kpis.map((k) => (
+                      <KpiCell key={k.def.id} kpi={k} />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {counts.done > 0 && (
+                <tfoot className="border-t-2 border-slate-300 bg-slate-50 font-semibold">
+                  <tr>
+                    <th scope="row" className="px-3 py-2 text-left">
+                      Department
+                      <div className="text-xs font-normal text-slate-500">
+                        {counts.done} {counts.done === 1 ? "course" : "courses"}; percentages weighted by students
+                      </div>
+                    </th>
+                    <td className="px-3 py-2" />
+                    {department.map((k) => (
+                      <KpiCell key={k.def.id} kpi={k} />
+                    ))}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+          <div className="mt-2 text-xs text-slate-500">
+            Finished courses are saved to History. Select a course name to open its full results.
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
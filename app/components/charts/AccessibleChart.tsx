@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useId, useMemo, useRef, useState } from "react";
+import { PNG_SCALE, chartFileStem, chartSeriesCsv, serializeChartSvg, svgToPngBlob } from "../../lib/chartExport";
+import { ChartPoint, ChartSeries, formatChartValue, summarizeChart } from "../../lib/chartSummary";
+import { downloadBlob, downloadTextFile } from "../../lib/runHistory";
+
+export type ChartFocus = {
+  label: string;
+  series: ChartSeries;
+  value: number | null;
+};
+
+/**
+ * Text alternative and keyboard access around a Recharts chart: a generated summary, a
+ * "View as table" toggle, arrow-key stepping through points announced in a live region, and an
+ * SVG / PNG / CSV export menu. The chart itself is drawn by `children`, which gets the focused
+ * point to highlight.
+ */
+export default function AccessibleChart({
+  title,
+  data,
+  labelKey,
+  labelName = "Module",
+  series,
+  summary: summaryOverride,
+  exportName,
+  children,
+}: {
+  title: string;
+  data: ChartPoint[];
+  labelKey: string;
+  labelName?: string;
+  series: ChartSeries[]; // only series actually drawn
+  summary?: string[]; // replaces the generated by-module summary (e.g. for scatter plots)
+  exportName?: string; // download file name without extension; defaults to the title
+  children: (focus: ChartFocus | null) => React.ReactNode;
+}) {
+  const baseId = useId();
+  const summaryId = `${baseId}-summary`;
+  const tableId = `${baseId}-table`;
+
+  const chartRef = useRef<HTMLDivElement>(null);
+  const exportMenuRef = useRef<HTMLDetailsElement>(null);
+  const [exporting, setExporting] = useState(false);
+  const [showTable, setShowTable] = useState(false);
+  const [pointIdx, setPointIdx] = useState<number | null>(null);
+  const [seriesIdx, setSeriesIdx] = useState(0);
+
+  const summary = useMemo(
+    () => summaryOverride ?? summarizeChart(data, labelKey, series),
+    [summaryOverride, data, labelKey, series]
+  );
+
+  const safeSeriesIdx = Math.min(seriesIdx, Math.max(0, series.length - 1));
+  const focus: ChartFocus | null = useMemo(() => {
+    if (pointIdx === null || !data[pointIdx] || series.length === 0) return null;
+    const s = series[safeSeriesIdx];
+    const v = data[pointIdx][s.key];
+    return {
+      label: String(data[pointIdx][labelKey] ?? ""),
+      series: s,
+      value: typeof v === "number" && Number.isFinite(v) ? v : null,
+    };
+  }, [pointIdx, safeSeriesIdx, data, series, labelKey]);
+
+  const announcement = focus
+    ? `${labelName} ${pointIdx! + 1} of ${data.length}: ${focus.label}. ${focus.series.name}: ${formatChartValue(focus.series.format, focus.value)}.`
+    : "";
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (data.length === 0 || series.length === 0) return;
+    const last = data.length - 1;
+    const current = pointIdx ?? -1;
+    let handled = true;
+    if (e.key === "ArrowRight") setPointIdx(Math.min(last, current + 1));
+    else if (e.key === "ArrowLeft") setPointIdx(current <= 0 ? 0 : current - 1);
+    else if (e.key === "Home") setPointIdx(0);
+    else if (e.key === "End") setPointIdx(last);
+    else if (e.key === "ArrowDown") {
+      setSeriesIdx((safeSeriesIdx + 1) % series.length);
+      if (pointIdx === null) setPointIdx(0);
+    } else if (e.key === "ArrowUp") {
+      setSeriesIdx((safeSeriesIdx - 1 + series.length) % series.length);
+      if (pointIdx === null) setPointIdx(0);
+    } else if (e.key === "Escape") setPointIdx(null);
+    else handled = false;
+    if (handled) e.preventDefault();
+  }
+
+  async function exportChart(kind: "svg" | "png" | "csv") {
+    if (exportMenuRef.current) exportMenuRef.current.open = false;
+    const stem = exportName ?? chartFileStem(title);
+    if (kind === "csv") {
+      const keys = series.map((s) => s.key);
+      downloadTextFile(`${stem}.csv`, chartSeriesCsv(data, labelKey, labelName, keys), "text/csv");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const chart = chartRef.current ? serializeChartSvg(chartRef.current) : null;
+      if (!chart) throw new Error("The chart has not been drawn yet.");
+      if (kind === "svg") {
+        downloadTextFile(`${stem}.svg`, chart.svg, "image/svg+xml");
+      } else {
+        downloadBlob(`${stem}.png`, await svgToPngBlob(chart));
+      }
+    } catch (err) {
+      console.error("Chart export failed:", err);
+      alert("Failed to export the chart. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div>
+      <div
+        ref={chartRef}
+        tabIndex={0}
+        role="group"
+        aria-roledescription="chart"
+        aria-label={`${title}. Use left and right arrow keys to step through ${labelName.toLowerCase()}s, up and down to switch series.`}
+        aria-describedby={summaryId}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setPointIdx(null)}
+        className="rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+      >
+        {children(focus)}
+      </div>
+
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-start justify-between gap-3">
+        <div id={summaryId} className="text-xs text-slate-600 space-y-0.5">
+          {summary.length > 0 ? summary.map((s) => <p key={s}>{s}</p>) : <p>No data to summarize.</p>}
+        </div>
+        <div className="flex shrink-0 items-start gap-2">
+          <button
+            type="button"
+            onClick={() => setShowTable((v) => !v)}
+            aria-expanded={showTable}
+            aria-controls={tableId}
+            className="rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            {showTable ? "Hide table" : "View as table"}
+          </button>
+          <details ref={exportMenuRef} className="relative">
+            <summary className="cursor-pointer list-none rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50">
+              {exporting ? "Exporting..." : "Export"}
+            </summary>
+            <div className="absolute right-0 z-20 mt-1 w-52 rounded-xl border border-slate-200 bg-white p-1 shadow-lg">
+              {(
+                [
+                  ["svg", "SVG (vector)"],
+                  ["png", `PNG (${PNG_SCALE}× resolution)`],
+                  ["csv", "CSV of plotted series"],
+                ] as const
+              ).map(([kind, label]) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => exportChart(kind)}
+                  disabled={exporting}
+                  className="block w-full rounded-lg px-3 py-1.5 text-left text-xs text-slate-900 hover:bg-slate-50 disabled:opacity-60"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </details>
+        </div>
+      </div>
+
+      <div id={tableId} hidden={!showTable} className="mt-3 rounded-xl border border-slate-200 overflow-x-auto">
+        {showTable && (
+          <table className="w-full text-[13px] leading-5">
+            <caption className="sr-only">{title}</caption>
+            <thead className="bg-slate-100 border-b-2 border-slate-300">
+              <tr>
+                <th scope="col" className="text-left px-3 py-2 text-xs font-semibold text-slate-800">
+                  {labelName}
+                </th>
+                {series.map((s) => (
+                  <th key={s.key} scope="col" className="text-left px-3 py-2 text-xs font-semibold text-slate-800 whitespace-nowrap">
+                    {s.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.map((d, i) => (
+                <tr key={i} className="border-t border-slate-300">
+                  <th scope="row" className="text-left px-3 py-2 font-normal text-slate-900">
+                    {String(d[labelKey] ?? "")}
+                  </th>
+                  {series.map((s) => {
+                    const v = d[s.key];
+                    return (
+                      <td key={s.key} className="px-3 py-2 text-slate-900 whitespace-nowrap">
+                        {typeof v === "number" ? formatChartValue(s.format, v) : "—"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Scatter,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+  ReferenceDot,
+} from "recharts";
+import Table from "../table/Table";
+import AccessibleChart from "./AccessibleChart";
+import type { ChartSeries } from "../../lib/chartSummary";
+import { MIN_RELIABLE_N, correlateModules, describeStrength } from "../../lib/correlation";
+import type { EchoModuleRow, GradeModuleRow } from "../../lib/schema";
+
+const CSU_GREEN = "#1E4D2B";
+const CSU_ORANGE = "#D9782D";
+
+const OUTLIER_COLS = ["Module", "Overall View %", "Avg Average Excluding Zeros", "Expected Score", "Residual", "Position"];
+const OUTLIER_PERCENT_COLS = ["Overall View %", "Avg Average Excluding Zeros", "Expected Score", "Residual"];
+
+const SCATTER_SERIES: ChartSeries[] = [
+  { key: "__x", name: "Overall View %", format: "proportion" },
+  { key: "__y", name: "Avg Excluding Zeros", format: "proportion" },
+];
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+function formatCoefficient(r: number | null) {
+  return r === null ? "—" : r.toFixed(2);
+}
+
+export default function CorrelationPanel({
+  echoModules,
+  gradeModules,
+  exportName,
+}: {
+  echoModules: EchoModuleRow[];
+  gradeModules: GradeModuleRow[];
+  exportName?: string; // chart download file name (no extension)
+}) {
+  const corr = useMemo(() => correlateModules(echoModules, gradeModules), [echoModules, gradeModules]);
+
+  const points = useMemo(
+    () => corr.points.map((p) => ({ __x: p.viewPct, __y: p.score, __module: p.module })),
+    [corr.points]
+  );
+
+  // Trend line drawn across the observed viewing range only
+  const trend = useMemo(() => {
+    if (!corr.fit || points.length === 0) return [];
+    const xs = points.map((p) => p.__x);
+    const lo = Math.min(...xs);
+    const hi = Math.max(...xs);
+    return [lo, hi].map((x) => ({ __x: x, __trend: corr.fit!.slope * x + corr.fit!.intercept }));
+  }, [corr.fit, points]);
+
+  const outlierRows = useMemo(
+    () =>
+      corr.outliers.map((o) => ({
+        Module: o.module,
+        "Overall View %": o.viewPct,
+        "Avg Average Excluding Zeros": o.score,
+        "Expected Score": o.expected,
+        Residual: o.residual,
+        Position: o.residual > 0 ? "Above trend" : "Below trend",
+      })),
+    [corr.outliers]
+  );
+
+  const summary = useMemo(
+    () => [
+      `${corr.n} modules compared. Pearson r ${formatCoefficient(corr.pearson)} (${describeStrength(corr.pearson)}), Spearman ρ ${formatCoefficient(corr.spearman)} (${describeStrength(corr.spearman)}).`,
+      corr.outliers.length > 0
+        ? `Outliers: ${corr.outliers.map((o) => `${o.module} (${o.residual > 0 ? "above" : "below"} trend)`).join(", ")}.`
+        : "No module sits far from the trend line.",
+    ],
+    [corr]
+  );
+
+  if (corr.n < 3) {
+    return (
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+        <div className="text-lg font-semibold text-slate-900 mb-2">Viewing vs. Scores by Module</div>
+        <div className="text-sm text-slate-600">
+          At least 3 modules with both Echo360 viewing and gradebook scores are needed. {corr.n} matched by module
+          name; check the module mapping if this looks low.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6 grid gap-4">
+      <div>
+        <div className="text-lg font-semibold text-slate-900 mb-1">Viewing vs. Scores by Module</div>
+        <div className="text-sm text-slate-600">
+          Each point is a module: Overall View % against Avg Average Excluding Zeros.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="rounded-xl border border-slate-200 p-4">
+          <div className="text-xs font-medium text-slate-500 mb-1">Pearson r</div>
+          <div className="text-2xl font-semibold text-slate-900">{formatCoefficient(corr.pearson)}</div>
+          <div className="text-xs text-slate-500">{describeStrength(corr.pearson)} (linear)</div>
+        </div>
+        <div className="rounded-xl border border-slate-200 p-4">
+          <div className="text-xs font-medium text-slate-500 mb-1">Spearman ρ</div>
+          <div className="text-2xl font-semibold text-slate-900">{formatCoefficient(corr.spearman)}</div>
+          <div className="text-xs text-slate-500">{describeStrength(corr.spearman)} (rank order)</div>
+        </div>
+        <div className="rounded-xl border border-slate-200 p-4">
+          <div className="text-xs font-medium text-slate-500 mb-1">Modules compared</div>
+          <div className="text-2xl font-semibold text-slate-900">{corr.n}</div>
+          {corr.fit && (
+            <div className="text-xs text-slate-500">
+              Trend: {corr.fit.slope >= 0 ? "+" : ""}
+              {(corr.fit.slope * 10).toFixed(1)} pts score per +10 pts viewing
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div
+        className={`rounded-xl border px-4 py-3 text-xs ${
+          corr.n < MIN_RELIABLE_N ? "border-amber-200 bg-amber-50 text-amber-900" : "border-slate-200 bg-slate-50 text-slate-700"
+        }`}
+        role="note"
+      >
+        {corr.n < MIN_RELIABLE_N
+          ? `Only ${corr.n} modules: with fewer than ${MIN_RELIABLE_N} points a single module can swing these coefficients a lot, so treat them as a hint, not a finding. `
+          : ""}
+        Module averages can move together for many reasons (difficulty, timing in term); correlation here doesn’t mean
+        viewing causes higher scores.
+      </div>
+
+      <AccessibleChart
+        title="Viewing vs. scores by module"
+        data={points}
+        labelKey="__module"
+        series={SCATTER_SERIES}
+        summary={summary}
+        exportName={exportName}
+      >
+        {(focus) => {
+          const focusPoint = focus ? points.find((p) => p.__module === focus.label) : undefined;
+          return (
+            <div className="h-[380px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 16, right: 20, bottom: 30, left: 50 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {focusPoint && (
+                    <ReferenceDot
+                      x={focusPoint.__x}
+                      y={focusPoint.__y}
+                      r={8}
+                      fill="none"
+                      stroke="#0f172a"
+                      strokeWidth={2}
+                      isFront
+                    />
+                  )}
+                  <XAxis
+                    type="number"
+                    dataKey="__x"
+                    domain={[0, 1]}
+                    tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                    label={{ value: "Overall View %", position: "insideBottom", offset: -15, fill: "#334155", fontSize: 12 }}
+                  />
+                  <YAxis
+                    type="number"
+                    domain={[0, 1]}
+                    tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                    label={{ value: "Avg Excluding Zeros", angle: -90, position: "insideLeft", offset: -30, fill: "#334155", fontSize: 12 }}
+                  />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      const d: any = active && payload?.[0]?.payload;
+                      if (!d || d.__module === undefined) return null;
+                      return (
+                        <div className="rounded border border-slate-300 bg-white px-3 py-2 text-xs text-black">
+                          <div className="font-semibold mb-1">{d.__module}</div>
+                          <div>Overall View %: {pct(d.__x)}</div>
+                          <div>Avg Excluding Zeros: {pct(d.__y)}</div>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Legend
+                    verticalAlign="top"
+                    align="left"
+                    wrapperStyle={{ paddingBottom: 8 }}
+                    formatter={(value) => <span style={{ color: "#0f172a" }}>{value}</span>}
+                  />
+                  <Scatter name="Module" data={points} dataKey="__y" fill={CSU_GREEN} />
+                  {trend.length > 0 && (
+                    <Line
+                      name="Trend (least squares)"
+                      data={trend}
+                      dataKey="__trend"
+                      type="linear"
+                      stroke={CSU_ORANGE}
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={false}
+                      isAnimationActive={false}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          );
+        }}
+      </AccessibleChart>
+
+      {outlierRows.length > 0 ? (
+        <Table
+          id="correlation-outliers"
+          title="Outlier Modules (≥ 1.5 SD from trend)"
+          rows={outlierRows}
+          columns={OUTLIER_COLS}
+          percentCols={OUTLIER_PERCENT_COLS}
+        />
+      ) : (
+        <div className="text-sm text-slate-600">No module sits more than 1.5 standard deviations from the trend line.</div>
+      )}
+    </div>
+  );
+}
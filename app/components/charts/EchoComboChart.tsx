@@ -11,9 +11,12 @@ import {
   Tooltip,
   Legend,
   CartesianGrid,
+  ReferenceLine,
 } from "recharts";
-
-type Row = Record<string, any>;
+import type { ChartSeries } from "../../lib/chartSummary";
+import { mergeBaseline } from "../../lib/comparison";
+import type { EchoModuleRow } from "../../lib/schema";
+import AccessibleChart from "./AccessibleChart";
 
 /* === Color palette ===
    Bars:   green + orange
@@ -24,74 +27,53 @@ const CSU_ORANGE = "#94B0E3";
 const CSU_BLUE = "#F58D0F";
 const CSU_RED = "#C91CAD";
 
-function toNumber(v: any): number | null {
-  if (v === null || v === undefined || v === "") return null;
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  const s = String(v).trim();
-  if (!s) return null;
-  const cleaned = s.replace(/%/g, "").replace(/,/g, "");
-  const n = Number(cleaned);
-  return Number.isFinite(n) ? n : null;
-}
-
-function pickKey(keys: string[], candidates: string[]) {
-  for (const c of candidates) if (keys.includes(c)) return c;
-  return null;
-}
-
 function truncateLabel(s: string, max = 18) {
   if (!s) return "";
   return s.length > max ? `${s.slice(0, max - 1)}…` : s;
 }
 
+type ChartDatum = {
+  __module: string;
+  __viewers: number | null;
+  __notViewing: number | null;
+  __overallPct: number | null;
+  __avgPct: number | null;
+  __baseViewers?: number | null;
+  __baseOverallPct?: number | null;
+  __baseAvgPct?: number | null;
+};
+
 export default function EchoComboChart({
   moduleRows,
+  baselineRows,
   studentsTotal,
   title,
+  exportName,
 }: {
-  moduleRows: Row[];
+  moduleRows: EchoModuleRow[];
+  // When given, baseline series are overlaid as dashed lines (matched by module name)
+  baselineRows?: EchoModuleRow[];
   studentsTotal?: number;
   title?: string;
+  exportName?: string; // chart download file name (no extension)
 }) {
-  const { data, viewersKey, overallKey, avgKey } = useMemo(() => {
+  const data = useMemo(() => {
     const rows = Array.isArray(moduleRows) ? moduleRows : [];
-    const keys = Object.keys(rows[0] ?? {});
-
-    const moduleKey =
-      pickKey(keys, ["Module", "module", "Module Name", "module_name"]) ?? "Module";
 
-    const viewersKey =
-      pickKey(keys, [
-        "# of Students Viewing",
-        "# Students Viewing",
-        "Students Viewing",
-        "# of Unique Viewers",
-        "# of Unique Viewers (Module)",
-      ]) ?? null;
+    const current: ChartDatum[] = rows.map((r) => {
+      const viewers = r["# of Students Viewing"];
 
-    const overallKey =
-      pickKey(keys, ["Overall View %", "% of Video Viewed Overall", "Overall % Viewed"]) ?? null;
-
-    const avgKey =
-      pickKey(keys, ["Average View %", "Avg View %", "Average % Viewed"]) ?? null;
-
-    const data = rows.map((r) => {
-      const viewers = viewersKey ? toNumber(r[viewersKey]) : null;
-
-      const total =
-        toNumber(r["# of Students"]) ??
-        toNumber(r["# Students"]) ??
-        (typeof studentsTotal === "number" ? studentsTotal : null);
+      const total = r["# of Students"] ?? (typeof studentsTotal === "number" ? studentsTotal : null);
 
       const notViewing =
         viewers !== null && total !== null ? Math.max(0, total - viewers) : null;
 
       // Percent values scaled to 0–100 for right axis
-      const overallPct = overallKey ? toNumber(r[overallKey]) : null;
-      const avgPct = avgKey ? toNumber(r[avgKey]) : null;
+      const overallPct = r["Overall View %"];
+      const avgPct = r["Average View %"];
 
       return {
-        __module: String(r[moduleKey] ?? ""),
+        __module: r.Module,
         __viewers: viewers,
         __notViewing: notViewing,
         __overallPct: overallPct !== null ? overallPct * 100 : null,
@@ -99,12 +81,59 @@ export default function EchoComboChart({
       };
     });
 
-    return { data, viewersKey, overallKey, avgKey };
-  }, [moduleRows, studentsTotal]);
+    if (!baselineRows) return current;
+
+    return mergeBaseline(
+      current,
+      (d) => d.__module,
+      baselineRows,
+      (b) => b.Module,
+      (b) => {
+        const overall = b?.["Overall View %"] ?? null;
+        const avg = b?.["Average View %"] ?? null;
+        return {
+          __baseViewers: b?.["# of Students Viewing"] ?? null,
+          __baseOverallPct: overall !== null ? overall * 100 : null,
+          __baseAvgPct: avg !== null ? avg * 100 : null,
+        };
+      },
+      (module): ChartDatum => ({
+        __module: module,
+        __viewers: null,
+        __notViewing: null,
+        __overallPct: null,
+        __avgPct: null,
+      })
+    );
+  }, [moduleRows, baselineRows, studentsTotal]);
 
   const hasStack = data.some((d) => d.__viewers !== null && d.__notViewing !== null);
   const hasOverall = data.some((d) => d.__overallPct !== null);
   const hasAvg = data.some((d) => d.__avgPct !== null);
+  const hasBaseViewers = data.some((d) => d.__baseViewers != null);
+  const hasBaseOverall = data.some((d) => d.__baseOverallPct != null);
+  const hasBaseAvg = data.some((d) => d.__baseAvgPct != null);
+
+  // Drawn series, in legend order, for the summary / table / keyboard navigation
+  const series = useMemo(() => {
+    const out: ChartSeries[] = [];
+    if (hasStack) {
+      out.push({ key: "__viewers", name: "# of Students Viewing", format: "count" });
+      out.push({ key: "__notViewing", name: "Students Not Viewing", format: "count" });
+    }
+    if (hasOverall) out.push({ key: "__overallPct", name: "Overall View %", format: "percent" });
+    if (hasAvg) out.push({ key: "__avgPct", name: "Average View %", format: "percent" });
+    if (hasBaseViewers) {
+      out.push({ key: "__baseViewers", name: "# of Students Viewing (baseline)", format: "count", baseline: true });
+    }
+    if (hasBaseOverall) {
+      out.push({ key: "__baseOverallPct", name: "Overall View % (baseline)", format: "percent", baseline: true });
+    }
+    if (hasBaseAvg) {
+      out.push({ key: "__baseAvgPct", name: "Average View % (baseline)", format: "percent", baseline: true });
+    }
+    return out;
+  }, [hasStack, hasOverall, hasAvg, hasBaseViewers, hasBaseOverall, hasBaseAvg]);
 
   return (
     <div className="w-full">
@@ -112,108 +141,160 @@ export default function EchoComboChart({
         <div className="text-sm font-semibold text-slate-900 mb-2">{title}</div>
       ) : null}
 
-      <div className="h-[520px] w-full">
-        <ResponsiveContainer width="100%" height="100%">
-          <ComposedChart
-            data={data}
-            margin={{ top: 28, right: 60, bottom: 24, left: 60 }}
-          >
-            <CartesianGrid strokeDasharray="3 3" />
-
-            <XAxis
-              dataKey="__module"
-              interval={0}
-              angle={-35}
-              textAnchor="end"
-              height={110}
-              tickFormatter={(v) => truncateLabel(String(v), 26)}
-              tick={{ fill: "#334155", fontSize: 11 }}
-            />
-
-            {/* Left axis = counts */}
-            <YAxis
-              yAxisId="count"
-              allowDecimals={false}
-              width={40}
-              label={{ value: "# of Students", angle: -90, position: "insideLeft", style: { textAnchor: "middle", fill: "#334155", fontSize: 12 } }}
-            />
-
-            {/* Right axis = percentages */}
-            <YAxis
-              yAxisId="pct"
-              orientation="right"
-              domain={[0, 100]}
-              ticks={[0, 20, 40, 60, 80, 100]}
-              tickFormatter={(v) => `${v}%`}
-              width={55}
-              label={{ value: "View %", angle: 90, position: "insideRight", style: { textAnchor: "middle", fill: "#334155", fontSize: 12 } }}
-            />
-
-            <Tooltip
-              formatter={(value: any, name: any) => {
-                if (name?.toLowerCase?.().includes("%"))
-                  return [`${value?.toFixed?.(1) ?? value}%`, name];
-                return [value, name];
-              }}
-              labelFormatter={(label) => String(label)}
-              contentStyle={{ backgroundColor: '#fff', border: '1px solid #ccc', color: '#000' }}
-              labelStyle={{ color: '#000' }}
-              itemStyle={{ color: '#000' }}
-            />
-            <Legend
-              verticalAlign="top"
-              align="left"
-              wrapperStyle={{ paddingBottom: 8 }}
-              formatter={(value) => <span style={{ color: '#0f172a' }}>{value}</span>}
-            />
-
-            {/* Stacked bars */}
-            {hasStack && (
-              <>
-                <Bar
-                  yAxisId="count"
-                  dataKey="__viewers"
-                  name={viewersKey ?? "Students Viewing"}
-                  stackId="a"
-                  fill={CSU_GREEN}
+      <AccessibleChart
+        title={title ?? "Echo360 viewing by module"}
+        data={data}
+        labelKey="__module"
+        series={series}
+        exportName={exportName}
+      >
+        {(focus) => (
+          <div className="h-[520px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={data}
+                margin={{ top: 28, right: 60, bottom: 24, left: 60 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+
+                {focus && <ReferenceLine x={focus.label} yAxisId="count" stroke="#0f172a" strokeWidth={2} />}
+
+                <XAxis
+                  dataKey="__module"
+                  interval={0}
+                  angle={-35}
+                  textAnchor="end"
+                  height={110}
+                  tickFormatter={(v) => truncateLabel(String(v), 26)}
+                  tick={{ fill: "#334155", fontSize: 11 }}
                 />
-                <Bar
+
+                {/* Left axis = counts */}
+                <YAxis
                   yAxisId="count"
-                  dataKey="__notViewing"
-                  name="Students Not Viewing"
-                  stackId="a"
-                  fill={CSU_ORANGE}
+                  allowDecimals={false}
+                  width={40}
+                  label={{ value: "# of Students", angle: -90, position: "insideLeft", style: { textAnchor: "middle", fill: "#334155", fontSize: 12 } }}
+                />
+
+                {/* Right axis = percentages */}
+                <YAxis
+                  yAxisId="pct"
+                  orientation="right"
+                  domain={[0, 100]}
+                  ticks={[0, 20, 40, 60, 80, 100]}
+                  tickFormatter={(v) => `${v}%`}
+                  width={55}
+                  label={{ value: "View %", angle: 90, position: "insideRight", style: { textAnchor: "middle", fill: "#334155", fontSize: 12 } }}
+                />
+
+                <Tooltip
+                  formatter={(value: any, name: any) => {
+                    if (name?.toLowerCase?.().includes("%"))
+                      return [`${value?.toFixed?.(1) ?? value}%`, name];
+                    return [value, name];
+                  }}
+                  labelFormatter={(label) => String(label)}
+                  contentStyle={{ backgroundColor: '#fff', border: '1px solid #ccc', color: '#000' }}
+                  labelStyle={{ color: '#000' }}
+                  itemStyle={{ color: '#000' }}
+                />
+                <Legend
+                  verticalAlign="top"
+                  align="left"
+                  wrapperStyle={{ paddingBottom: 8 }}
+                  formatter={(value) => <span style={{ color: '#0f172a' }}>{value}</span>}
                 />
-              </>
-            )}
-
-            {/* Lines */}
-            {hasOverall && (
-              <Line
-                yAxisId="pct"
-                type="monotone"
-                dataKey="__overallPct"
-                name="Overall View %"
-                stroke={CSU_BLUE}
-                dot={false}
-                strokeWidth={2}
-              />
-            )}
-
-            {hasAvg && (
-              <Line
-                yAxisId="pct"
-                type="monotone"
-                dataKey="__avgPct"
-                name="Average View %"
-                stroke={CSU_RED}
-                dot={false}
-                strokeWidth={2}
-              />
-            )}
-          </ComposedChart>
-        </ResponsiveContainer>
-      </div>
+
+                {/* Stacked bars */}
+                {hasStack && (
+                  <>
+                    <Bar
+                      yAxisId="count"
+                      dataKey="__viewers"
+                      name="# of Students Viewing"
+                      stackId="a"
+                      fill={CSU_GREEN}
+                    />
+                    <Bar
+                      yAxisId="count"
+                      dataKey="__notViewing"
+                      name="Students Not Viewing"
+                      stackId="a"
+                      fill={CSU_ORANGE}
+                    />
+                  </>
+                )}
+
+                {/* Lines */}
+                {hasOverall && (
+                  <Line
+                    yAxisId="pct"
+                    type="monotone"
+                    dataKey="__overallPct"
+                    name="Overall View %"
+                    stroke={CSU_BLUE}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {hasAvg && (
+                  <Line
+                    yAxisId="pct"
+                    type="monotone"
+                    dataKey="__avgPct"
+                    name="Average View %"
+                    stroke={CSU_RED}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {/* Baseline overlay (dashed) */}
+                {hasBaseViewers && (
+                  <Line
+                    yAxisId="count"
+                    type="monotone"
+                    dataKey="__baseViewers"
+                    name="# of Students Viewing (baseline)"
+                    stroke={CSU_GREEN}
+                    strokeDasharray="6 4"
+                    dot={{ r: 2 }}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {hasBaseOverall && (
+                  <Line
+                    yAxisId="pct"
+                    type="monotone"
+                    dataKey="__baseOverallPct"
+                    name="Overall View % (baseline)"
+                    stroke={CSU_BLUE}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {hasBaseAvg && (
+                  <Line
+                    yAxisId="pct"
+                    type="monotone"
+                    dataKey="__baseAvgPct"
+                    name="Average View % (baseline)"
+                    stroke={CSU_RED}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </AccessibleChart>
 
       {!hasStack && (
         <div className="text-xs text-slate-500 mt-2">
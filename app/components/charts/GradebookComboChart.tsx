@@ -10,9 +10,12 @@ import {
   Tooltip,
   Legend,
   CartesianGrid,
+  ReferenceLine,
 } from "recharts";
-
-type Row = Record<string, any>;
+import type { ChartSeries } from "../../lib/chartSummary";
+import { mergeBaseline } from "../../lib/comparison";
+import type { GradeModuleRow } from "../../lib/schema";
+import AccessibleChart from "./AccessibleChart";
 
 const CSU_GREEN = "#1E4D2B";
 const CSU_ORANGE = "#D9782D";
@@ -27,108 +30,172 @@ function toNumber(v: any): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-function pickKey(keys: string[], candidates: string[]) {
-  for (const c of candidates) if (keys.includes(c)) return c;
-  return null;
-}
-
 function truncateLabel(s: string, max = 18) {
   if (!s) return "";
   return s.length > max ? `${s.slice(0, max - 1)}…` : s;
 }
 
+type ChartDatum = {
+  __x: string;
+  __a: number | null;
+  __b: number | null;
+  __baseA?: number | null;
+  __baseB?: number | null;
+};
+
 export default function GradebookComboChart({
   rows,
+  baselineRows,
   title,
+  exportName,
 }: {
-  rows: Row[];
+  rows: GradeModuleRow[];
+  // When given, baseline series are overlaid as dashed lines (matched by module name)
+  baselineRows?: GradeModuleRow[];
   title?: string;
+  exportName?: string; // chart download file name (no extension)
 }) {
-  const { data, lineAKey, lineBKey } = useMemo(() => {
+  const data = useMemo(() => {
     const safe = Array.isArray(rows) ? rows : [];
-    const keys = Object.keys(safe[0] ?? {});
-
-    const xKey = pickKey(keys, ["Module", "module", "Module Name", "module_name"]) ?? "Module";
-
-    const lineAKey = pickKey(keys, ["Avg % Turned In", "Avg Turned In %", "% Turned In"]) ?? null;
-    const lineBKey =
-      pickKey(keys, ["Avg Average Excluding Zeros", "Avg Excluding Zeros", "Average Excluding Zeros"]) ?? null;
 
-    const data = safe.map((r) => ({
-      __x: String(r[xKey] ?? ""),
-      __a: lineAKey ? toNumber(r[lineAKey]) : null,
-      __b: lineBKey ? toNumber(r[lineBKey]) : null,
+    const current: ChartDatum[] = safe.map((r) => ({
+      __x: r.Module,
+      __a: r["Avg % Turned In"],
+      __b: r["Avg Average Excluding Zeros"],
     }));
 
-    return { data, lineAKey, lineBKey };
-  }, [rows]);
+    if (!baselineRows) return current;
+
+    return mergeBaseline(
+      current,
+      (d) => d.__x,
+      baselineRows,
+      (b) => b.Module,
+      (b) => ({
+        __baseA: b?.["Avg % Turned In"] ?? null,
+        __baseB: b?.["Avg Average Excluding Zeros"] ?? null,
+      }),
+      (module): ChartDatum => ({ __x: module, __a: null, __b: null })
+    );
+  }, [rows, baselineRows]);
 
   const hasA = data.some((d) => d.__a !== null);
   const hasB = data.some((d) => d.__b !== null);
+  const hasBaseA = data.some((d) => d.__baseA != null);
+  const hasBaseB = data.some((d) => d.__baseB != null);
+
+  // Drawn series, in legend order, for the summary / table / keyboard navigation
+  const series = useMemo(() => {
+    const out: ChartSeries[] = [];
+    if (hasA) out.push({ key: "__a", name: "Avg % Turned In", format: "proportion" });
+    if (hasB) out.push({ key: "__b", name: "Avg Average Excluding Zeros", format: "proportion" });
+    if (hasBaseA) out.push({ key: "__baseA", name: "Avg % Turned In (baseline)", format: "proportion", baseline: true });
+    if (hasBaseB) {
+      out.push({ key: "__baseB", name: "Avg Average Excluding Zeros (baseline)", format: "proportion", baseline: true });
+    }
+    return out;
+  }, [hasA, hasB, hasBaseA, hasBaseB]);
 
   return (
     <div className="w-full">
       {title ? <div className="text-sm font-semibold text-slate-900 mb-2">{title}</div> : null}
 
-      <div className="h-[420px] w-full">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 16, right: 20, bottom: 90, left: 50 }}>
-            <CartesianGrid strokeDasharray="3 3" />
-
-            <XAxis
-              dataKey="__x"
-              interval={0}
-              angle={-35}
-              textAnchor="end"
-              height={110}
-              tickFormatter={(v) => truncateLabel(String(v), 26)}
-              tick={{ fill: "#334155", fontSize: 11 }}
-            />
-
-            {/* Both are proportions (0-1), so use 0–1 domain and format as % */}
-            <YAxis domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
-
-            <Tooltip
-              formatter={(value: any, name: any) => {
-                const n = typeof value === "number" ? value : toNumber(value);
-                if (n === null) return [value, name];
-                return [`${(n * 100).toFixed(1)}%`, name];
-              }}
-              contentStyle={{ backgroundColor: '#fff', border: '1px solid #ccc', color: '#000' }}
-              labelStyle={{ color: '#000' }}
-              itemStyle={{ color: '#000' }}
-            />
-            <Legend
-              verticalAlign="top"
-              align="left"
-              wrapperStyle={{ paddingBottom: 8 }}
-              formatter={(value) => <span style={{ color: '#0f172a' }}>{value}</span>}
-            />
-
-            {hasA && (
-              <Line
-                type="monotone"
-                dataKey="__a"
-                name={lineAKey ?? "Avg % Turned In"}
-                stroke={CSU_GREEN}
-                dot={false}
-                strokeWidth={2}
-              />
-            )}
-
-            {hasB && (
-              <Line
-                type="monotone"
-                dataKey="__b"
-                name={lineBKey ?? "Avg Average Excluding Zeros"}
-                stroke={CSU_ORANGE}
-                dot={false}
-                strokeWidth={2}
-              />
-            )}
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
+      <AccessibleChart
+        title={title ?? "Gradebook performance by module"}
+        data={data}
+        labelKey="__x"
+        series={series}
+        exportName={exportName}
+      >
+        {(focus) => (
+          <div className="h-[420px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data} margin={{ top: 16, right: 20, bottom: 90, left: 50 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+
+                {focus && <ReferenceLine x={focus.label} stroke="#0f172a" strokeWidth={2} />}
+
+                <XAxis
+                  dataKey="__x"
+                  interval={0}
+                  angle={-35}
+                  textAnchor="end"
+                  height={110}
+                  tickFormatter={(v) => truncateLabel(String(v), 26)}
+                  tick={{ fill: "#334155", fontSize: 11 }}
+                />
+
+                {/* Both are proportions (0-1), so use 0–1 domain and format as % */}
+                <YAxis domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+
+                <Tooltip
+                  formatter={(value: any, name: any) => {
+                    const n = typeof value === "number" ? value : toNumber(value);
+                    if (n === null) return [value, name];
+                    return [`${(n * 100).toFixed(1)}%`, name];
+                  }}
+                  contentStyle={{ backgroundColor: '#fff', border: '1px solid #ccc', color: '#000' }}
+                  labelStyle={{ color: '#000' }}
+                  itemStyle={{ color: '#000' }}
+                />
+                <Legend
+                  verticalAlign="top"
+                  align="left"
+                  wrapperStyle={{ paddingBottom: 8 }}
+                  formatter={(value) => <span style={{ color: '#0f172a' }}>{value}</span>}
+                />
+
+                {hasA && (
+                  <Line
+                    type="monotone"
+                    dataKey="__a"
+                    name="Avg % Turned In"
+                    stroke={CSU_GREEN}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {hasB && (
+                  <Line
+                    type="monotone"
+                    dataKey="__b"
+                    name="Avg Average Excluding Zeros"
+                    stroke={CSU_ORANGE}
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {/* Baseline overlay (dashed) */}
+                {hasBaseA && (
+                  <Line
+                    type="monotone"
+                    dataKey="__baseA"
+                    name="Avg % Turned In (baseline)"
+                    stroke={CSU_GREEN}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+
+                {hasBaseB && (
+                  <Line
+                    type="monotone"
+                    dataKey="__baseB"
+                    name="Avg Average Excluding Zeros (baseline)"
+                    stroke={CSU_ORANGE}
+                    strokeDasharray="6 4"
+                    dot={false}
+                    strokeWidth={2}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </AccessibleChart>
 
       {(!hasA || !hasB) && (
         <div className="text-xs text-slate-500 mt-2">
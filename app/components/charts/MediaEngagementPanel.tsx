@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Cell,
+  Scatter,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+  ReferenceLine,
+  ReferenceDot,
+} from "recharts";
+import AccessibleChart from "./AccessibleChart";
+import type { ChartSeries } from "../../lib/chartSummary";
+import { describeStrength } from "../../lib/correlation";
+import {
+  MediaSort,
+  buildMediaPoints,
+  durationCompletion,
+  mediaModules,
+  sortMediaPoints,
+} from "../../lib/mediaEngagement";
+import type { ModuleMapping } from "../../lib/moduleMapping";
+import type { EchoSummaryRow } from "../../lib/schema";
+
+const CSU_ORANGE = "#D9782D";
+const MARKER = "#0f172a";
+
+// Module colors, cycled when there are more modules than entries
+const MODULE_COLORS = [
+  "#1E4D2B",
+  "#1E54B3",
+  "#D9782D",
+  "#C91CAD",
+  "#0E7C86",
+  "#8A6D00",
+  "#6B4FBB",
+  "#B3261E",
+  "#4D7C0F",
+  "#475569",
+];
+
+// Above this many media the x-axis titles are dropped (tooltip and table still have them)
+const MAX_LABELED_MEDIA = 30;
+
+const BAR_SERIES: ChartSeries[] = [
+  { key: "__viewing", name: "% of Students Viewing", format: "proportion" },
+  { key: "__completion", name: "Average View %", format: "proportion" },
+];
+
+const SCATTER_SERIES: ChartSeries[] = [
+  { key: "__duration", name: "Video Duration (min)", format: "count" },
+  { key: "__completion", name: "Average View %", format: "proportion" },
+];
+
+const pct = (v: number | null | undefined) => (typeof v === "number" ? `${(v * 100).toFixed(1)}%` : "—");
+
+function truncateLabel(s: string, max = 18) {
+  if (!s) return "";
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+export default function MediaEngagementPanel({
+  summary,
+  mapping,
+  moduleOrder,
+  exportName,
+}: {
+  summary: EchoSummaryRow[];
+  mapping?: ModuleMapping | null; // media → module; titles not in it fall back to inference
+  moduleOrder: string[]; // Echo module table order
+  exportName?: string; // chart download file name prefix (no extension)
+}) {
+  const [sort, setSort] = useState<MediaSort>("module");
+
+  const media = useMemo(() => buildMediaPoints(summary, mapping, moduleOrder), [summary, mapping, moduleOrder]);
+  const sorted = useMemo(() => sortMediaPoints(media, sort, moduleOrder), [media, sort, moduleOrder]);
+
+  // Colors follow module order, so they don't change when re-sorting by value
+  const modules = useMemo(() => mediaModules(media), [media]);
+  const colorFor = (module: string) => MODULE_COLORS[Math.max(0, modules.indexOf(module)) % MODULE_COLORS.length];
+
+  const barData = useMemo(
+    () =>
+      sorted.map((p) => ({
+        __title: p.title,
+        __module: p.module,
+        __viewing: p.viewing,
+        __completion: p.completion,
+      })),
+    [sorted]
+  );
+
+  const dc = useMemo(() => durationCompletion(media), [media]);
+  const scatterData = useMemo(
+    () =>
+      dc.points.map((p) => ({
+        __title: p.title,
+        __module: p.module,
+        __duration: p.durationMin,
+        __completion: p.completion,
+      })),
+    [dc.points]
+  );
+
+  const trend = useMemo(() => {
+    if (!dc.fit || scatterData.length === 0) return [];
+    const xs = scatterData.map((p) => p.__duration!);
+    return [Math.min(...xs), Math.max(...xs)].map((x) => ({
+      __duration: x,
+      __trend: Math.min(1, Math.max(0, dc.fit!.slope * x + dc.fit!.intercept)),
+    }));
+  }, [dc.fit, scatterData]);
+
+  const scatterSummary = useMemo(() => {
+    const r = dc.spearman;
+    const direction =
+      r === null
+        ? "Not enough media with durations to judge a relationship."
+        : r <= -0.3
+          ? "Longer videos tend to be watched less completely."
+          : r >= 0.3
+            ? "Longer videos tend to be watched more completely."
+            : "Duration shows little relationship with how much of each video is watched.";
+    const buckets = dc.buckets
+      .filter((b) => b.n > 0)
+      .map((b) => `${b.label}: ${pct(b.completion)} (${b.n} ${b.n === 1 ? "video" : "videos"})`)
+      .join("; ");
+    return [
+      `${dc.n} media with a duration. Spearman ρ ${r === null ? "—" : r.toFixed(2)} (${describeStrength(r)}). ${direction}`,
+      ...(buckets ? [`Average View % by length — ${buckets}.`] : []),
+    ];
+  }, [dc]);
+
+  if (media.length === 0) return null;
+
+  const labeled = sorted.length <= MAX_LABELED_MEDIA;
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6 grid gap-6">
+      <div>
+        <div className="flex flex-wrap items-start justify-between gap-3 mb-1">
+          <div className="text-lg font-semibold text-slate-900">Media Engagement</div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            Sort by
+            <select value={sort} onChange={(e) => setSort(e.target.value as MediaSort)}>
+              <option value="module">Module order</option>
+              <option value="viewing">% of Students Viewing</option>
+              <option value="completion">Average View %</option>
+            </select>
+          </label>
+        </div>
+        <div className="text-sm text-slate-600 mb-3">
+          Bars show how many students opened each video; markers show how much of it they watched on average.
+        </div>
+
+        <AccessibleChart
+          title="Echo360 engagement by media"
+          data={barData}
+          labelKey="__title"
+          labelName="Media"
+          series={BAR_SERIES}
+          exportName={exportName ? `${exportName}-by-media` : undefined}
+        >
+          {(focus) => (
+            <div className="h-[440px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={barData} margin={{ top: 16, right: 20, bottom: labeled ? 24 : 8, left: 50 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  {focus && <ReferenceLine x={focus.label} stroke={MARKER} strokeWidth={2} />}
+                  <XAxis
+                    dataKey="__title"
+                    interval={0}
+                    angle={-35}
+                    textAnchor="end"
+                    height={labeled ? 110 : 10}
+                    tickFormatter={(v) => truncateLabel(String(v), 26)}
+                    tick={labeled ? { fill: "#334155", fontSize: 11 } : false}
+                  />
+                  <YAxis domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      const d: any = active && payload?.[0]?.payload;
+                      if (!d) return null;
+                      return (
+                        <div className="rounded border border-slate-300 bg-white px-3 py-2 text-xs text-black">
+                          <div className="font-semibold mb-1">{d.__title}</div>
+                          <div>Module: {d.__module}</div>
+                          <div>% of Students Viewing: {pct(d.__viewing)}</div>
+                          <div>Average View %: {pct(d.__completion)}</div>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Legend
+                    verticalAlign="top"
+                    align="left"
+                    wrapperStyle={{ paddingBottom: 8 }}
+                    formatter={(value) => <span style={{ color: "#0f172a" }}>{value}</span>}
+                  />
+                  <Bar dataKey="__viewing" name="% of Students Viewing" fill="#64748b" isAnimationActive={false}>
+                    {barData.map((d, i) => (
+                      <Cell key={i} fill={colorFor(d.__module)} />
+                    ))}
+                  </Bar>
+                  <Line
+                    dataKey="__completion"
+                    name="Average View %"
+                    stroke={MARKER}
+                    strokeWidth={0}
+                    legendType="circle"
+                    dot={{ r: 4, fill: MARKER, stroke: "#fff", strokeWidth: 1 }}
+                    activeDot={{ r: 6 }}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </AccessibleChart>
+
+        <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-700" aria-label="Module colors">
+          {modules.map((m) => (
+            <li key={m} className="inline-flex items-center gap-1.5">
+              <span aria-hidden="true" className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: colorFor(m) }} />
+              {m}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="border-t border-slate-200 pt-6">
+        <div className="text-lg font-semibold text-slate-900 mb-1">Duration vs. Completion</div>
+        <div className="text-sm text-slate-600 mb-3">
+          Each point is a video: its length against the Average View %. A falling trend means longer videos are
+          abandoned sooner.
+        </div>
+
+        {dc.n < 3 ? (
+          <div className="text-sm text-slate-600">
+            At least 3 media with both a Video Duration and an Average View % are needed; {dc.n} found.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+              {dc.buckets.map((b) => (
+                <div key={b.label} className="rounded-xl border border-slate-200 p-4">
+                  <div className="text-xs font-medium text-slate-500 mb-1">{b.label}</div>
+                  <div className="text-2xl font-semibold text-slate-900">{pct(b.completion)}</div>
+                  <div className="text-xs text-slate-500">
+                    {b.n} {b.n === 1 ? "video" : "videos"}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <AccessibleChart
+              title="Video duration vs. average view percentage"
+              data={scatterData}
+              labelKey="__title"
+              labelName="Media"
+              series={SCATTER_SERIES}
+              summary={scatterSummary}
+              exportName={exportName ? `${exportName}-duration-vs-completion` : undefined}
+            >
+              {(focus) => {
+                const focusPoint = focus ? scatterData.find((p) => p.__title === focus.label) : undefined;
+                return (
+                  <div className="h-[380px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart margin={{ top: 16, right: 20, bottom: 30, left: 50 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        {focusPoint && (
+                          <ReferenceDot
+                            x={focusPoint.__duration!}
+                            y={focusPoint.__completion!}
+                            r={8}
+                            fill="none"
+                            stroke={MARKER}
+                            strokeWidth={2}
+                            isFront
+                          />
+                        )}
+                        <XAxis
+                          type="number"
+                          dataKey="__duration"
+                          domain={[0, "auto"]}
+                          tickFormatter={(v) => `${Math.round(v)}`}
+                          label={{ value: "Video Duration (min)", position: "insideBottom", offset: -15, fill: "#334155", fontSize: 12 }}
+                        />
+                        <YAxis
+                          type="number"
+                          domain={[0, 1]}
+                          tickFormatter={(v) => `${Math.round(v * 100)}%`}
+                          label={{ value: "Average View %", angle: -90, position: "insideLeft", offset: -30, fill: "#334155", fontSize: 12 }}
+                        />
+                        <Tooltip
+                          content={({ active, payload }) => {
+                            const d: any = active && payload?.[0]?.payload;
+                            if (!d || d.__title === undefined) return null;
+                            return (
+                              <div className="rounded border border-slate-300 bg-white px-3 py-2 text-xs text-black">
+                                <div className="font-semibold mb-1">{d.__title}</div>
+                                <div>Module: {d.__module}</div>
+                                <div>Duration: {d.__duration.toFixed(1)} min</div>
+                                <div>Average View %: {pct(d.__completion)}</div>
+                              </div>
+                            );
+                          }}
+                        />
+                        <Legend
+                          verticalAlign="top"
+                          align="left"
+                          wrapperStyle={{ paddingBottom: 8 }}
+                          formatter={(value) => <span style={{ color: "#0f172a" }}>{value}</span>}
+                        />
+                        <Scatter name="Video" data={scatterData} dataKey="__completion" fill="#64748b" isAnimationActive={false}>
+                          {scatterData.map((d, i) => (
+                            <Cell key={i} fill={colorFor(d.__module)} />
+                          ))}
+                        </Scatter>
+                        {trend.length > 0 && (
+                          <Line
+                            name="Trend (least squares)"
+                            data={trend}
+                            dataKey="__trend"
+                            type="linear"
+                            stroke={CSU_ORANGE}
+                            strokeWidth={2}
+                            dot={false}
+                            activeDot={false}
+                            isAnimationActive={false}
+                          />
+                        )}
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+                );
+              }}
+            </AccessibleChart>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
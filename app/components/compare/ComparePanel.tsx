@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import EchoComboChart from "../charts/EchoComboChart";
+import GradebookComboChart from "../charts/GradebookComboChart";
+import Table from "../table/Table";
+import {
+  ECHO_MODULE_PERCENT_COLS,
+  GRADEBOOK_MODULE_PERCENT_COLS,
+} from "../../lib/columns";
+import { compareModuleTables } from "../../lib/comparison";
+import { ModuleMapping, orderModuleTables } from "../../lib/moduleMapping";
+import { SavedRun, listRuns } from "../../lib/runHistory";
+import type { AnalyzeResponse, EchoModuleRow, GradeModuleRow } from "../../lib/schema";
+
+const ECHO_COMPARE_METRICS: (keyof EchoModuleRow & string)[] = [
+  "Average View %",
+  "Overall View %",
+  "# of Students Viewing",
+];
+
+const GRADEBOOK_COMPARE_METRICS: (keyof GradeModuleRow & string)[] = [
+  "Avg % Turned In",
+  "Avg Average Excluding Zeros",
+];
+
+export default function ComparePanel({
+  current,
+  currentRunId,
+  courseId,
+  baseline,
+  mapping,
+  onBaselineChange,
+}: {
+  current: AnalyzeResponse;
+  currentRunId: string | null;
+  courseId: string;
+  baseline: SavedRun | null;
+  mapping: ModuleMapping | null; // module order, as on the Tables tab
+  onBaselineChange: (run: SavedRun | null) => void;
+}) {
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRuns()
+      .then((all) => setRuns(all.filter((r) => r.id !== currentRunId)))
+      .catch((e) => setError(e?.message ?? String(e)));
+  }, [currentRunId]);
+
+  // Same course first, then everything else (newest first within each group)
+  const options = useMemo(() => {
+    const same = runs.filter((r) => courseId && r.courseId === courseId);
+    const other = runs.filter((r) => !(courseId && r.courseId === courseId));
+    return { same, other };
+  }, [runs, courseId]);
+
+  const { echoModules: currentEcho, gradeModules: currentGrades } = useMemo(
+    () => orderModuleTables(current.echo?.modules ?? [], current.grades?.module_metrics ?? [], mapping),
+    [current, mapping]
+  );
+  const { echoModules: baseEcho, gradeModules: baseGrades } = useMemo(
+    () =>
+      orderModuleTables(baseline?.result.echo?.modules ?? [], baseline?.result.grades?.module_metrics ?? [], mapping),
+    [baseline, mapping]
+  );
+
+  const echoCompare = useMemo(
+    () => compareModuleTables(currentEcho, baseEcho, ECHO_COMPARE_METRICS, ECHO_MODULE_PERCENT_COLS),
+    [currentEcho, baseEcho]
+  );
+  const gradeCompare = useMemo(
+    () => compareModuleTables(currentGrades, baseGrades, GRADEBOOK_COMPARE_METRICS, GRADEBOOK_MODULE_PERCENT_COLS),
+    [currentGrades, baseGrades]
+  );
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+        <div className="text-lg font-semibold text-slate-900 mb-1">Compare with a baseline</div>
+        <div className="text-sm text-slate-600 mb-3">
+          Pick an earlier saved run (for example, last term). Modules are matched by name.
+        </div>
+
+        {error && <div className="mb-3 text-sm text-red-700">{error}</div>}
+
+        <label htmlFor="baseline-run" className="block text-sm font-medium text-slate-800 mb-1">
+          Baseline run
+        </label>
+        <select
+          id="baseline-run"
+          value={baseline?.id ?? ""}
+          onChange={(e) => onBaselineChange(runs.find((r) => r.id === e.target.value) ?? null)}
+          className="w-full max-w-xl"
+        >
+          <option value="">No baseline</option>
+          {options.same.length > 0 && (
+            <optgroup label={`Course ${courseId}`}>
+              {options.same.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {options.other.length > 0 && (
+            <optgroup label="Other courses">
+              {options.other.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {runs.length === 0 && !error && (
+          <div className="text-xs text-slate-500 mt-1">
+            No other saved runs yet. Run or import another analysis to compare against it.
+          </div>
+        )}
+      </div>
+
+      {baseline && (
+        <>
+          <Table
+            title="Echo Module Comparison"
+            rows={echoCompare.rows}
+            columns={echoCompare.columns}
+            percentCols={echoCompare.percentCols}
+          />
+
+          <Table
+            title="Gradebook Module Comparison"
+            rows={gradeCompare.rows}
+            columns={gradeCompare.columns}
+            percentCols={gradeCompare.percentCols}
+          />
+
+          <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+            <div className="text-lg font-semibold text-slate-900 mb-2">Echo Chart vs Baseline</div>
+            <div className="text-xs text-slate-500 mb-2">Dashed lines show the baseline run.</div>
+            <EchoComboChart moduleRows={currentEcho} baselineRows={baseEcho} />
+          </div>
+
+          <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+            <div className="text-lg font-semibold text-slate-900 mb-2">Gradebook Chart vs Baseline</div>
+            <div className="text-xs text-slate-500 mb-2">Dashed lines show the baseline run.</div>
+            <GradebookComboChart rows={currentGrades} baselineRows={baseGrades} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { formatDuration } from "../../lib/format";
+import type { KpiFormat } from "../../lib/kpis";
+
+// Signed change vs the baseline run, shown under a KPI value
+export default function KpiDelta({
+  value,
+  format,
+  higherIsBetter = true,
+}: {
+  value: number | null;
+  format: Exclude<KpiFormat, "text">;
+  higherIsBetter?: boolean;
+}) {
+  if (value === null) {
+    return <div className="mt-1 text-xs text-slate-500">No baseline value</div>;
+  }
+
+  const magnitude =
+    format === "percent"
+      ? `${Math.abs(value * 100).toFixed(1)} pts`
+      : format === "minutes"
+        ? formatDuration(Math.abs(value) * 60)
+        : Math.abs(value).toLocaleString();
+  const up = value > 0;
+  const flat = format === "percent" ? Math.abs(value) < 0.0005 : value === 0;
+  const better = up === higherIsBetter;
+
+  return (
+    <div className={"mt-1 text-xs " + (flat ? "text-slate-500" : better ? "text-green-700" : "text-red-700")}>
+      {flat ? "No change" : `${up ? "▲ +" : "▼ −"}${magnitude}`} vs baseline
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  SavedRun,
+  deleteRun,
+  downloadTextFile,
+  listRuns,
+  parseRunsBundle,
+  renameRun,
+  saveRun,
+  serializeRunsBundle,
+} from "../../lib/runHistory";
+
+export default function HistoryPanel({
+  activeRunId,
+  onOpen,
+  onDeleted,
+  onClose,
+}: {
+  activeRunId: string | null;
+  onOpen: (run: SavedRun) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRuns(await listRuns());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  async function commitRename(id: string) {
+    try {
+      await renameRun(id, editName);
+      setEditingId(null);
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    }
+  }
+
+  async function handleDelete(run: SavedRun) {
+    if (!window.confirm(`Delete “${run.name}”? This cannot be undone.`)) return;
+    try {
+      await deleteRun(run.id);
+      onDeleted(run.id);
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    }
+  }
+
+  function handleExport(list: SavedRun[], fileName: string) {
+    downloadTextFile(fileName, serializeRunsBundle(list));
+  }
+
+  async function handleImport(file: File | null) {
+    if (!file) return;
+    setNotice(null);
+    try {
+      const imported = parseRunsBundle(await file.text());
+      // Runs already in history are kept as they are, with their chat, rather than overwritten
+      const existing = new Set((await listRuns()).map((r) => r.id));
+      const added = imported.filter((r) => !existing.has(r.id));
+      for (const run of added) await saveRun(run);
+      const skipped = imported.length - added.length;
+      setNotice(
+        `Imported ${added.length} run${added.length === 1 ? "" : "s"}.` +
+          (skipped > 0 ? ` Skipped ${skipped} already in history; delete ${skipped === 1 ? "it" : "them"} first to replace.` : "")
+      );
+      setError(null);
+      await refresh();
+    } catch (e: any) {
+      setError(e?.message ?? String(e));
+    } finally {
+      if (importRef.current) importRef.current.value = "";
+    }
+  }
+
+  return (
+    <section aria-label="History" className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">History</h2>
+          <div className="text-sm text-slate-600">Past analyses saved in this browser.</div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => importRef.current?.click()}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Import JSON
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            aria-label="Import runs from JSON"
+            onChange={(e) => handleImport(e.target.files?.[0] ?? null)}
+          />
+          <button
+            onClick={() => handleExport(runs, "analytics-runs.json")}
+            disabled={runs.length === 0}
+            className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Export all
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">{error}</div>
+      )}
+      {notice && (
+        <div className="mb-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-800" role="status">
+          {notice}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-sm text-slate-600">Loading saved runs...</div>
+      ) : runs.length === 0 ? (
+        <div className="text-sm text-slate-600">No saved runs yet. Each analysis you run is saved here automatically.</div>
+      ) : (
+        <ul className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+          {runs.map((run) => (
+            <li key={run.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                {editingId === run.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      commitRename(run.id);
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      aria-label="Run name"
+                      autoFocus
+                    />
+                    <button type="submit" className="text-sm text-slate-900 underline">
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setEditingId(null)} className="text-sm text-slate-600 underline">
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div className="text-sm font-medium text-slate-900 truncate">
+                    {run.name}
+                    {run.id === activeRunId && <span className="ml-2 text-xs text-slate-500">(open)</span>}
+                  </div>
+                )}
+                <div className="text-xs text-slate-500">
+                  Course {run.courseId || "—"} · {new Date(run.createdAt).toLocaleString()} ·{" "}
+                  {run.engine === "local" ? "Computed in browser" : "Analytics server"}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => onOpen(run)}
+                  className="rounded-lg bg-slate-900 text-white px-3 py-1.5 text-xs hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(run.id);
+                    setEditName(run.name);
+                  }}
+                  className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleExport([run], `analytics-run-${run.courseId || "course"}.json`)}
+                  className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => handleDelete(run)}
+                  className="rounded-lg border border-red-200 bg-white px-3 py-1.5 text-xs text-red-700 hover:bg-red-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+import KpiDelta from "../compare/KpiDelta";
+import Tooltip from "../Tooltip";
+import { EvaluatedKpi, KPI_TONE_LABELS, KpiTone, formatKpi } from "../../lib/kpis";
+
+const TONE_DOT: Record<KpiTone, string> = {
+  good: "bg-green-600",
+  warn: "bg-amber-500",
+  bad: "bg-red-600",
+  neutral: "",
+};
+
+export default function KpiCard({ kpi }: { kpi: EvaluatedKpi }) {
+  const { def, value, tone, baseline, delta } = kpi;
+  const toneLabel = KPI_TONE_LABELS[tone];
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5">
+      <div className="text-xs font-medium text-slate-500 tracking-wide mb-1 flex items-center gap-1">
+        {def.label}
+        <Tooltip text={def.help}>
+          <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">ⓘ</span>
+        </Tooltip>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="text-2xl font-semibold text-slate-900">{formatKpi(def, value)}</div>
+        {toneLabel && (
+          <span className="inline-flex items-center gap-1 text-xs text-slate-600">
+            <span aria-hidden="true" className={`inline-block h-2 w-2 rounded-full ${TONE_DOT[tone]}`} />
+            {toneLabel}
+          </span>
+        )}
+      </div>
+      {baseline !== undefined &&
+        (def.format === "text" ? (
+          <div className="mt-1 text-xs text-slate-500">Baseline: {formatKpi(def, baseline)}</div>
+        ) : (
+          <KpiDelta
+            value={delta ?? null}
+            format={def.format}
+            higherIsBetter={def.thresholds?.higherIsBetter ?? true}
+          />
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import React from "react";
+import { DEFAULT_KPI_IDS, KPI_REGISTRY } from "../../lib/kpis";
+
+// Choose which KPI cards appear (screen, PDF and Excel) and in what order
+export default function KpiPicker({ selected, onChange }: { selected: string[]; onChange: (ids: string[]) => void }) {
+  const unselected = KPI_REGISTRY.filter((k) => !selected.includes(k.id));
+
+  function move(idx: number, delta: -1 | 1) {
+    const next = [...selected];
+    const target = idx + delta;
+    if (target < 0 || target >= next.length) return;
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  }
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5 mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="text-sm font-semibold text-slate-900">KPI cards</div>
+        <button type="button" onClick={() => onChange(DEFAULT_KPI_IDS)} className="text-sm text-slate-700 underline">
+          Reset to default
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <div className="text-xs font-medium text-slate-500 mb-2">Shown (in order)</div>
+          <ol className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+            {selected.map((id, idx) => {
+              const def = KPI_REGISTRY.find((k) => k.id === id);
+              if (!def) return null;
+              return (
+                <li key={id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <span className="text-sm text-slate-800">{def.label}</span>
+                  <span className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => move(idx, -1)}
+                      disabled={idx === 0}
+                      aria-label={`Move ${def.label} up`}
+                      className="px-2 text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(idx, 1)}
+                      disabled={idx === selected.length - 1}
+                      aria-label={`Move ${def.label} down`}
+                      className="px-2 text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(selected.filter((s) => s !== id))}
+                      disabled={selected.length === 1}
+                      aria-label={`Remove ${def.label}`}
+                      className="px-2 text-red-700 hover:text-red-900 disabled:opacity-30"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+
+        <div>
+          <div className="text-xs font-medium text-slate-500 mb-2">Available</div>
+          {unselected.length === 0 ? (
+            <div className="text-sm text-slate-600">All KPIs are shown.</div>
+          ) : (
+            <ul className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+              {unselected.map((def) => (
+                <li key={def.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <span className="min-w-0">
+                    <span className="block text-sm text-slate-800">{def.label}</span>
+                    <span className="block text-xs text-slate-500">{def.help}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => onChange([...selected, def.id])}
+                    className="rounded-lg border border-slate-300 bg-white px-3 py-1 text-xs text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                  >
+                    Add
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
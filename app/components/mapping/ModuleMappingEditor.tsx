@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  MappingItemKind,
+  ModuleMapping,
+  UNASSIGNED_MODULE,
+  applyRegexRule,
+  assignModule,
+} from "../../lib/moduleMapping";
+
+const KIND_LABEL: Record<MappingItemKind, string> = {
+  assignments: "Canvas assignments",
+  media: "Echo360 media",
+};
+
+const DRAG_TYPE = "application/x-cle-mapping-item";
+
+export default function ModuleMappingEditor({
+  mapping,
+  onChange,
+  onReset,
+}: {
+  mapping: ModuleMapping;
+  onChange: (mapping: ModuleMapping) => void;
+  onReset: () => void;
+}) {
+  const [newModule, setNewModule] = useState("");
+  const [onlyUnassigned, setOnlyUnassigned] = useState(false);
+  const [rulePattern, setRulePattern] = useState("");
+  const [ruleKinds, setRuleKinds] = useState<"both" | MappingItemKind>("both");
+  const [ruleModule, setRuleModule] = useState("");
+  const [ruleMessage, setRuleMessage] = useState<string | null>(null);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const moduleOptions = useMemo(() => [...mapping.modules, UNASSIGNED_MODULE], [mapping.modules]);
+
+  const counts = useMemo(() => {
+    const out = new Map<string, number>();
+    for (const kind of ["assignments", "media"] as const) {
+      for (const m of Object.values(mapping[kind])) out.set(m, (out.get(m) ?? 0) + 1);
+    }
+    return out;
+  }, [mapping]);
+
+  const unassigned = counts.get(UNASSIGNED_MODULE) ?? 0;
+
+  function addModule() {
+    const name = newModule.trim();
+    if (!name || name === UNASSIGNED_MODULE || mapping.modules.includes(name)) return;
+    onChange({ ...mapping, modules: [...mapping.modules, name] });
+    setNewModule("");
+  }
+
+  function moveModule(idx: number, delta: -1 | 1) {
+    const next = [...mapping.modules];
+    const target = idx + delta;
+    if (target < 0 || target >= next.length) return;
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange({ ...mapping, modules: next });
+  }
+
+  function applyRule(e: React.FormEvent) {
+    e.preventDefault();
+    setRuleMessage(null);
+    setRuleError(null);
+    const target = ruleModule.trim();
+    if (!rulePattern.trim() || !target) {
+      setRuleError("Enter a pattern and a module.");
+      return;
+    }
+    try {
+      const kinds: MappingItemKind[] = ruleKinds === "both" ? ["assignments", "media"] : [ruleKinds];
+      const { mapping: next, matched } = applyRegexRule(mapping, kinds, rulePattern, target);
+      onChange(next);
+      setRuleMessage(`${matched} item${matched === 1 ? "" : "s"} moved to “${target}”.`);
+    } catch (err: any) {
+      setRuleError(`Invalid pattern: ${err?.message ?? String(err)}`);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent, target: string) {
+    e.preventDefault();
+    setDropTarget(null);
+    try {
+      const { kind, title } = JSON.parse(e.dataTransfer.getData(DRAG_TYPE));
+      if ((kind === "assignments" || kind === "media") && typeof title === "string") {
+        onChange(assignModule(mapping, kind, [title], target));
+      }
+    } catch {
+      // Not one of our rows
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-slate-600">
+        Module metrics and charts group items by these modules. Drag an item onto a module, pick one from its
+        list, or move everything matching a pattern at once. Changes are saved for this course.
+      </div>
+
+      {/* Modules (drop targets) */}
+      <div>
+        <div className="text-sm font-medium text-slate-800 mb-2">Modules</div>
+        <ul className="flex flex-wrap gap-2">
+          {moduleOptions.map((m, idx) => {
+            const isUnassigned = m === UNASSIGNED_MODULE;
+            return (
+              <li
+                key={m}
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                  e.preventDefault();
+                  setDropTarget(m);
+                }}
+                onDragLeave={() => setDropTarget((t) => (t === m ? null : t))}
+                onDrop={(e) => handleDrop(e, m)}
+                className={`inline-flex items-center gap-1 rounded-xl border px-3 py-1.5 text-xs ${
+                  dropTarget === m
+                    ? "border-csuGreen bg-emerald-50"
+                    : isUnassigned
+                      ? "border-amber-300 bg-amber-50 text-amber-900"
+                      : "border-slate-300 bg-white text-slate-900"
+                }`}
+              >
+                <span>{m}</span>
+                <span className="text-slate-500">({counts.get(m) ?? 0})</span>
+                {!isUnassigned && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => moveModule(idx, -1)}
+                      disabled={idx === 0}
+                      aria-label={`Move ${m} earlier`}
+                      className="px-1 text-slate-500 hover:text-slate-900 disabled:opacity-30"
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveModule(idx, 1)}
+                      disabled={idx === mapping.modules.length - 1}
+                      aria-label={`Move ${m} later`}
+                      className="px-1 text-slate-500 hover:text-slate-900 disabled:opacity-30"
+                    >
+                      →
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addModule();
+          }}
+          className="mt-2 flex flex-wrap items-center gap-2"
+        >
+          <input
+            type="text"
+            value={newModule}
+            onChange={(e) => setNewModule(e.target.value)}
+            placeholder="New module name"
+            aria-label="New module name"
+            className="text-sm"
+          />
+          <button
+            type="submit"
+            className="rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Add module
+          </button>
+        </form>
+      </div>
+
+      {/* Regex rule */}
+      <form onSubmit={applyRule} className="rounded-xl border border-slate-200 p-3">
+        <div className="text-sm font-medium text-slate-800 mb-2">Set by pattern</div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-700">Move</span>
+          <select value={ruleKinds} onChange={(e) => setRuleKinds(e.target.value as typeof ruleKinds)}>
+            <option value="both">all items</option>
+            <option value="assignments">assignments</option>
+            <option value="media">media</option>
+          </select>
+          <span className="text-slate-700">matching</span>
+          <input
+            type="text"
+            value={rulePattern}
+            onChange={(e) => setRulePattern(e.target.value)}
+            placeholder="e.g. ^Week 3|Lab 3"
+            aria-label="Regular expression"
+            className="font-mono text-sm"
+          />
+          <span className="text-slate-700">to</span>
+          <input
+            type="text"
+            list="mapping-module-options"
+            value={ruleModule}
+            onChange={(e) => setRuleModule(e.target.value)}
+            placeholder="Module"
+            aria-label="Target module"
+            className="text-sm"
+          />
+          <datalist id="mapping-module-options">
+            {moduleOptions.map((m) => (
+              <option key={m} value={m} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            className="rounded-xl bg-slate-900 text-white px-3 py-1.5 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Apply
+          </button>
+        </div>
+        {ruleMessage && (
+          <div className="mt-2 text-xs text-slate-600" role="status">
+            {ruleMessage}
+          </div>
+        )}
+        {ruleError && <div className="mt-2 text-xs text-red-700">{ruleError}</div>}
+      </form>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+          <input type="checkbox" checked={onlyUnassigned} onChange={(e) => setOnlyUnassigned(e.target.checked)} />
+          Show only unassigned ({unassigned})
+        </label>
+        <button type="button" onClick={onReset} className="text-sm text-slate-700 underline">
+          Reset to automatic mapping
+        </button>
+      </div>
+
+      {/* Items */}
+      <div className="grid md:grid-cols-2 gap-4">
+        {(["assignments", "media"] as const).map((kind) => {
+          const titles = Object.keys(mapping[kind]).filter(
+            (t) => !onlyUnassigned || mapping[kind][t] === UNASSIGNED_MODULE
+          );
+          return (
+            <div key={kind} className="min-w-0">
+              <div className="text-sm font-medium text-slate-800 mb-2">
+                {KIND_LABEL[kind]} ({Object.keys(mapping[kind]).length})
+              </div>
+              <ul className="max-h-80 overflow-y-auto divide-y divide-slate-200 rounded-xl border border-slate-200">
+                {titles.length === 0 && <li className="px-3 py-2 text-xs text-slate-500">Nothing to show.</li>}
+                {titles.map((t) => (
+                  <li
+                    key={t}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ kind, title: t }));
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    className="flex items-center justify-between gap-2 px-3 py-1.5 cursor-grab"
+                  >
+                    <span className="text-xs text-slate-800 truncate" title={t}>
+                      {t}
+                    </span>
+                    <select
+                      value={mapping[kind][t]}
+                      onChange={(e) => onChange(assignModule(mapping, kind, [t], e.target.value))}
+                      aria-label={`Module for ${t}`}
+                      className={`text-xs max-w-[45%] ${
+                        mapping[kind][t] === UNASSIGNED_MODULE ? "text-amber-800" : "text-slate-900"
+                      }`}
+                    >
+                      {moduleOptions.map((m) => (
+                        <option key={m} value={m}>
+                          {m}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
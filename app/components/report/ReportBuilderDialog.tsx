@@ -0,0 +1,342 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_REPORT_SETTINGS,
+  ROW_LIMIT_OPTIONS,
+  ReportPreset,
+  ReportSettings,
+  getReportSection,
+  loadReportPresets,
+  loadReportSettings,
+  normalizeReportSettings,
+  readLogoFile,
+  saveReportPresets,
+  saveReportSettings,
+} from "../../lib/reportBuilder";
+
+const INPUT =
+  "w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen";
+const SECONDARY_BUTTON =
+  "rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60";
+
+// Choose the PDF's sections, order, row limits, branding and notes; starts from the last export
+export default function ReportBuilderDialog({
+  open,
+  exporting,
+  onClose,
+  onExport,
+}: {
+  open: boolean;
+  exporting: boolean;
+  onClose: () => void;
+  onExport: (settings: ReportSettings) => void;
+}) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [settings, setSettings] = useState<ReportSettings>(DEFAULT_REPORT_SETTINGS);
+  const [presets, setPresets] = useState<ReportPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      setSettings(loadReportSettings());
+      setPresets(loadReportPresets());
+      setMessage(null);
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [open]);
+
+  function update(patch: Partial<ReportSettings>) {
+    setSettings((s) => ({ ...s, ...patch }));
+  }
+
+  function updateSection(idx: number, patch: Partial<ReportSettings["sections"][number]>) {
+    setSettings((s) => ({ ...s, sections: s.sections.map((c, i) => (i === idx ? { ...c, ...patch } : c)) }));
+  }
+
+  function moveSection(idx: number, delta: -1 | 1) {
+    setSettings((s) => {
+      const next = [...s.sections];
+      const target = idx + delta;
+      if (target < 0 || target >= next.length) return s;
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return { ...s, sections: next };
+    });
+  }
+
+  async function chooseLogo(file: File | undefined) {
+    if (!file) return;
+    try {
+      update({ logo: await readLogoFile(file) });
+      setMessage(null);
+    } catch (e: any) {
+      setMessage(e?.message ?? String(e));
+    }
+  }
+
+  function applyPreset(name: string) {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    setSettings(normalizeReportSettings(preset));
+    setPresetName(preset.name);
+    setMessage(`Loaded preset "${preset.name}".`);
+  }
+
+  function savePreset() {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = [...presets.filter((p) => p.name !== name), { ...settings, name }].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    if (saveReportPresets(next)) {
+      setPresets(next);
+      setMessage(`Saved preset "${name}".`);
+    } else {
+      setMessage("Could not save the preset: browser storage is full or disabled. Try a smaller logo.");
+    }
+  }
+
+  function deletePreset() {
+    const name = presetName.trim();
+    const next = presets.filter((p) => p.name !== name);
+    if (next.length === presets.length) return;
+    saveReportPresets(next);
+    setPresets(next);
+    setMessage(`Deleted preset "${name}".`);
+  }
+
+  function exportReport() {
+    saveReportSettings(settings);
+    onExport(settings);
+  }
+
+  const enabledCount = settings.sections.filter((s) => s.enabled).length;
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      aria-labelledby="report-builder-title"
+      className="w-full max-w-4xl rounded-2xl border border-slate-200 bg-white p-0 shadow-xl backdrop:bg-slate-900/40"
+    >
+      <div className="p-6">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <h2 id="report-builder-title" className="text-lg font-semibold text-slate-900">
+            PDF report
+          </h2>
+          <button type="button" onClick={onClose} aria-label="Close" className="px-2 text-slate-600 hover:text-slate-900">
+            ✕
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <label className="block">
+              <span className="block text-xs font-medium text-slate-500 mb-1">Report title</span>
+              <input className={INPUT} value={settings.title} onChange={(e) => update({ title: e.target.value })} />
+            </label>
+
+            <fieldset>
+              <legend className="text-xs font-medium text-slate-500 mb-1">Orientation</legend>
+              <div className="flex gap-4 text-sm text-slate-800">
+                {(["portrait", "landscape"] as const).map((o) => (
+                  <label key={o} className="inline-flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="report-orientation"
+                      checked={settings.orientation === o}
+                      onChange={() => update({ orientation: o })}
+                    />
+                    {o === "portrait" ? "Portrait" : "Landscape (wide tables)"}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div>
+              <div className="text-xs font-medium text-slate-500 mb-1">Institution logo</div>
+              <div className="flex flex-wrap items-center gap-3">
+                {settings.logo && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={settings.logo.dataUrl} alt="Logo preview" className="h-10 w-auto rounded border border-slate-200" />
+                )}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/svg+xml"
+                  onChange={(e) => {
+                    chooseLogo(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                  className="text-sm text-slate-700"
+                />
+                {settings.logo && (
+                  <button type="button" onClick={() => update({ logo: null })} className="text-sm text-red-700 underline">
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs font-medium text-slate-500 mb-1">Presets (shared across courses)</div>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value=""
+                  onChange={(e) => applyPreset(e.target.value)}
+                  disabled={presets.length === 0}
+                  aria-label="Load preset"
+                  className="rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
+                >
+                  <option value="">{presets.length === 0 ? "No saved presets" : "Load preset..."}</option>
+                  {presets.map((p) => (
+                    <option key={p.name} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Preset name"
+                  aria-label="Preset name"
+                  className="min-w-0 flex-1 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
+                />
+                <button type="button" onClick={savePreset} disabled={!presetName.trim()} className={SECONDARY_BUTTON}>
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={deletePreset}
+                  disabled={!presets.some((p) => p.name === presetName.trim())}
+                  className={SECONDARY_BUTTON}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-slate-500">Sections (in order)</span>
+              <button
+                type="button"
+                onClick={() => update({ sections: DEFAULT_REPORT_SETTINGS.sections })}
+                className="text-xs text-slate-700 underline"
+              >
+                Reset sections
+              </button>
+            </div>
+            <ol className="divide-y divide-slate-200 rounded-xl border border-slate-200">
+              {settings.sections.map((choice, idx) => {
+                const def = getReportSection(choice.id);
+                if (!def) return null;
+                return (
+                  <li key={choice.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <label className="inline-flex min-w-0 items-center gap-2 text-sm text-slate-800">
+                      <input
+                        type="checkbox"
+                        checked={choice.enabled}
+                        onChange={(e) => updateSection(idx, { enabled: e.target.checked })}
+                      />
+                      {def.label}
+                    </label>
+                    <span className="flex shrink-0 items-center gap-1">
+                      {def.hasRows && (
+                        <select
+                          value={choice.rowLimit ?? ""}
+                          onChange={(e) => updateSection(idx, { rowLimit: e.target.value ? Number(e.target.value) : null })}
+                          disabled={!choice.enabled}
+                          aria-label={`Rows in ${def.label}`}
+                          className="rounded-lg border border-slate-300 bg-white px-2 py-0.5 text-xs text-slate-900 disabled:opacity-50"
+                        >
+                          <option value="">All rows</option>
+                          {ROW_LIMIT_OPTIONS.map((n) => (
+                            <option key={n} value={n}>
+                              First {n}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => moveSection(idx, -1)}
+                        disabled={idx === 0}
+                        aria-label={`Move ${def.label} up`}
+                        className="px-2 text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveSection(idx, 1)}
+                        disabled={idx === settings.sections.length - 1}
+                        aria-label={`Move ${def.label} down`}
+                        className="px-2 text-slate-600 hover:text-slate-900 disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+            <p className="mt-1 text-xs text-slate-500">Sections without data or text are left out of the PDF.</p>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 mt-6">
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 mb-1">Executive summary</span>
+            <textarea
+              rows={5}
+              className={INPUT}
+              value={settings.executiveSummary}
+              onChange={(e) => update({ executiveSummary: e.target.value })}
+              placeholder="Key findings for readers who only read the first page"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 mb-1">Instructor note</span>
+            <textarea
+              rows={5}
+              className={INPUT}
+              value={settings.instructorNote}
+              onChange={(e) => update({ instructorNote: e.target.value })}
+              placeholder="Context, caveats or planned changes"
+            />
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+          The PDF uses the built-in Helvetica font, so characters outside Western European text (for example Greek,
+          Cyrillic, Chinese or emoji) print as “?”. It is not a tagged PDF: headings are bookmarks in the document
+          outline, which screen readers and the table of contents use for navigation.
+        </p>
+
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm text-slate-600" role="status">
+            {message}
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className={SECONDARY_BUTTON}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={exportReport}
+              disabled={exporting || enabledCount === 0}
+              className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {exporting ? "Generating PDF..." : "Export PDF"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </dialog>
+  );
+}
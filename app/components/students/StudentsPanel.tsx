@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Table from "../table/Table";
+import { COLUMN_HELP_TEXT, STUDENT_COLS, STUDENT_PERCENT_COLS } from "../../lib/columns";
+import {
+  AT_RISK_COL,
+  AtRiskRule,
+  DEFAULT_AT_RISK_RULE,
+  describeAtRiskRule,
+  flagAtRisk,
+  loadAtRiskRule,
+  saveAtRiskRule,
+} from "../../lib/atRisk";
+import { toCsv } from "../../lib/csv";
+import { exportWorkbook } from "../../lib/excelExport";
+import { formatCell } from "../../lib/format";
+import { downloadTextFile } from "../../lib/runHistory";
+import type { StudentRow } from "../../lib/schema";
+
+const CONDITIONS: { key: "watched" | "turnedIn" | "score"; label: string }[] = [
+  { key: "watched", label: "% of media viewed below" },
+  { key: "turnedIn", label: "% turned in below" },
+  { key: "score", label: "Current score below" },
+];
+
+const COLUMNS = [...STUDENT_COLS, AT_RISK_COL];
+
+export default function StudentsPanel({ students, courseId }: { students: StudentRow[]; courseId: string }) {
+  const [rule, setRule] = useState<AtRiskRule>(DEFAULT_AT_RISK_RULE);
+  const [onlyAtRisk, setOnlyAtRisk] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    setRule(loadAtRiskRule());
+  }, []);
+
+  function updateRule(next: AtRiskRule) {
+    setRule(next);
+    saveAtRiskRule(next);
+  }
+
+  const flagged = useMemo(() => flagAtRisk(students, rule), [students, rule]);
+  const atRisk = useMemo(() => flagged.filter((r) => r[AT_RISK_COL] === "Yes"), [flagged]);
+
+  const fileBase = courseId ? `at-risk-students-${courseId}` : "at-risk-students";
+
+  function exportCsv() {
+    const csv = toCsv(
+      COLUMNS,
+      atRisk.map((r) => COLUMNS.map((c) => formatCell(c, (r as Record<string, any>)[c], STUDENT_PERCENT_COLS))),
+      { escapeFormulas: true }
+    );
+    downloadTextFile(`${fileBase}.csv`, csv, "text/csv");
+  }
+
+  async function exportExcel() {
+    setExporting(true);
+    try {
+      await exportWorkbook({
+        fileName: `${fileBase}.xlsx`,
+        courseId,
+        kpis: [
+          { label: "At-risk rule", value: describeAtRiskRule(rule) },
+          { label: "At-risk students", value: atRisk.length },
+          { label: "Students", value: students.length },
+        ],
+        sheets: [{ name: "At-Risk Students", rows: atRisk, columns: COLUMNS, percentCols: STUDENT_PERCENT_COLS }],
+      });
+    } catch (err) {
+      console.error("Excel export error:", err);
+      alert("Failed to export Excel workbook. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  if (students.length === 0) {
+    return (
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6 text-sm text-slate-600">
+        This run has no per-student rows. Re-run the analysis to include them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
+        <div className="text-lg font-semibold text-slate-900 mb-1">At-risk rule</div>
+        <div className="text-sm text-slate-600 mb-4">{COLUMN_HELP_TEXT[AT_RISK_COL]} Students with missing data are not flagged by that condition.</div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          {CONDITIONS.map(({ key, label }) => (
+            <div key={key} className="rounded-xl border border-slate-200 p-3">
+              <label className="flex items-center gap-2 text-sm text-slate-800">
+                <input
+                  type="checkbox"
+                  checked={rule[key].enabled}
+                  onChange={(e) => updateRule({ ...rule, [key]: { ...rule[key], enabled: e.target.checked } })}
+                />
+                {label}
+              </label>
+              <div className="mt-2 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rule[key].below}
+                  disabled={!rule[key].enabled}
+                  onChange={(e) => {
+                    const n = Number(e.target.value);
+                    if (Number.isFinite(n)) updateRule({ ...rule, [key]: { ...rule[key], below: n } });
+                  }}
+                  aria-label={`${label} (percent)`}
+                  className="w-24 rounded-lg border border-slate-300 px-2 py-1 text-sm disabled:opacity-50"
+                />
+                <span className="text-sm text-slate-600">%</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+            Flag when
+            <select
+              value={rule.match}
+              onChange={(e) => updateRule({ ...rule, match: e.target.value === "any" ? "any" : "all" })}
+              className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm"
+            >
+              <option value="all">all conditions match</option>
+              <option value="any">any condition matches</option>
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => updateRule(DEFAULT_AT_RISK_RULE)}
+            className="text-sm text-slate-700 underline"
+          >
+            Reset to default
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-xl bg-slate-50 border border-slate-200 px-4 py-3">
+          <div className="text-sm text-slate-800" role="status">
+            <span className="font-semibold">{atRisk.length}</span> of {students.length} students at risk (
+            {describeAtRiskRule(rule)})
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={exportCsv}
+              disabled={atRisk.length === 0}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={exportExcel}
+              disabled={atRisk.length === 0 || exporting}
+              className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {exporting ? "Exporting..." : "Export Excel"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+        <input type="checkbox" checked={onlyAtRisk} onChange={(e) => setOnlyAtRisk(e.target.checked)} />
+        Show only at-risk students
+      </label>
+
+      <Table
+        id="students"
+        title={onlyAtRisk ? "At-Risk Students" : "Students"}
+        rows={onlyAtRisk ? atRisk : flagged}
+        columns={COLUMNS}
+        percentCols={STUDENT_PERCENT_COLS}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { COLUMN_HELP_TEXT, resolveColumns } from "../../lib/columns";
+import { formatCell } from "../../lib/format";
+import type { AnyRow } from "../../lib/schema";
+import {
+  EMPTY_TABLE_VIEW,
+  NumericRange,
+  TableView,
+  applyTableView,
+  isDurationCol,
+  isViewFiltered,
+  nextSort,
+  numericColumns,
+  virtualWindow,
+} from "../../lib/tableView";
+import { encodeTableView, readTableView, tableParam, updateUrl } from "../../lib/urlState";
+import Tooltip from "../Tooltip";
+
+// ---------- Option B: measure + set widths via colgroup ----------
+function isTextHeavyCol(col: string) {
+  return /title|name|media|assignment|page|url|link|description/i.test(col);
+}
+
+function isNumericishCol(col: string) {
+  return /%|count|views|time|duration|avg|total|n_/i.test(col);
+}
+
+// One shared canvas for text measurement
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+function getMeasureContext() {
+  if (typeof document === "undefined") return null; // SSR safety
+  if (!measureCtx) measureCtx = document.createElement("canvas").getContext("2d");
+  return measureCtx;
+}
+
+// Measured widths per rows array, so hiding/showing columns or re-sorting doesn't re-measure
+const widthCache = new WeakMap<AnyRow[], Map<string, number>>();
+
+function buildColWidths(
+  rows: AnyRow[],
+  cols: string[],
+  percentCols?: string[],
+  opts?: {
+    sample?: number;
+    font?: string;
+    paddingPx?: number;
+    minPx?: number;
+    maxTextPx?: number;
+    maxDefaultPx?: number;
+  }
+) {
+  const sample = opts?.sample ?? 80;
+  const font = opts?.font ?? "12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial";
+  const paddingPx = opts?.paddingPx ?? 22; // cell padding + some breathing room
+  const minPx = opts?.minPx ?? 70;
+  const maxTextPx = opts?.maxTextPx ?? 520; // cap long text columns
+  const maxDefaultPx = opts?.maxDefaultPx ?? 320;
+
+  const ctx = getMeasureContext();
+  if (!ctx) return {};
+
+  ctx.font = font;
+
+  let cache = widthCache.get(rows);
+  if (!cache) {
+    cache = new Map();
+    widthCache.set(rows, cache);
+  }
+
+  // Sample evenly across the whole table rather than only the first rows
+  const stride = Math.max(1, Math.floor(rows.length / sample));
+  const take: AnyRow[] = [];
+  for (let i = 0; i < rows.length && take.length < sample; i += stride) take.push(rows[i]);
+
+  const widths: Record<string, number> = {};
+
+  for (const c of cols) {
+    const cacheKey = `${c}|${percentCols?.includes(c) ? "%" : ""}`;
+    const cached = cache.get(cacheKey);
+    if (cached !== undefined) {
+      widths[c] = cached;
+      continue;
+    }
+
+    let max = ctx.measureText(String(c)).width;
+
+    for (const r of take) {
+      const txt = String(formatCell(c, r?.[c], percentCols) ?? "");
+      const w = ctx.measureText(txt).width;
+      if (w > max) max = w;
+    }
+
+    const padded = Math.ceil(max + paddingPx);
+
+    const cap = isTextHeavyCol(c) ? maxTextPx : maxDefaultPx;
+    const clamped = Math.max(minPx, Math.min(padded, cap));
+
+    // Numeric-ish columns can be tighter
+    widths[c] = isNumericishCol(c) && !isTextHeavyCol(c) ? Math.min(clamped, 180) : clamped;
+    cache.set(cacheKey, widths[c]);
+  }
+
+  return widths;
+}
+
+// ---------- Column visibility persistence ----------
+const HIDDEN_COLS_KEY = (tableId: string) => `cle-dashboard:table:${tableId}:hidden`;
+
+function loadHiddenCols(tableId: string): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(HIDDEN_COLS_KEY(tableId));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((c) => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHiddenCols(tableId: string, hidden: string[]) {
+  try {
+    window.localStorage.setItem(HIDDEN_COLS_KEY(tableId), JSON.stringify(hidden));
+  } catch {
+    // Storage full or disabled: column choices just won't persist
+  }
+}
+
+const PAGE_SIZES = [25, 50, 100, 200] as const;
+type PageSize = (typeof PAGE_SIZES)[number] | "all";
+
+// Above this many rows, only the rows in view are rendered
+const VIRTUALIZE_AFTER = 150;
+const DEFAULT_ROW_PX = 37; // py-2 + leading-5 + border; replaced by the measured height
+const SCROLL_BOX_PX = 520; // matches max-h-[520px]
+
+function parseBound(v: string): number | undefined {
+  if (v.trim() === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// ---------- Table component ----------
+export default function Table({
+  id,
+  title,
+  rows,
+  columns,
+  percentCols,
+  pageSize: initialPageSize = "all",
+}: {
+  id?: string; // storage key for column choices; defaults to the title
+  title: string;
+  rows: AnyRow[];
+  columns?: string[];
+  percentCols?: string[];
+  pageSize?: PageSize;
+}) {
+  const tableId = id ?? title;
+  const allCols = useMemo(() => resolveColumns(rows, columns), [rows, columns]);
+
+  const [view, setView] = useState<TableView>(EMPTY_TABLE_VIEW);
+  const [pageSize, setPageSize] = useState<PageSize>(initialPageSize);
+  const [page, setPage] = useState(0);
+
+  // Restore this table's view: a deep link wins, otherwise saved column choices.
+  // Re-read on back/forward so the table follows browser history.
+  const [viewRestored, setViewRestored] = useState(false);
+  useEffect(() => {
+    const restore = () => {
+      setView(readTableView(tableId) ?? { ...EMPTY_TABLE_VIEW, hidden: loadHiddenCols(tableId) });
+      setViewRestored(true);
+    };
+    restore();
+    window.addEventListener("popstate", restore);
+    return () => window.removeEventListener("popstate", restore);
+  }, [tableId]);
+
+  // Mirror sort/filter/column choices into the URL (replace, so typing doesn't flood history)
+  useEffect(() => {
+    if (!viewRestored) return;
+    updateUrl({ [tableParam(tableId)]: encodeTableView(view) }, "replace");
+  }, [tableId, view, viewRestored]);
+
+  const cols = useMemo(() => {
+    const visible = allCols.filter((c) => !view.hidden.includes(c));
+    // Never hide everything
+    return visible.length > 0 ? visible : allCols;
+  }, [allCols, view.hidden]);
+
+  const numericCols = useMemo(() => numericColumns(rows, allCols), [rows, allCols]);
+
+  const viewRows = useMemo(() => applyTableView(rows, cols, view, percentCols), [rows, cols, view, percentCols]);
+
+  const pageCount = pageSize === "all" ? 1 : Math.max(1, Math.ceil(viewRows.length / pageSize));
+  const safePage = Math.min(page, pageCount - 1);
+
+  const slice = useMemo(() => {
+    if (pageSize === "all") return viewRows;
+    return viewRows.slice(safePage * pageSize, safePage * pageSize + pageSize);
+  }, [viewRows, pageSize, safePage]);
+
+  // Back to the first page whenever the filtered set changes
+  useEffect(() => {
+    setPage(0);
+  }, [view.query, view.ranges, view.sort, pageSize]);
+
+  // Windowed rendering: rows are fixed height (no wrapping) so offsets are simple math
+  const virtualize = slice.length > VIRTUALIZE_AFTER;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const firstRowRef = useRef<HTMLTableRowElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportPx, setViewportPx] = useState(SCROLL_BOX_PX);
+  const [rowPx, setRowPx] = useState(DEFAULT_ROW_PX);
+
+  const win = useMemo(
+    () =>
+      virtualize
+        ? virtualWindow(scrollTop, viewportPx, rowPx, slice.length)
+        : { start: 0, end: slice.length, padTop: 0, padBottom: 0 },
+    [virtualize, scrollTop, viewportPx, rowPx, slice.length]
+  );
+  const windowRows = useMemo(() => slice.slice(win.start, win.end), [slice, win.start, win.end]);
+
+  // Measure the real row height once rows are on screen
+  useEffect(() => {
+    if (!virtualize) return;
+    const h = firstRowRef.current?.getBoundingClientRect().height;
+    if (h && Math.abs(h - rowPx) > 0.5) setRowPx(h);
+    if (scrollRef.current) setViewportPx(scrollRef.current.clientHeight || SCROLL_BOX_PX);
+  }, [virtualize, windowRows, rowPx]);
+
+  // New filter/sort/page: back to the top of the scroll box. Not on new row data alone, so a
+  // refreshed result or a column toggle keeps the reader's place.
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [view.query, view.ranges, view.sort, safePage, pageSize]);
+
+  const scrollFrame = useRef<number | null>(null);
+  function handleScroll(e: React.UIEvent<HTMLDivElement>) {
+    if (!virtualize) return;
+    const top = e.currentTarget.scrollTop;
+    if (scrollFrame.current !== null) cancelAnimationFrame(scrollFrame.current);
+    scrollFrame.current = requestAnimationFrame(() => {
+      scrollFrame.current = null;
+      setScrollTop(top);
+    });
+  }
+
+  useEffect(() => {
+    return () => {
+      if (scrollFrame.current !== null) cancelAnimationFrame(scrollFrame.current);
+    };
+  }, []);
+
+  const [colWidths, setColWidths] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!rows.length || !cols.length) {
+      setColWidths({});
+      return;
+    }
+
+    const widths = buildColWidths(rows, cols, percentCols, {
+      sample: Math.min(120, rows.length),
+      font: "12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
+      paddingPx: 34, // room for the sort indicator
+      minPx: 70,
+      maxTextPx: 520,
+      maxDefaultPx: 320,
+    });
+
+    setColWidths(widths);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rows, cols.join("|"), (percentCols ?? []).join("|")]);
+
+  function toggleColumn(c: string) {
+    setView((v) => {
+      const hidden = v.hidden.includes(c) ? v.hidden.filter((h) => h !== c) : [...v.hidden, c];
+      saveHiddenCols(tableId, hidden);
+      return { ...v, hidden };
+    });
+  }
+
+  function showAllColumns() {
+    saveHiddenCols(tableId, []);
+    setView((v) => ({ ...v, hidden: [] }));
+  }
+
+  function setRange(c: string, patch: NumericRange) {
+    setView((v) => ({ ...v, ranges: { ...v.ranges, [c]: { ...v.ranges[c], ...patch } } }));
+  }
+
+  const filtered = isViewFiltered(view);
+  const hiddenCount = allCols.length - cols.length;
+
+  return (
+    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-4 min-w-0">
+      <div className="mb-3 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">{title}</div>
+          <div className="text-xs text-slate-500">
+            Showing {slice.length.toLocaleString()}
+            {viewRows.length > slice.length ? ` of ${viewRows.length.toLocaleString()}` : ""}
+            {filtered ? ` matching (${rows.length.toLocaleString()} total)` : ""} rows
+          </div>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="search"
+              value={view.query}
+              onChange={(e) => setView((v) => ({ ...v, query: e.target.value }))}
+              placeholder="Filter rows..."
+              aria-label={`Filter ${title}`}
+              className="w-48 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900"
+            />
+
+            {numericCols.length > 0 && (
+              <details className="relative">
+                <summary className="cursor-pointer list-none rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50">
+                  Ranges{Object.values(view.ranges).some((r) => r?.min !== undefined || r?.max !== undefined) ? " •" : ""}
+                </summary>
+                <div className="absolute right-0 z-20 mt-1 w-80 rounded-xl border border-slate-200 bg-white p-3 shadow-lg">
+                  <div className="text-xs text-slate-500 mb-2">Percent columns use 0–100; durations use seconds.</div>
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {numericCols.map((c) => (
+                      <div key={c} className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center gap-2">
+                        <span className="text-xs text-slate-800 truncate" title={c}>
+                          {c}
+                        </span>
+                        <input
+                          type="number"
+                          value={view.ranges[c]?.min ?? ""}
+                          onChange={(e) => setRange(c, { min: parseBound(e.target.value) })}
+                          placeholder={isDurationCol(c) ? "min sec" : "min"}
+                          aria-label={`${c} minimum${isDurationCol(c) ? " in seconds" : ""}`}
+                          className="rounded-lg border border-slate-300 px-2 py-1 text-xs"
+                        />
+                        <input
+                          type="number"
+                          value={view.ranges[c]?.max ?? ""}
+                          onChange={(e) => setRange(c, { max: parseBound(e.target.value) })}
+                          placeholder={isDurationCol(c) ? "max sec" : "max"}
+                          aria-label={`${c} maximum${isDurationCol(c) ? " in seconds" : ""}`}
+                          className="rounded-lg border border-slate-300 px-2 py-1 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setView((v) => ({ ...v, ranges: {} }))}
+                    className="mt-2 text-xs text-slate-700 underline"
+                  >
+                    Clear ranges
+                  </button>
+                </div>
+              </details>
+            )}
+
+            <details className="relative">
+              <summary className="cursor-pointer list-none rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs text-slate-900 hover:bg-slate-50">
+                Columns{hiddenCount > 0 ? ` (${hiddenCount} hidden)` : ""}
+              </summary>
+              <div className="absolute right-0 z-20 mt-1 w-64 rounded-xl border border-slate-200 bg-white p-3 shadow-lg">
+                <div className="space-y-1 max-h-72 overflow-y-auto">
+                  {allCols.map((c) => (
+                    <label key={c} className="flex items-center gap-2 text-xs text-slate-800">
+                      <input type="checkbox" checked={!view.hidden.includes(c)} onChange={() => toggleColumn(c)} />
+                      <span className="truncate">{c}</span>
+                    </label>
+                  ))}
+                </div>
+                <button type="button" onClick={showAllColumns} className="mt-2 text-xs text-slate-700 underline">
+                  Show all columns
+                </button>
+              </div>
+            </details>
+
+            {filtered && (
+              <button
+                type="button"
+                onClick={() => setView((v) => ({ ...v, query: "", ranges: {} }))}
+                className="text-xs text-slate-700 underline"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {slice.length === 0 ? (
+        <div className="text-sm text-slate-600">{rows.length > 0 ? "No rows match the current filters." : "No data."}</div>
+      ) : (
+        // Individual table scroll container (x + y), with a fixed max height and sticky header
+        <div className="rounded-xl border border-slate-200 overflow-hidden">
+          {/* This box is constrained to the card width (screen-width container) */}
+          <div
+            ref={scrollRef}
+            onScroll={handleScroll}
+            className="w-full max-h-[520px] overflow-x-auto overflow-y-auto"
+            aria-label={`${title} table`}
+          >
+            {/* Table can be wider than the box; scroll happens on the box */}
+            <table className="w-max text-[13px] leading-5 table-fixed" aria-rowcount={slice.length + 1}>
+
+              <colgroup>
+                {cols.map((c) => (
+                  <col key={c} style={colWidths[c] ? { width: `${colWidths[c]}px` } : undefined} />
+                ))}
+              </colgroup>
+
+              <thead className="sticky top-0 z-10 border-b-2 border-slate-300">
+                <tr>
+                  {cols.map((c, colIdx) => {
+                    const textHeavy = isTextHeavyCol(c);
+                    const helpText = COLUMN_HELP_TEXT[c];
+                    const isOddCol = colIdx % 2 === 1;
+                    const sortDir = view.sort?.col === c ? view.sort.dir : null;
+                    return (
+                      <th
+                        key={c}
+                        scope="col"
+                        aria-sort={sortDir === "asc" ? "ascending" : sortDir === "desc" ? "descending" : "none"}
+                        className={`text-left px-3 py-2.5 text-xs font-semibold text-slate-800 align-top border-r border-slate-300 last:border-r-0 ${
+                          textHeavy ? "break-words" : "whitespace-nowrap"
+                        } ${isOddCol ? "bg-slate-200" : "bg-slate-100"}`}
+                      >
+                        <span>
+                          <button
+                            type="button"
+                            onClick={() => setView((v) => ({ ...v, sort: nextSort(v.sort, c) }))}
+                            className="text-left font-semibold hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen rounded"
+                            title="Sort"
+                          >
+                            {c}
+                            <span aria-hidden="true" className="ml-1 text-slate-500">
+                              {sortDir === "asc" ? "▲" : sortDir === "desc" ? "▼" : ""}
+                            </span>
+                          </button>
+                          {helpText && (
+                            <Tooltip text={helpText} position="bottom">
+                              <span className="ml-1 text-slate-400 hover:text-slate-600 cursor-help">ⓘ</span>
+                            </Tooltip>
+                          )}
+                        </span>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+
+              <tbody>
+                {win.padTop > 0 && (
+                  <tr aria-hidden="true" style={{ height: `${win.padTop}px` }}>
+                    <td colSpan={cols.length} className="p-0" />
+                  </tr>
+                )}
+                {windowRows.map((r, i) => {
+                  const rowIdx = win.start + i;
+                  return (
+                    <tr
+                      key={rowIdx}
+                      ref={i === 0 ? firstRowRef : undefined}
+                      aria-rowindex={rowIdx + 2}
+                      className="border-t border-slate-300"
+                    >
+                      {cols.map((c, colIdx) => {
+                        const textHeavy = isTextHeavyCol(c);
+                        const isOddCol = colIdx % 2 === 1;
+                        const text = formatCell(c, r[c], percentCols);
+                        // Virtualized rows can't wrap; long text is truncated with the full value in the tooltip
+                        const wrap = textHeavy && !virtualize;
+                        return (
+                          <td
+                            key={c}
+                            title={virtualize && textHeavy ? text : undefined}
+                            className={`px-3 py-2 text-[13px] leading-5 text-slate-800 align-top border-r border-slate-200 last:border-r-0 ${
+                              wrap ? "break-words" : virtualize && textHeavy ? "whitespace-nowrap overflow-hidden text-ellipsis" : "whitespace-nowrap"
+                            } ${isOddCol ? "bg-slate-200" : "bg-white"}`}
+                          >
+                            {text}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                {win.padBottom > 0 && (
+                  <tr aria-hidden="true" style={{ height: `${win.padBottom}px` }}>
+                    <td colSpan={cols.length} className="p-0" />
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {viewRows.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-600">
+          <label className="inline-flex items-center gap-2">
+            Rows per page
+            <select
+              value={String(pageSize)}
+              onChange={(e) => setPageSize(e.target.value === "all" ? "all" : (Number(e.target.value) as PageSize))}
+              className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-xs"
+            >
+              {PAGE_SIZES.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+              <option value="all">Show all</option>
+            </select>
+          </label>
+
+          {pageCount > 1 && (
+            <div className="inline-flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setPage(Math.max(0, safePage - 1))}
+                disabled={safePage === 0}
+                className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span>
+                Page {safePage + 1} of {pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage(Math.min(pageCount - 1, safePage + 1))}
+                disabled={safePage >= pageCount - 1}
+                className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { JobStage, JobStageStatus } from "../../lib/analysisJob";
+
+const STATUS_ICON: Record<JobStageStatus, string> = {
+  pending: "○",
+  running: "◐",
+  done: "✓",
+  failed: "✕",
+  skipped: "–",
+};
+
+const STATUS_CLASS: Record<JobStageStatus, string> = {
+  pending: "text-slate-400",
+  running: "text-slate-900",
+  done: "text-green-700",
+  failed: "text-red-700",
+  skipped: "text-slate-400",
+};
+
+const STATUS_LABEL: Record<JobStageStatus, string> = {
+  pending: "Waiting",
+  running: "In progress",
+  done: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+function formatElapsed(sec: number) {
+  return sec < 60 ? `${sec}s` : `${Math.floor(sec / 60)}m ${String(sec % 60).padStart(2, "0")}s`;
+}
+
+// Per-stage status of a running analysis, with the elapsed time so a slow stage doesn't look like a hang
+export default function AnalysisProgress({
+  stages,
+  startedAt,
+  cancelling,
+  onCancel,
+}: {
+  stages: JobStage[];
+  startedAt: number;
+  cancelling: boolean;
+  onCancel: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const elapsed = Math.max(0, Math.round((now - startedAt) / 1000));
+  const finished = stages.filter((s) => s.status === "done" || s.status === "skipped" || s.status === "failed").length;
+  const current = stages.find((s) => s.status === "running");
+
+  return (
+    <div className="mt-6 rounded-xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="text-sm font-medium text-slate-700">
+          Analyzing your data... <span className="font-normal text-slate-500">{formatElapsed(elapsed)}</span>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={cancelling}
+          className="rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60"
+        >
+          {cancelling ? "Cancelling..." : "Cancel"}
+        </button>
+      </div>
+
+      <div
+        className="w-full bg-slate-200 rounded-full h-2 overflow-hidden mb-3"
+        role="progressbar"
+        aria-label="Analysis progress"
+        aria-valuemin={0}
+        aria-valuemax={stages.length}
+        aria-valuenow={finished}
+        aria-valuetext={current ? current.label : `${finished} of ${stages.length} steps finished`}
+      >
+        <div className="h-full bg-slate-800 transition-[width] duration-300" style={{ width: `${(finished / stages.length) * 100}%` }} />
+      </div>
+
+      <ol className="space-y-1" aria-live="polite">
+        {stages.map((s) => (
+          <li key={s.id} className={`flex items-start gap-2 text-sm ${STATUS_CLASS[s.status]}`}>
+            <span aria-hidden="true" className={`w-4 text-center ${s.status === "running" ? "animate-pulse" : ""}`}>
+              {STATUS_ICON[s.status]}
+            </span>
+            <span>
+              {s.label}
+              <span className="sr-only"> ({STATUS_LABEL[s.status]})</span>
+              {s.message && <span className="block text-xs text-slate-500">{s.message}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { ApiError, apiErrorTitle } from "../../lib/apiClient";
+
+// Backend failure with its category heading; outages offer a retry or a switch to the in-browser engine
+export default function ApiErrorNotice({
+  error,
+  onRetry,
+  onUseLocal,
+}: {
+  error: ApiError;
+  onRetry: () => void;
+  onUseLocal: () => void;
+}) {
+  const outage = error.category === "network" || error.category === "server";
+
+  return (
+    <div className="mb-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800" role="alert">
+      <div className="font-semibold">
+        {apiErrorTitle(error)}
+        {error.status !== null && <span className="font-normal text-red-700"> (HTTP {error.status})</span>}
+      </div>
+      <div className="mt-1">{error.message}</div>
+      {outage && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={onRetry}
+            className="rounded-xl bg-slate-900 text-white px-3 py-1.5 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Try again
+          </button>
+          <button
+            type="button"
+            onClick={onUseLocal}
+            className="rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+          >
+            Switch to in-browser analysis
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
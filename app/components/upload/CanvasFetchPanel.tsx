@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  buildGradebookCsv,
+  canvasModuleHints,
+  fetchCanvasCourse,
+  gradebookCsvFile,
+  loadCanvasConnection,
+  normalizeBaseUrl,
+  saveCanvasConnection,
+} from "../../lib/canvasApi";
+import type { ModuleHints } from "../../lib/moduleMapping";
+
+export default function CanvasFetchPanel({
+  courseId,
+  onFetched,
+}: {
+  courseId: string;
+  onFetched: (file: File, hints: ModuleHints) => void;
+}) {
+  const [baseUrl, setBaseUrl] = useState("");
+  const [token, setToken] = useState("");
+  const [fetching, setFetching] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const conn = loadCanvasConnection();
+    setBaseUrl(conn.baseUrl);
+    setToken(conn.token);
+  }, []);
+
+  async function handleFetch() {
+    setError(null);
+    setFetching(true);
+    try {
+      const conn = { baseUrl: normalizeBaseUrl(baseUrl), token: token.trim() };
+      if (!conn.token) throw new Error("Enter a Canvas access token.");
+      saveCanvasConnection(conn);
+
+      const data = await fetchCanvasCourse(conn, courseId, setProgress);
+      setProgress(
+        `Fetched ${data.enrollments.length} enrollments, ${data.assignments.length} assignments, ` +
+          `${data.modules.length} modules and ${data.submissions.length} submissions.`
+      );
+      onFetched(gradebookCsvFile(courseId, buildGradebookCsv(data)), canvasModuleHints(data));
+    } catch (e: any) {
+      setProgress(null);
+      setError(e?.message ?? String(e));
+    } finally {
+      setFetching(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+      <div>
+        <label htmlFor="canvas-base-url" className="block text-xs font-medium text-slate-700 mb-1">
+          Canvas address
+        </label>
+        <input
+          id="canvas-base-url"
+          type="url"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          placeholder="https://canvas.example.edu"
+          className="w-full"
+        />
+      </div>
+      <div>
+        <label htmlFor="canvas-token" className="block text-xs font-medium text-slate-700 mb-1">
+          Access token
+        </label>
+        <input
+          id="canvas-token"
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          autoComplete="off"
+          className="w-full"
+        />
+        <div className="text-xs text-slate-500 mt-1">
+          Create one under Account → Settings → New Access Token. It is kept only for this browser tab.
+        </div>
+      </div>
+
+      <button
+        onClick={handleFetch}
+        disabled={fetching || !courseId.trim()}
+        className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {fetching ? "Fetching..." : `Fetch course ${courseId.trim() || ""} from Canvas`}
+      </button>
+
+      {progress && (
+        <div className="text-xs text-slate-600" role="status">
+          {progress}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-700">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import React from "react";
+import type { CsvValidationReport } from "../../lib/csvValidation";
+
+export default function CsvCheckPanel({
+  report,
+  parsing,
+}: {
+  report: CsvValidationReport | null;
+  parsing?: boolean;
+}) {
+  if (parsing) {
+    return <div className="mt-3 text-xs text-slate-500">Checking file...</div>;
+  }
+  if (!report) return null;
+
+  const previewCols = report.headers;
+
+  return (
+    <div
+      className={
+        "mt-3 rounded-xl border p-3 " +
+        (report.blocking ? "border-red-200 bg-red-50" : "border-slate-200 bg-slate-50")
+      }
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className={"text-xs font-semibold " + (report.blocking ? "text-red-800" : "text-slate-800")}>
+          {report.blocking ? "File needs attention" : "File looks good"}
+        </div>
+        <div className="text-xs text-slate-500">{report.rowCount.toLocaleString()} data rows</div>
+      </div>
+
+      {report.errors.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {report.errors.map((e, idx) => (
+            <li key={idx} className="text-xs text-red-800">
+              {e}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.warnings.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {report.warnings.map((w, idx) => (
+            <li key={idx} className="text-xs text-amber-800">
+              {w}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Column checklist */}
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 mb-3" aria-label="Expected columns">
+        {report.checks.map((c) => (
+          <li key={c.label} className="text-xs flex items-center gap-1.5">
+            <span
+              aria-hidden="true"
+              className={c.found ? "text-green-700" : c.required ? "text-red-700" : "text-slate-400"}
+            >
+              {c.found ? "✓" : c.required ? "✗" : "–"}
+            </span>
+            <span className={c.found ? "text-slate-800" : c.required ? "text-red-800" : "text-slate-500"}>
+              {c.label}
+              {c.found && c.found !== c.label ? ` (as “${c.found}”)` : ""}
+              {!c.found && (c.required ? " — missing" : " — optional, not found")}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {/* 5-row preview */}
+      {report.preview.length > 0 && (
+        <div className="rounded-lg border border-slate-200 bg-white overflow-x-auto max-h-56 overflow-y-auto">
+          <table className="w-max text-[11px] leading-4" aria-label="File preview">
+            <thead className="sticky top-0 bg-slate-100">
+              <tr>
+                {previewCols.map((h, idx) => (
+                  <th key={`${h}-${idx}`} scope="col" className="text-left px-2 py-1 font-semibold text-slate-700 whitespace-nowrap">
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.preview.map((r, rowIdx) => (
+                <tr key={rowIdx} className="border-t border-slate-200">
+                  {previewCols.map((h, idx) => (
+                    <td key={`${h}-${idx}`} className="px-2 py-1 text-slate-800 whitespace-nowrap max-w-[240px] truncate">
+                      {r[h]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
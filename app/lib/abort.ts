@@ -0,0 +1,28 @@
+// ---------- Cancellation helpers ----------
+// Shared by the analysis engines and the backend client so a cancel always surfaces the same
+// way: a DOMException named "AbortError", like fetch throws.
+
+export function abortError() {
+  return new DOMException("The operation was cancelled.", "AbortError");
+}
+
+export function throwIfAborted(signal?: AbortSignal | null) {
+  if (signal?.aborted) throw abortError();
+}
+
+/** setTimeout as a promise that rejects with an AbortError when `signal` fires. */
+export function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    // Detach once the wait is over, so a polling loop doesn't pile listeners onto one signal
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,217 @@
+import type { AICard, AIMetric, AnalyzeResponse } from "./schema";
+
+// ---------- AI analysis cards ----------
+// The backend asks the model for { version, cards: [...] } JSON. Models wrap it in code fences,
+// leave trailing commas or drop fields, so the text is repaired, then each card is validated on
+// its own: one bad card is reported and skipped instead of discarding the whole analysis.
+
+// Major version of the card format this dashboard renders
+export const AI_ANALYSIS_VERSION = 1;
+
+const TONES: AIMetric["tone"][] = ["good", "warn", "bad", "neutral"];
+
+export type DroppedCard = { index: number; title: string | null; reason: string };
+
+export type AIAnalysisParse =
+  | {
+      kind: "cards";
+      version: string | null;
+      cards: AICard[];
+      dropped: DroppedCard[];
+      repairs: string[]; // what had to be fixed before the JSON parsed
+      warning: string | null; // version problems
+    }
+  | { kind: "text"; text: string; reason: string | null }; // reason is null for deliberate prose
+
+// ---------- JSON repair ----------
+function repairJson(text: string): { json: string; repairs: string[] } {
+  const repairs: string[] = [];
+  let s = text.replace(/^﻿/, "").trim();
+
+  const fenced = s.match(/```(?:json|JSON)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    s = fenced[1].trim();
+    repairs.push("removed Markdown code fences");
+  }
+
+  // Prose before or after the object ("Here is the analysis: {...}")
+  const start = s.indexOf("{");
+  const end = s.lastIndexOf("}");
+  if (start > 0 || (end !== -1 && end < s.length - 1)) {
+    if (start !== -1 && end > start) {
+      s = s.slice(start, end + 1);
+      repairs.push("removed text around the JSON");
+    }
+  }
+
+  const noTrailing = stripTrailingCommas(s);
+  if (noTrailing !== s) {
+    s = noTrailing;
+    repairs.push("removed trailing commas");
+  }
+
+  return { json: s, repairs };
+}
+
+// Drop commas directly before } or ], skipping string contents
+function stripTrailingCommas(s: string) {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (inString) {
+      out += c;
+      if (c === "\\") {
+        out += s[++i] ?? "";
+      } else if (c === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (c === '"') inString = true;
+    if (c === ",") {
+      const next = s.slice(i + 1).match(/^\s*([}\]])/);
+      if (next) continue;
+    }
+    out += c;
+  }
+  return out;
+}
+
+// ---------- Validation ----------
+function text(v: unknown): string | null {
+  if (typeof v === "string") return v.trim();
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  return null;
+}
+
+function normalizeMetric(raw: unknown): AIMetric | null {
+  if (!raw || typeof raw !== "object") return null;
+  const m = raw as Record<string, unknown>;
+  const label = text(m.label);
+  const value = text(m.value);
+  if (!label || value === null) return null;
+  const tone = TONES.includes(m.tone as AIMetric["tone"]) ? (m.tone as AIMetric["tone"]) : "neutral";
+  return { label, value, tone };
+}
+
+function normalizeCard(raw: unknown, index: number, usedIds: Set<string>): AICard | DroppedCard {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { index, title: null, reason: "not an object" };
+  }
+  const c = raw as Record<string, unknown>;
+  const title = text(c.title);
+  if (!title) return { index, title: null, reason: "missing title" };
+
+  const summary = text(c.summary) ?? "";
+  const bullets = Array.isArray(c.bullets) ? c.bullets.map(text).filter((b): b is string => !!b) : [];
+  const metrics = Array.isArray(c.metrics)
+    ? c.metrics.map(normalizeMetric).filter((m): m is AIMetric => m !== null)
+    : [];
+  if (!summary && bullets.length === 0 && metrics.length === 0) {
+    return { index, title, reason: "no summary, bullets or metrics" };
+  }
+
+  // Ids key the rendered cards; make them unique
+  let id = text(c.id) || `card-${index + 1}`;
+  while (usedIds.has(id)) id = `${id}-${index + 1}`;
+  usedIds.add(id);
+
+  return { id, title, summary, bullets, metrics };
+}
+
+/** Parse `analysis.text`. Anything that is not a card object is returned as prose to show verbatim. */
+export function parseAIAnalysis(raw: string | null | undefined): AIAnalysisParse {
+  const source = (raw ?? "").trim();
+  if (!source) return { kind: "text", text: "", reason: null };
+
+  const { json, repairs } = repairJson(source);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    // Prose answers are legitimate; only flag text that tried to be JSON
+    const reason = /^\s*(```|\{)/.test(source) ? "The analysis looks like JSON but could not be read." : null;
+    return { kind: "text", text: source, reason };
+  }
+
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.cards)) {
+    return { kind: "text", text: source, reason: "The analysis JSON has no \"cards\" list." };
+  }
+
+  const version = text(parsed.version);
+  let warning: string | null = null;
+  const major = version ? Number.parseInt(version, 10) : NaN;
+  if (!version) warning = "The analysis has no format version; cards were read as version 1.";
+  else if (!Number.isFinite(major)) warning = `Unrecognized analysis format version "${version}"; cards were read as version 1.`;
+  else if (major > AI_ANALYSIS_VERSION) {
+    warning = `The analysis uses format version ${version}, newer than this dashboard supports (${AI_ANALYSIS_VERSION}); some content may be missing.`;
+  }
+
+  const cards: AICard[] = [];
+  const dropped: DroppedCard[] = [];
+  const usedIds = new Set<string>();
+  parsed.cards.forEach((c: unknown, idx: number) => {
+    const card = normalizeCard(c, idx, usedIds);
+    if ("reason" in card) dropped.push(card);
+    else cards.push(card);
+  });
+
+  return { kind: "cards", version, cards, dropped, repairs, warning };
+}
+
+export function describeDroppedCard(d: DroppedCard) {
+  return `Card ${d.index + 1}${d.title ? ` (“${d.title}”)` : ""}: ${d.reason}`;
+}
+
+// ---------- Metric → table rows ----------
+export type MetricTable = "echo-summary" | "echo-modules" | "gradebook-summary" | "gradebook-modules";
+
+export type MetricLink = { table: MetricTable; query: string };
+
+const GRADEBOOK_WORDS = /grade|score|turned in|submission|submitted|assignment|missing/i;
+
+// `name` appears in `haystack` as a whole phrase (not "Module 1" inside "Module 12")
+function mentions(haystack: string, name: string) {
+  // Every occurrence counts: "Module 12 vs Module 1" still mentions "Module 1"
+  for (let idx = haystack.indexOf(name); idx !== -1; idx = haystack.indexOf(name, idx + 1)) {
+    const before = haystack[idx - 1];
+    const after = haystack[idx + name.length];
+    if (!(before && /[a-z0-9]/.test(before)) && !(after && /[a-z0-9]/.test(after))) return true;
+  }
+  return false;
+}
+
+function longestMention(haystack: string, names: string[]) {
+  let best: string | null = null;
+  for (const name of names) {
+    const n = name.trim();
+    if (n.length < 3 || !mentions(haystack, n.toLowerCase())) continue;
+    if (!best || n.length > best.length) best = n;
+  }
+  return best;
+}
+
+/**
+ * The table rows a metric is about: a media title or module named in its label or value.
+ * Gradebook wording picks the gradebook module table when a module is in both.
+ */
+export function metricLink(metric: AIMetric, result: AnalyzeResponse | null): MetricLink | null {
+  if (!result) return null;
+  const haystack = `${metric.label} ${metric.value}`.toLowerCase();
+
+  const media = longestMention(haystack, (result.echo?.summary ?? []).map((r) => r["Media Title"] ?? ""));
+  if (media) return { table: "echo-summary", query: media };
+
+  const echoModules = (result.echo?.modules ?? []).map((r) => r.Module ?? "");
+  const gradeModules = (result.grades?.module_metrics ?? []).map((r) => r.Module ?? "");
+  const preferGrades = GRADEBOOK_WORDS.test(haystack);
+  const first = preferGrades ? gradeModules : echoModules;
+  const second = preferGrades ? echoModules : gradeModules;
+
+  const inFirst = longestMention(haystack, first);
+  if (inFirst) return { table: preferGrades ? "gradebook-modules" : "echo-modules", query: inFirst };
+  const inSecond = longestMention(haystack, second);
+  if (inSecond) return { table: preferGrades ? "echo-modules" : "gradebook-modules", query: inSecond };
+  return null;
+}
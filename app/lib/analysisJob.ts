@@ -0,0 +1,259 @@
+import { sleep } from "./abort";
+import { RetryNotice, apiErrorFromResponse, apiFetch } from "./apiClient";
+import type { ModuleMapping } from "./moduleMapping";
+import { SchemaResult, parseAnalyzeResponse } from "./schema";
+import { isEventStream, readEventStream } from "./sse";
+
+// ---------- Analysis jobs ----------
+// The backend runs an analysis as a job instead of one blocking request:
+//
+//   POST   <api base>/analyze/jobs              same form as /analyze -> { job_id, events_url?, status_url? }
+//   GET    <api base>/analyze/jobs/<id>/events  SSE: { stage, status, message? } per stage change,
+//                                              then { status: "done", result } or { status: "failed", error }
+//   GET    <api base>/analyze/jobs/<id>         polling: { status, stages: [{ id, status, message? }], result?, error? }
+//   DELETE <api base>/analyze/jobs/<id>         cancel
+//
+// Both POST routes take the form fields course_id, canvas_gradebook_csv, echo_analytics_csv and,
+// once the mapping editor has run, module_mapping: JSON { modules: string[] (display order),
+// assignments: { <assignment name>: <module> }, media: { <media title>: <module> } }. Titles it
+// doesn't list fall back to the backend's own inference. Honouring it is optional for the
+// backend: the page re-sorts the returned module tables into the mapping's order either way.
+//
+// Events are preferred; polling takes over when the events route is missing or the stream drops.
+// Backends without the jobs routes get the single POST /analyze. A failed AI stage does not fail
+// the job: the result still arrives and the tables render, with analysis.error explaining the gap.
+
+export type JobStageId = "canvas" | "echo" | "mapping" | "ai";
+export type JobStageStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+export type JobStage = {
+  id: JobStageId;
+  label: string;
+  status: JobStageStatus;
+  message?: string;
+};
+
+export const JOB_STAGES: { id: JobStageId; label: string }[] = [
+  { id: "canvas", label: "Parsing Canvas gradebook" },
+  { id: "echo", label: "Parsing Echo360 analytics" },
+  { id: "mapping", label: "Mapping modules" },
+  { id: "ai", label: "AI analysis" },
+];
+
+const STAGE_STATUSES: JobStageStatus[] = ["pending", "running", "done", "failed", "skipped"];
+
+export function initialStages(): JobStage[] {
+  return JOB_STAGES.map((s) => ({ ...s, status: "pending" }));
+}
+
+export type StageReporter = (id: JobStageId, status: JobStageStatus, message?: string) => void;
+
+export function updateStage(stages: JobStage[], id: JobStageId, status: JobStageStatus, message?: string): JobStage[] {
+  return stages.map((s) => (s.id === id ? { ...s, status, message } : s));
+}
+
+// ---------- Backend ----------
+
+export type AnalysisJobRequest = {
+  apiBase: string;
+  courseId: string;
+  canvasCsv: File;
+  echoCsv: File;
+  mapping?: ModuleMapping | null;
+  signal?: AbortSignal;
+  onStage: StageReporter;
+};
+
+const POLL_INTERVAL_MS = 1000;
+// Uploading both CSVs can be slow on campus Wi-Fi; the blocking route also waits for the AI step
+const SUBMIT_TIMEOUT_MS = 120_000;
+const LEGACY_TIMEOUT_MS = 300_000;
+
+// A finished job: its result (error = why the AI step is missing), or why it produced none
+type JobOutcome = { raw: unknown; error?: string } | { failure: string };
+
+function analyzeForm({ courseId, canvasCsv, echoCsv, mapping }: AnalysisJobRequest) {
+  const form = new FormData();
+  form.append("course_id", courseId.trim());
+  form.append("canvas_gradebook_csv", canvasCsv);
+  form.append("echo_analytics_csv", echoCsv);
+  if (mapping) form.append("module_mapping", JSON.stringify(mapping));
+  return form;
+}
+
+// Cold starts show up as retries before the first stage begins
+function retryReporter(report: StageReporter) {
+  return ({ attempt, attempts, delayMs, reason }: RetryNotice) =>
+    report(
+      "canvas",
+      "pending",
+      `Waiting for the analysis server (${reason}); retrying in ${Math.ceil(delayMs / 1000)}s, attempt ${attempt} of ${attempts}.`
+    );
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isStageId(v: unknown): v is JobStageId {
+  return JOB_STAGES.some((s) => s.id === v);
+}
+
+function isStageStatus(v: unknown): v is JobStageStatus {
+  return STAGE_STATUSES.includes(v as JobStageStatus);
+}
+
+/**
+ * Apply one event or poll snapshot. Returns the outcome once the job has finished (including a
+ * failure without a result), null while it is still running.
+ */
+function handleJobMessage(msg: unknown, report: StageReporter): JobOutcome | null {
+  if (!isRecord(msg)) return null;
+
+  if (Array.isArray(msg.stages)) {
+    for (const s of msg.stages) {
+      if (!isRecord(s)) continue;
+      const id = s.id ?? s.stage;
+      if (isStageId(id) && isStageStatus(s.status)) report(id, s.status, typeof s.message === "string" ? s.message : undefined);
+    }
+  }
+  if (msg.stage !== undefined) {
+    if (isStageId(msg.stage) && isStageStatus(msg.status)) {
+      report(msg.stage, msg.status, typeof msg.message === "string" ? msg.message : undefined);
+    }
+    return null;
+  }
+
+  const error = typeof msg.error === "string" && msg.error ? msg.error : undefined;
+  if (msg.status === "done" || (msg.result && msg.status !== "failed")) return { raw: msg.result, error };
+  if (msg.status === "failed") {
+    // Tables that were computed before the failure still render
+    if (msg.result) return { raw: msg.result, error: error ?? "The analysis job failed." };
+    return { failure: `Analysis failed: ${error ?? "the backend did not say why."}` };
+  }
+  if (msg.status === "cancelled") return { failure: "The analysis job was cancelled on the server." };
+  return null;
+}
+
+async function followEvents(url: string, signal: AbortSignal | undefined, report: StageReporter) {
+  const res = await apiFetch(url, { headers: { accept: "text/event-stream" }, signal, stream: true });
+  if (!res.ok || !res.body || !isEventStream(res)) {
+    res.body?.cancel().catch(() => {});
+    return null;
+  }
+
+  let outcome: JobOutcome | null = null;
+  await readEventStream(res.body, (data) => {
+    let msg: unknown;
+    try {
+      msg = JSON.parse(data);
+    } catch {
+      return; // keep-alive or comment payloads
+    }
+    outcome = handleJobMessage(msg, report);
+    if (outcome) return false;
+  });
+  return outcome as JobOutcome | null;
+}
+
+async function pollStatus(url: string, signal: AbortSignal | undefined, report: StageReporter): Promise<JobOutcome> {
+  for (;;) {
+    const res = await apiFetch(url, { headers: { accept: "application/json" }, signal });
+    if (!res.ok) throw await apiErrorFromResponse(res);
+    const outcome = handleJobMessage(await res.json(), report);
+    if (outcome) return outcome;
+    await sleep(POLL_INTERVAL_MS, signal);
+  }
+}
+
+function cancelJob(url: string) {
+  // Best effort: the page may be closing, and the job times out on its own anyway
+  apiFetch(url, { method: "DELETE", keepalive: true, retries: 0 }).catch(() => {});
+}
+
+/** Backends without the jobs routes: one blocking POST, with no stage detail to show. */
+async function runLegacy(req: AnalysisJobRequest, base: string): Promise<JobOutcome> {
+  req.onStage("canvas", "running", "This backend does not report progress; waiting for the full result.");
+  const res = await apiFetch(`${base}/analyze`, {
+    method: "POST",
+    body: analyzeForm(req),
+    signal: req.signal,
+    timeoutMs: LEGACY_TIMEOUT_MS,
+    onRetry: retryReporter(req.onStage),
+  });
+  if (!res.ok) throw await apiErrorFromResponse(res);
+  const raw: unknown = await res.json();
+  for (const s of JOB_STAGES) if (s.id !== "ai") req.onStage(s.id, "done");
+  const aiError = isRecord(raw) && isRecord(raw.analysis) ? raw.analysis.error : undefined;
+  if (typeof aiError === "string" && aiError) req.onStage("ai", "failed", aiError);
+  else req.onStage("ai", "done");
+  return { raw };
+}
+
+/**
+ * Submit the analysis as a job and follow it to the end. Rejects with an AbortError when
+ * `signal` fires; the job is cancelled on the backend too.
+ */
+export async function runAnalysisJob(req: AnalysisJobRequest): Promise<SchemaResult> {
+  const base = req.apiBase.replace(/\/$/, "");
+  const { signal } = req;
+
+  // Last reported status per stage, to tell whether the AI stage failed
+  const seen = new Map<JobStageId, { status: JobStageStatus; message?: string }>();
+  const report: StageReporter = (id, status, message) => {
+    seen.set(id, { status, message });
+    req.onStage(id, status, message);
+  };
+
+  let retried = false;
+  const submit = await apiFetch(`${base}/analyze/jobs`, {
+    method: "POST",
+    body: analyzeForm(req),
+    headers: { accept: "application/json" },
+    signal,
+    timeoutMs: SUBMIT_TIMEOUT_MS,
+    onRetry: (notice) => {
+      retried = true;
+      retryReporter(report)(notice);
+    },
+  });
+  if (retried) report("canvas", "pending");
+
+  let outcome: JobOutcome;
+  if (submit.status === 404 || submit.status === 405 || submit.status === 501) {
+    outcome = await runLegacy({ ...req, onStage: report }, base);
+  } else {
+    if (!submit.ok) throw await apiErrorFromResponse(submit);
+    const job = await submit.json().catch(() => null);
+    const jobId = job?.job_id ?? job?.id;
+    if (typeof jobId !== "string" && typeof jobId !== "number") {
+      throw new Error("Backend accepted the analysis job but did not return a job_id.");
+    }
+    const jobUrl = (u: unknown, fallback: string) => new URL(typeof u === "string" && u ? u : fallback, `${base}/`).toString();
+    const statusUrl = jobUrl(job.status_url, `${base}/analyze/jobs/${encodeURIComponent(String(jobId))}`);
+    const eventsUrl = jobUrl(job.events_url, `${statusUrl}/events`);
+
+    try {
+      let followed: JobOutcome | null = null;
+      try {
+        followed = await followEvents(eventsUrl, signal, report);
+      } catch (e) {
+        // A dropped stream only loses the live updates: the job keeps running, so poll for it
+        if (signal?.aborted) throw e;
+      }
+      outcome = followed ?? (await pollStatus(statusUrl, signal, report));
+    } catch (e) {
+      if (signal?.aborted) cancelJob(statusUrl);
+      throw e;
+    }
+  }
+
+  if ("failure" in outcome) throw new Error(outcome.failure);
+  const parsed = parseAnalyzeResponse(outcome.raw);
+  const ai = seen.get("ai");
+  const aiError = ai?.status === "failed" ? ai.message || "The AI analysis step failed." : outcome.error;
+  if (aiError && !parsed.data.analysis?.error) {
+    parsed.data.analysis = { ...parsed.data.analysis, error: `AI analysis did not complete: ${aiError}` };
+  }
+  return parsed;
+}
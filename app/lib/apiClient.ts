@@ -0,0 +1,304 @@
+import { abortError, sleep } from "./abort";
+import { CsvKind, csvKindLabel } from "./csvValidation";
+
+// ---------- Analysis backend client ----------
+// Every request to the analysis backend goes through `apiFetch`: a timeout per attempt, retries
+// with backoff while the backend cold-starts (502/503/504 from the hosting proxy), and error
+// bodies sorted into categories with a message that says what to do next.
+
+export type ApiErrorCategory = "validation" | "file-format" | "server" | "network";
+
+export class ApiError extends Error {
+  category: ApiErrorCategory;
+  status: number | null; // null when no response arrived
+  field?: string; // validation: the form field the backend rejected
+  file?: CsvKind; // file-format: which CSV it could not read
+
+  constructor(
+    message: string,
+    category: ApiErrorCategory,
+    status: number | null,
+    extra: { field?: string; file?: CsvKind } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.category = category;
+    this.status = status;
+    this.field = extra.field;
+    this.file = extra.file;
+  }
+}
+
+export type RetryNotice = { attempt: number; attempts: number; delayMs: number; reason: string };
+
+export type ApiRequestInit = RequestInit & {
+  timeoutMs?: number; // per attempt, until the response headers arrive
+  retries?: number; // extra attempts after a retryable failure
+  onRetry?: (notice: RetryNotice) => void;
+  stream?: boolean; // return the live body (e.g. SSE) instead of reading it before resolving
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 4;
+const BACKOFF_BASE_MS = 1500;
+const BACKOFF_MAX_MS = 20_000;
+const RETRYABLE_STATUS = [502, 503, 504];
+
+// Form fields of /analyze, as the UI names them
+const FIELD_LABELS: Record<string, string> = {
+  course_id: "Canvas Course ID",
+  module_mapping: "module mapping",
+};
+
+// Fields and codes that point at one of the uploaded CSVs
+const FILE_FIELDS: Record<string, CsvKind> = {
+  canvas_gradebook_csv: "canvas",
+  canvas: "canvas",
+  echo_analytics_csv: "echo",
+  echo: "echo",
+};
+
+const LOCAL_ENGINE_HINT = 'choose "In this browser" to analyze without the backend';
+
+// Exponential with jitter; a Retry-After header (seconds) wins when the server sends one
+function backoffMs(attempt: number, res?: Response) {
+  const retryAfter = Number(res?.headers.get("retry-after"));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, BACKOFF_MAX_MS);
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  return Math.round(base * (0.75 + Math.random() * 0.5));
+}
+
+function host(url: string) {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function networkError(url: string, timedOutMs: number | null) {
+  if (timedOutMs !== null) {
+    return new ApiError(
+      `The analysis server at ${host(url)} did not respond within ${Math.max(1, Math.round(timedOutMs / 1000))} seconds. ` +
+        `It may be overloaded or still starting; try again shortly, or ${LOCAL_ENGINE_HINT}.`,
+      "network",
+      null
+    );
+  }
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    return new ApiError(`You appear to be offline. Reconnect and try again, or ${LOCAL_ENGINE_HINT}.`, "network", null);
+  }
+  return new ApiError(
+    `Could not reach the analysis server at ${host(url)}. Check your connection and the NEXT_PUBLIC_API_BASE_URL ` +
+      `setting, or ${LOCAL_ENGINE_HINT}.`,
+    "network",
+    null
+  );
+}
+
+// Same response with its body already read, detached from the request's abort signal
+async function bufferedResponse(res: Response) {
+  const body = await res.arrayBuffer();
+  const nullBody = res.status === 204 || res.status === 205 || res.status === 304;
+  return new Response(nullBody ? null : body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/**
+ * fetch with a per-attempt timeout and retries. 502/503/504 are retried for every method (the
+ * proxy answered, the app never saw the request); network failures and timeouts only for GET,
+ * HEAD and DELETE, since a POST may already have been accepted. Non-OK responses are returned,
+ * not thrown: pass them to `apiErrorFromResponse`. Caller aborts surface as an AbortError.
+ * The body is read before resolving, so the listener on the caller's signal can be removed (a job
+ * polled every second would otherwise pile them up); with `stream` the live body is returned and
+ * the listener stays so an abort still ends it.
+ */
+export async function apiFetch(url: string, init: ApiRequestInit = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, onRetry, stream = false, signal, ...rest } = init;
+  const method = (rest.method ?? "GET").toUpperCase();
+  const idempotent = method === "GET" || method === "HEAD" || method === "DELETE";
+  const attempts = retries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    let res: Response | undefined;
+    let failure: ApiError | undefined;
+    try {
+      res = await fetch(url, { ...rest, signal: controller.signal });
+    } catch (e) {
+      signal?.removeEventListener("abort", forwardAbort);
+      if (signal?.aborted) throw abortError();
+      if (!timedOut && !(e instanceof TypeError)) throw e;
+      failure = networkError(url, timedOut ? timeoutMs : null);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const retryable = res ? RETRYABLE_STATUS.includes(res.status) : idempotent;
+    if (attempt >= attempts || !retryable) {
+      if (failure) throw failure;
+      if (stream || !signal) return res!;
+      try {
+        return await bufferedResponse(res!);
+      } catch (e) {
+        if (signal.aborted) throw abortError();
+        throw e instanceof TypeError ? networkError(url, null) : e;
+      } finally {
+        signal.removeEventListener("abort", forwardAbort);
+      }
+    }
+
+    const delayMs = backoffMs(attempt, res);
+    onRetry?.({
+      attempt: attempt + 1,
+      attempts,
+      delayMs,
+      reason: res ? `the server answered ${res.status}` : "no response",
+    });
+    // Free the connection before waiting
+    res?.body?.cancel().catch(() => {});
+    signal?.removeEventListener("abort", forwardAbort);
+    await sleep(delayMs, signal);
+  }
+}
+
+// ---------- Error bodies ----------
+
+type ErrorBody = { message?: string; field?: string; file?: string; code?: string };
+
+function lastField(loc: unknown): string | undefined {
+  if (!Array.isArray(loc)) return undefined;
+  const names = loc.filter((p) => typeof p === "string" && p !== "body" && p !== "query" && p !== "form");
+  return names[names.length - 1];
+}
+
+/**
+ * Understands FastAPI errors ({ detail: "..." } and 422 { detail: [{ loc, msg }] }) and the
+ * backend's own { error: { code, message, field, file } } (or the same keys at the top level).
+ */
+function readErrorBody(raw: any): ErrorBody {
+  if (!raw || typeof raw !== "object") return {};
+  if (Array.isArray(raw.detail)) {
+    const first = raw.detail.find((d: any) => d && typeof d === "object") ?? {};
+    return { message: typeof first.msg === "string" ? first.msg : undefined, field: lastField(first.loc), code: first.type };
+  }
+  const src = raw.error && typeof raw.error === "object" ? raw.error : raw;
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  return {
+    message: text(src.message) ?? text(src.detail) ?? text(raw.error) ?? text(raw.detail),
+    field: text(src.field),
+    file: text(src.file),
+    code: text(src.code),
+  };
+}
+
+function fileKind(body: ErrorBody): CsvKind | undefined {
+  for (const key of [body.file, body.field]) {
+    if (key && FILE_FIELDS[key.toLowerCase()]) return FILE_FIELDS[key.toLowerCase()];
+  }
+  return undefined;
+}
+
+function sentence(text: string) {
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+function parseErrorBody(text: string): ErrorBody {
+  try {
+    return readErrorBody(JSON.parse(text));
+  } catch {
+    // Plain text is shown when short; HTML error pages and stack traces are not
+    const plain = text.trim();
+    return plain && plain.length <= 300 && !plain.startsWith("<") ? { message: plain } : {};
+  }
+}
+
+/** The message in an error body, if it has one fit to show (never an HTML page or a long dump). */
+export function errorBodyMessage(text: string): string | undefined {
+  return parseErrorBody(text).message;
+}
+
+/** Turn a non-OK backend response into an ApiError with a tailored message. Never shows HTML pages. */
+export async function apiErrorFromResponse(res: Response): Promise<ApiError> {
+  const body = parseErrorBody(await res.text().catch(() => ""));
+
+  const detail = body.message ? ` ${sentence(body.message)}` : "";
+  const status = res.status;
+  const file = fileKind(body);
+
+  if (file || (body.code && /csv|file|format|parse/i.test(body.code) && status < 500)) {
+    const label = file ? `the ${csvKindLabel(file)} CSV` : "one of the uploaded CSVs";
+    const where = file === "echo" ? "Echo360 course analytics" : file === "canvas" ? "the Canvas gradebook (Grades > Export)" : "its source";
+    return new ApiError(
+      `The backend could not read ${label}.${detail} Re-export it from ${where} and upload it again.`,
+      "file-format",
+      status,
+      { file }
+    );
+  }
+
+  if (status === 400 || status === 422) {
+    const field = body.field;
+    const label = field ? (FIELD_LABELS[field] ? `the ${FIELD_LABELS[field]}` : `the "${field}" field`) : "the request";
+    return new ApiError(
+      `The backend rejected ${label}.${detail || " It did not say why."} Correct it and run the analysis again.`,
+      "validation",
+      status,
+      { field }
+    );
+  }
+
+  if (status === 413) {
+    return new ApiError(
+      `The uploaded files are too large for the backend.${detail} Trim the exports or ${LOCAL_ENGINE_HINT}.`,
+      "validation",
+      status
+    );
+  }
+
+  if (RETRYABLE_STATUS.includes(status)) {
+    return new ApiError(
+      `The analysis server is unavailable (${status}) even after several retries; it may still be starting up.` +
+        ` Wait a minute and try again, or ${LOCAL_ENGINE_HINT}.`,
+      "server",
+      status
+    );
+  }
+
+  if (status === 404 || status === 405) {
+    return new ApiError(
+      `The analysis server does not support this request (${status}). Check that NEXT_PUBLIC_API_BASE_URL points at the analysis backend.`,
+      "server",
+      status
+    );
+  }
+
+  return new ApiError(
+    `The analysis server ran into a problem (${status}).${detail} Try again, and if it keeps failing, ${LOCAL_ENGINE_HINT}.`,
+    "server",
+    status
+  );
+}
+
+/** Short heading for the error banner. */
+export function apiErrorTitle(e: ApiError) {
+  switch (e.category) {
+    case "validation":
+      return e.field && !FILE_FIELDS[e.field] ? `Check the ${FIELD_LABELS[e.field] ?? e.field}` : "The backend rejected the request";
+    case "file-format":
+      return e.file ? `Problem with the ${csvKindLabel(e.file)} CSV` : "Problem with an uploaded CSV";
+    case "server":
+      return "The analysis server had a problem";
+    case "network":
+      return "Can't reach the analysis server";
+  }
+}
@@ -0,0 +1,87 @@
+import type { StudentRow } from "./schema";
+
+// ---------- At-risk student rule ----------
+// Thresholds are in percent (0–100) to match what users type; student rows hold proportions.
+
+export type AtRiskCondition = {
+  enabled: boolean;
+  below: number; // flag when the student's value is under this percent
+};
+
+export type AtRiskRule = {
+  watched: AtRiskCondition; // % of Media Viewed
+  turnedIn: AtRiskCondition; // % Turned In
+  score: AtRiskCondition; // Current Score
+  match: "all" | "any";
+};
+
+export const DEFAULT_AT_RISK_RULE: AtRiskRule = {
+  watched: { enabled: true, below: 25 },
+  turnedIn: { enabled: true, below: 60 },
+  score: { enabled: false, below: 70 },
+  match: "all",
+};
+
+const CONDITION_FIELDS: { key: "watched" | "turnedIn" | "score"; field: keyof StudentRow; label: string }[] = [
+  { key: "watched", field: "% of Media Viewed", label: "watched" },
+  { key: "turnedIn", field: "% Turned In", label: "turned in" },
+  { key: "score", field: "Current Score", label: "current score" },
+];
+
+export const AT_RISK_COL = "At Risk";
+
+export function isAtRisk(row: StudentRow, rule: AtRiskRule): boolean {
+  const active = CONDITION_FIELDS.filter((c) => rule[c.key].enabled);
+  if (active.length === 0) return false;
+
+  const results = active.map((c) => {
+    const v = row[c.field];
+    // Missing data never flags a student on its own
+    if (typeof v !== "number") return false;
+    return v * 100 < rule[c.key].below;
+  });
+
+  return rule.match === "all" ? results.every(Boolean) : results.some(Boolean);
+}
+
+export function flagAtRisk(rows: StudentRow[], rule: AtRiskRule): (StudentRow & { [AT_RISK_COL]: string })[] {
+  return rows.map((r) => ({ ...r, [AT_RISK_COL]: isAtRisk(r, rule) ? "Yes" : "" }));
+}
+
+// e.g. "watched < 25% and turned in < 60%"
+export function describeAtRiskRule(rule: AtRiskRule) {
+  const parts = CONDITION_FIELDS.filter((c) => rule[c.key].enabled).map((c) => `${c.label} < ${rule[c.key].below}%`);
+  if (parts.length === 0) return "No conditions set";
+  return parts.join(rule.match === "all" ? " and " : " or ");
+}
+
+const AT_RISK_RULE_KEY = "cle-dashboard:at-risk-rule";
+
+export function loadAtRiskRule(): AtRiskRule {
+  if (typeof window === "undefined") return DEFAULT_AT_RISK_RULE;
+  try {
+    const raw = window.localStorage.getItem(AT_RISK_RULE_KEY);
+    if (!raw) return DEFAULT_AT_RISK_RULE;
+    const parsed = JSON.parse(raw);
+    const condition = (c: any, fallback: AtRiskCondition): AtRiskCondition => ({
+      enabled: typeof c?.enabled === "boolean" ? c.enabled : fallback.enabled,
+      below: typeof c?.below === "number" && Number.isFinite(c.below) ? c.below : fallback.below,
+    });
+    return {
+      watched: condition(parsed?.watched, DEFAULT_AT_RISK_RULE.watched),
+      turnedIn: condition(parsed?.turnedIn, DEFAULT_AT_RISK_RULE.turnedIn),
+      score: condition(parsed?.score, DEFAULT_AT_RISK_RULE.score),
+      match: parsed?.match === "any" ? "any" : "all",
+    };
+  } catch {
+    return DEFAULT_AT_RISK_RULE;
+  }
+}
+
+export function saveAtRiskRule(rule: AtRiskRule) {
+  try {
+    window.localStorage.setItem(AT_RISK_RULE_KEY, JSON.stringify(rule));
+  } catch {
+    // Storage full or disabled: the rule just won't persist
+  }
+}
@@ -0,0 +1,360 @@
+import { throwIfAborted } from "./abort";
+import { StageReporter, runAnalysisJob } from "./analysisJob";
+import { letterGradeRank } from "./canvasGradebook";
+import { parseCsvWithHeaders, readCsvFile, toCsv } from "./csv";
+import { CsvKind, csvKindLabel, detectCsvKind, validateCsv } from "./csvValidation";
+import { EvaluatedKpi, KpiValue, evaluateKpis, formatKpi, getKpi, kpiTone } from "./kpis";
+import { analyzeFilesLocally } from "./localAnalysis";
+import { loadModuleMapping } from "./moduleMapping";
+import { SavedRun, defaultRunName, makeRunId, saveRun } from "./runHistory";
+
+// ---------- Batch analysis ----------
+// Many courses in one go: the user drops a manifest CSV plus the exports, or a zip of them.
+// Each course is analyzed with the normal engines (a few at a time), saved to History like a
+// single run, and summarized in a department rollup of the headline KPIs.
+//
+// Manifest: one row per course with columns course_id, gradebook, echo (file names, matched by
+// path or bare name) and optionally name. Without a manifest, files are paired by the course
+// ID in their folder or file name (e.g. 12345/grades.csv + 12345/echo.csv), and each file's
+// headers tell the Canvas gradebook from the Echo360 export.
+
+export type BatchCourse = {
+  courseId: string;
+  name: string; // section or course name from the manifest; the course ID otherwise
+  canvasCsv: File;
+  echoCsv: File;
+};
+
+export type BatchPlan = {
+  courses: BatchCourse[];
+  problems: string[]; // files or rows that were left out, and why
+  manifest: string | null; // file name of the manifest used, if any
+};
+
+export type BatchEngine = SavedRun["engine"];
+
+export type BatchStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type BatchEntry = {
+  course: BatchCourse;
+  status: BatchStatus;
+  stage?: string; // label of the stage in progress
+  error?: string;
+  run?: SavedRun;
+};
+
+// Backend jobs mostly wait on the server; in-browser analysis competes for the one main thread
+export const BATCH_CONCURRENCY: Record<BatchEngine, number> = { backend: 3, local: 1 };
+
+// ---------- Reading the upload ----------
+
+// Header row only: enough to classify a file without parsing the whole export
+const HEADER_SNIFF_BYTES = 64 * 1024;
+
+function isZip(file: File) {
+  return /\.zip$/i.test(file.name) || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+}
+
+function baseName(path: string) {
+  return path.split("/").pop() ?? path;
+}
+
+/** CSV entries of a zip as Files named by their path inside the archive. */
+async function readZip(file: File): Promise<File[]> {
+  // xlsx already ships a zip reader (its CFB container code); loaded lazily like the Excel export
+  const { CFB } = await import("xlsx");
+  let container: any;
+  try {
+    container = CFB.read(new Uint8Array(await file.arrayBuffer()), { type: "array" });
+  } catch {
+    throw new Error(`Could not open ${file.name} as a zip archive.`);
+  }
+  const out: File[] = [];
+  container.FileIndex.forEach((entry: any, idx: number) => {
+    // FullPaths start with the container's root entry
+    const path = String(container.FullPaths[idx] ?? "").split("/").slice(1).join("/");
+    if (entry.type !== 2 || !entry.content || !/\.csv$/i.test(path)) return;
+    if (path.startsWith("__MACOSX/") || baseName(path).startsWith(".")) return;
+    out.push(new File([entry.content], path, { type: "text/csv" }));
+  });
+  return out;
+}
+
+async function readHeaders(file: File) {
+  return parseCsvWithHeaders(await file.slice(0, HEADER_SNIFF_BYTES).text()).headers;
+}
+
+const MANIFEST_COLUMNS = {
+  courseId: ["courseid", "course", "canvascourseid"],
+  gradebook: ["gradebook", "gradebookfile", "gradebookcsv", "canvas", "canvasfile", "canvasgradebook", "canvasgradebookcsv"],
+  echo: ["echo", "echofile", "echocsv", "echo360", "echoanalytics", "echoanalyticscsv"],
+  name: ["name", "coursename", "section", "label"],
+};
+
+const headerKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function manifestColumns(headers: string[]) {
+  const keys = headers.map(headerKey);
+  const find = (names: string[]) => keys.findIndex((k) => names.includes(k));
+  const cols = {
+    courseId: find(MANIFEST_COLUMNS.courseId),
+    gradebook: find(MANIFEST_COLUMNS.gradebook),
+    echo: find(MANIFEST_COLUMNS.echo),
+    name: find(MANIFEST_COLUMNS.name),
+  };
+  return cols.courseId >= 0 && cols.gradebook >= 0 && cols.echo >= 0 ? cols : null;
+}
+
+// First run of 3+ digits, looking at the innermost folder first and the file name last
+function courseIdFromPath(path: string) {
+  const parts = path.split("/");
+  const file = parts.pop() ?? "";
+  for (const part of [...parts.reverse(), file.replace(/\.csv$/i, "")]) {
+    const m = part.match(/(?:^|\D)(\d{3,})(?!\d)/);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+function pairFromManifest(manifest: File, text: string, files: File[], problems: string[]): BatchCourse[] {
+  const { headers, rows } = parseCsvWithHeaders(text);
+  const cols = manifestColumns(headers)!;
+  const byPath = new Map(files.map((f) => [f.name.toLowerCase(), f]));
+  const byName = new Map<string, File[]>();
+  for (const f of files) {
+    const key = baseName(f.name).toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), f]);
+  }
+  const lookup = (ref: string) => {
+    const key = ref.trim().replace(/\\/g, "/").replace(/^\.\//, "").toLowerCase();
+    const exact = byPath.get(key);
+    if (exact) return exact;
+    const matches = byName.get(baseName(key)) ?? [];
+    return matches.length === 1 ? matches[0] : null;
+  };
+
+  const courses: BatchCourse[] = [];
+  rows.forEach((cells, idx) => {
+    const line = idx + 2; // header is line 1
+    const courseId = (cells[cols.courseId] ?? "").trim();
+    const gradebookRef = (cells[cols.gradebook] ?? "").trim();
+    const echoRef = (cells[cols.echo] ?? "").trim();
+    if (!courseId && !gradebookRef && !echoRef) return;
+    if (!courseId) {
+      problems.push(`${manifest.name} line ${line}: no course ID.`);
+      return;
+    }
+    if (courses.some((c) => c.courseId === courseId)) {
+      problems.push(`${manifest.name} line ${line}: course ${courseId} is listed more than once.`);
+      return;
+    }
+    const canvasCsv = gradebookRef ? lookup(gradebookRef) : null;
+    const echoCsv = echoRef ? lookup(echoRef) : null;
+    const missing = [
+      !canvasCsv && `gradebook file "${gradebookRef || "(blank)"}"`,
+      !echoCsv && `Echo file "${echoRef || "(blank)"}"`,
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      problems.push(`Course ${courseId}: ${missing.join(" and ")} not found among the uploaded files.`);
+      return;
+    }
+    const name = cols.name >= 0 ? (cells[cols.name] ?? "").trim() : "";
+    courses.push({ courseId, name: name || courseId, canvasCsv: canvasCsv!, echoCsv: echoCsv! });
+  });
+  return courses;
+}
+
+async function pairByCourseId(files: File[], problems: string[]): Promise<BatchCourse[]> {
+  const groups = new Map<string, Partial<Record<CsvKind, File>>>();
+  for (const file of files) {
+    const kind = detectCsvKind(await readHeaders(file));
+    if (!kind) {
+      problems.push(`${file.name}: not recognized as a Canvas gradebook or Echo360 export; skipped.`);
+      continue;
+    }
+    const courseId = courseIdFromPath(file.name);
+    if (!courseId) {
+      problems.push(`${file.name}: no course ID in the folder or file name; add it there or use a manifest.`);
+      continue;
+    }
+    const group = groups.get(courseId) ?? {};
+    if (group[kind]) {
+      problems.push(`Course ${courseId}: more than one ${csvKindLabel(kind)} file (${group[kind]!.name}, ${file.name}).`);
+      continue;
+    }
+    group[kind] = file;
+    groups.set(courseId, group);
+  }
+
+  const courses: BatchCourse[] = [];
+  groups.forEach((group, courseId) => {
+    if (!group.canvas || !group.echo) {
+      const missing: CsvKind = group.canvas ? "echo" : "canvas";
+      problems.push(`Course ${courseId}: no ${csvKindLabel(missing)} file to pair with.`);
+      return;
+    }
+    courses.push({ courseId, name: courseId, canvasCsv: group.canvas, echoCsv: group.echo });
+  });
+  return courses;
+}
+
+/** Expand zips, find a manifest if there is one, and pair the exports into courses. */
+export async function planBatch(selected: File[]): Promise<BatchPlan> {
+  const problems: string[] = [];
+  const files: File[] = [];
+  for (const file of selected) {
+    if (isZip(file)) files.push(...(await readZip(file)));
+    else if (/\.csv$/i.test(file.name) || file.type === "text/csv") files.push(file);
+    else problems.push(`${file.name}: not a CSV or zip file; skipped.`);
+  }
+
+  let manifest: { file: File; text: string } | null = null;
+  for (const file of files) {
+    if (!manifestColumns(await readHeaders(file))) continue;
+    if (manifest) {
+      problems.push(`${file.name}: a second manifest; only ${manifest.file.name} is used.`);
+      continue;
+    }
+    manifest = { file, text: await file.text() };
+  }
+
+  const exports = files.filter((f) => f !== manifest?.file);
+  const courses = manifest
+    ? pairFromManifest(manifest.file, manifest.text, exports, problems)
+    : await pairByCourseId(exports, problems);
+  courses.sort((a, b) => a.courseId.localeCompare(b.courseId, undefined, { numeric: true }));
+  return { courses, problems, manifest: manifest?.file.name ?? null };
+}
+
+// ---------- Running ----------
+
+export type BatchRunOptions = {
+  engine: BatchEngine;
+  apiBase: string;
+  signal?: AbortSignal;
+  onStage: StageReporter;
+};
+
+// Same checks the upload step runs, so a batch refuses exactly the files the stepper would
+async function checkExport(kind: CsvKind, file: File) {
+  const report = validateCsv(kind, await readCsvFile(file));
+  if (report.blocking) throw new Error(`${csvKindLabel(kind)} file ${file.name}: ${report.errors.join(" ")}`);
+}
+
+/** Analyze one course and save it to History, as the stepper does for a single run. */
+export async function analyzeBatchCourse(course: BatchCourse, { engine, apiBase, signal, onStage }: BatchRunOptions) {
+  await checkExport("canvas", course.canvasCsv);
+  await checkExport("echo", course.echoCsv);
+  throwIfAborted(signal);
+
+  const mapping = loadModuleMapping(course.courseId);
+  const result =
+    engine === "local"
+      ? await analyzeFilesLocally(course.canvasCsv, course.echoCsv, mapping, { onStage, signal })
+      : (
+          await runAnalysisJob({
+            apiBase,
+            courseId: course.courseId,
+            canvasCsv: course.canvasCsv,
+            echoCsv: course.echoCsv,
+            mapping,
+            signal,
+            onStage,
+          })
+        ).data;
+
+  const createdAt = new Date().toISOString();
+  const name = defaultRunName(course.courseId, createdAt);
+  return saveRun({
+    id: makeRunId(course.courseId, createdAt),
+    courseId: course.courseId,
+    name: course.name !== course.courseId ? `${course.name} · ${name}` : name,
+    createdAt,
+    engine,
+    result,
+  });
+}
+
+/** Run `worker` over `items` with at most `limit` in flight; stops starting new ones once aborted. */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+) {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+}
+
+// ---------- Rollup ----------
+
+// Students, Average View %, Average Assignment Grade, Median Letter Grade
+export const ROLLUP_KPI_IDS = ["studentsEnrolled", "averageViewPercent", "averageAssignmentGrade", "medianLetterGrade"];
+
+export function rollupKpis(entry: BatchEntry): EvaluatedKpi[] {
+  return evaluateKpis(ROLLUP_KPI_IDS, entry.run?.result ?? null);
+}
+
+/** Numeric sort key for a KPI value; letter grades sort by the grading scheme. */
+export function kpiSortValue(value: KpiValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const rank = letterGradeRank(value);
+  return rank === null ? null : -rank;
+}
+
+/**
+ * Department row over the finished courses: students are summed, percentages averaged with each
+ * course weighted by its students, and the letter grade is the median course's.
+ */
+export function departmentRollup(entries: BatchEntry[]): EvaluatedKpi[] {
+  const rows = entries.filter((e) => e.status === "done").map(rollupKpis);
+  const students = rows.map((r) => r.find((k) => k.def.id === "studentsEnrolled")?.value);
+
+  return ROLLUP_KPI_IDS.map((id) => {
+    const def = getKpi(id)!;
+    const values = rows.map((r) => r.find((k) => k.def.id === id)?.value ?? null);
+    let value: KpiValue = null;
+
+    if (def.format === "text") {
+      const ranked = values
+        .map((v) => ({ v, key: kpiSortValue(v) }))
+        .filter((x): x is { v: string; key: number } => typeof x.v === "string" && x.key !== null)
+        .sort((a, b) => a.key - b.key);
+      value = ranked.length > 0 ? ranked[Math.floor((ranked.length - 1) / 2)].v : null;
+    } else if (id === "studentsEnrolled") {
+      const nums = values.filter((v): v is number => typeof v === "number");
+      value = nums.length > 0 ? nums.reduce((a, b) => a + b, 0) : null;
+    } else {
+      let sum = 0;
+      let weight = 0;
+      values.forEach((v, idx) => {
+        if (typeof v !== "number") return;
+        const w = typeof students[idx] === "number" && (students[idx] as number) > 0 ? (students[idx] as number) : 1;
+        sum += v * w;
+        weight += w;
+      });
+      value = weight > 0 ? sum / weight : null;
+    }
+    return { def, value, tone: kpiTone(def, value) };
+  });
+}
+
+export function rollupCsv(entries: BatchEntry[]) {
+  const defs = ROLLUP_KPI_IDS.map((id) => getKpi(id)!);
+  const rows = entries.map((e) => [
+    e.course.courseId,
+    e.course.name,
+    e.status,
+    ...rollupKpis(e).map((k) => (k.value === null ? "" : formatKpi(k.def, k.value))),
+    e.error ?? "",
+  ]);
+  const dept = departmentRollup(entries);
+  rows.push(["", "Department", "", ...dept.map((k) => (k.value === null ? "" : formatKpi(k.def, k.value))), ""]);
+  return toCsv(["Course ID", "Name", "Status", ...defs.map((d) => d.label), "Error"], rows, { escapeFormulas: true });
+}
@@ -0,0 +1,325 @@
+import { errorBodyMessage } from "./apiClient";
+import { toCsv } from "./csv";
+import type { ModuleHints } from "./moduleMapping";
+
+// ---------- Canvas REST API ingestion ----------
+// Pulls the course data behind a gradebook export and rebuilds the gradebook CSV from it, so
+// validation and both analysis engines work exactly as with a hand-exported file.
+// Requests go through the /api/canvas proxy route because Canvas doesn't allow cross-origin calls.
+
+export type CanvasApiUser = {
+  id: number;
+  name: string;
+  sortable_name?: string;
+  sis_user_id?: string | null;
+  login_id?: string | null;
+};
+
+export type CanvasApiEnrollment = {
+  user_id: number;
+  course_section_id: number | null;
+  type: string;
+  user: CanvasApiUser;
+  grades?: {
+    current_score?: number | null;
+    current_grade?: string | null;
+    final_score?: number | null;
+  };
+};
+
+export type CanvasApiSection = { id: number; name: string };
+
+export type CanvasApiAssignmentGroup = { id: number; name: string; position: number };
+
+export type CanvasApiAssignment = {
+  id: number;
+  name: string;
+  points_possible: number | null;
+  assignment_group_id: number;
+  position: number;
+  published: boolean;
+  omit_from_final_grade?: boolean;
+};
+
+export type CanvasApiModuleItem = {
+  id: number;
+  title: string;
+  type: string; // "Assignment", "Quiz", "Page", "ExternalTool", ...
+  content_id?: number;
+};
+
+export type CanvasApiModule = {
+  id: number;
+  name: string;
+  position: number;
+  items?: CanvasApiModuleItem[];
+  items_url?: string;
+};
+
+export type CanvasApiSubmission = {
+  assignment_id: number;
+  user_id: number;
+  score: number | null;
+  excused?: boolean | null;
+  workflow_state?: string;
+};
+
+export type CanvasCourseData = {
+  enrollments: CanvasApiEnrollment[];
+  sections: CanvasApiSection[];
+  assignmentGroups: CanvasApiAssignmentGroup[];
+  assignments: CanvasApiAssignment[];
+  modules: CanvasApiModule[];
+  submissions: CanvasApiSubmission[];
+};
+
+export type CanvasConnection = {
+  baseUrl: string; // e.g. https://canvas.example.edu
+  token: string;
+};
+
+export class CanvasApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CanvasApiError";
+    this.status = status;
+  }
+}
+
+const PER_PAGE = 100;
+const PROXY_PATH = "/api/canvas";
+
+export function normalizeBaseUrl(baseUrl: string) {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  if (!trimmed) throw new Error("Enter your Canvas address, e.g. https://canvas.example.edu");
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  // Accept a pasted course URL by keeping only the origin
+  return new URL(withScheme).origin;
+}
+
+// rel="next" target from an RFC 8288 Link header, as Canvas sends for pagination
+export function nextLink(header: string | null): string | null {
+  if (!header) return null;
+  for (const part of header.split(",")) {
+    const m = part.match(/<([^>]+)>\s*;\s*rel="?next"?/i);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+function proxyErrorMessage(text: string): string | null {
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body.error === "string" && body.error.trim() ? body.error.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function canvasGetPage(conn: CanvasConnection, url: string) {
+  const res = await fetch(`${PROXY_PATH}?url=${encodeURIComponent(url)}`, {
+    headers: { "x-canvas-token": conn.token },
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    // The proxy's own refusals ({ error }) explain themselves; Canvas sends { errors: [...] }
+    const proxyError = proxyErrorMessage(text);
+    if (proxyError) throw new CanvasApiError(proxyError, res.status);
+    if (res.status === 401) throw new CanvasApiError("Canvas rejected the access token (401).", res.status);
+    if (res.status === 403) {
+      throw new CanvasApiError("This token isn't allowed to read that course data (403). Teacher access is required.", res.status);
+    }
+    if (res.status === 404) throw new CanvasApiError("Course not found in Canvas (404). Check the course ID.", res.status);
+    const detail = errorBodyMessage(text);
+    throw new CanvasApiError(`Canvas request failed (${res.status})${detail ? `: ${detail}` : "."}`, res.status);
+  }
+
+  return { data: (await res.json()) as unknown, next: nextLink(res.headers.get("link")) };
+}
+
+// Follow Link rel="next" until the collection is exhausted
+async function canvasGetAll<T>(conn: CanvasConnection, path: string): Promise<T[]> {
+  const first = new URL(`${normalizeBaseUrl(conn.baseUrl)}/api/v1${path}`);
+  if (!first.searchParams.has("per_page")) first.searchParams.set("per_page", String(PER_PAGE));
+
+  const out: T[] = [];
+  let url: string | null = first.toString();
+  while (url) {
+    const page: { data: unknown; next: string | null } = await canvasGetPage(conn, url);
+    if (!Array.isArray(page.data)) throw new CanvasApiError("Canvas returned an unexpected response.", 200);
+    out.push(...(page.data as T[]));
+    url = page.next;
+  }
+  return out;
+}
+
+export type FetchProgress = (message: string) => void;
+
+export async function fetchCanvasCourse(
+  conn: CanvasConnection,
+  courseId: string,
+  onProgress?: FetchProgress
+): Promise<CanvasCourseData> {
+  const id = courseId.trim();
+  if (!/^\d+$/.test(id)) throw new Error("Canvas course ID must be numeric.");
+  const course = `/courses/${id}`;
+
+  onProgress?.("Fetching enrollments...");
+  const enrollments = await canvasGetAll<CanvasApiEnrollment>(
+    conn,
+    `${course}/enrollments?type[]=StudentEnrollment&state[]=active&state[]=completed`
+  );
+  const sections = await canvasGetAll<CanvasApiSection>(conn, `${course}/sections`);
+
+  onProgress?.("Fetching assignments...");
+  const assignmentGroups = await canvasGetAll<CanvasApiAssignmentGroup>(conn, `${course}/assignment_groups`);
+  const assignments = await canvasGetAll<CanvasApiAssignment>(conn, `${course}/assignments?order_by=position`);
+
+  onProgress?.("Fetching modules...");
+  const modules = await canvasGetAll<CanvasApiModule>(conn, `${course}/modules?include[]=items`);
+  // Canvas leaves out items for very large modules; fetch those separately
+  for (const m of modules) {
+    if (!m.items) m.items = await canvasGetAll<CanvasApiModuleItem>(conn, `${course}/modules/${m.id}/items`);
+  }
+
+  onProgress?.("Fetching submissions...");
+  const submissions = await canvasGetAll<CanvasApiSubmission>(
+    conn,
+    `${course}/students/submissions?student_ids[]=all`
+  );
+
+  return { enrollments, sections, assignmentGroups, assignments, modules, submissions };
+}
+
+function formatScore(v: number | null | undefined) {
+  return typeof v === "number" && Number.isFinite(v) ? String(v) : "";
+}
+
+/**
+ * Rebuild a Canvas gradebook export from API data: identity columns, one "Name (id)" column per
+ * published assignment in gradebook order, a Points Possible row and the Current/Final Score columns.
+ */
+export function buildGradebookCsv(data: CanvasCourseData): string {
+  const groupPos = new Map(data.assignmentGroups.map((g) => [g.id, g.position]));
+  const assignments = data.assignments
+    .filter((a) => a.published && !a.omit_from_final_grade)
+    .sort(
+      (a, b) =>
+        (groupPos.get(a.assignment_group_id) ?? 0) - (groupPos.get(b.assignment_group_id) ?? 0) ||
+        a.position - b.position
+    );
+
+  const sectionName = new Map(data.sections.map((s) => [s.id, s.name]));
+
+  const subs = new Map<string, CanvasApiSubmission>();
+  for (const s of data.submissions) subs.set(`${s.user_id}:${s.assignment_id}`, s);
+
+  const headers = [
+    "Student",
+    "ID",
+    "SIS User ID",
+    "SIS Login ID",
+    "Section",
+    ...assignments.map((a) => `${a.name} (${a.id})`),
+    "Current Score",
+    "Current Grade",
+    "Final Score",
+  ];
+
+  const pointsRow = [
+    "    Points Possible",
+    "",
+    "",
+    "",
+    "",
+    ...assignments.map((a) => formatScore(a.points_possible)),
+    "",
+    "",
+    "",
+  ];
+
+  // A student in several sections has one enrollment per section; Canvas exports one row
+  const byUser = new Map<number, CanvasApiEnrollment[]>();
+  for (const e of data.enrollments) {
+    const list = byUser.get(e.user_id);
+    if (list) list.push(e);
+    else byUser.set(e.user_id, [e]);
+  }
+
+  const rows = Array.from(byUser.values())
+    .map((list) => {
+      const e = list[0];
+      const sections = list
+        .map((x) => (x.course_section_id !== null ? sectionName.get(x.course_section_id) : undefined))
+        .filter((s): s is string => !!s);
+      return [
+        e.user.sortable_name || e.user.name,
+        String(e.user.id),
+        e.user.sis_user_id ?? "",
+        e.user.login_id ?? "",
+        sections.join(" and "),
+        ...assignments.map((a) => {
+          const s = subs.get(`${e.user_id}:${a.id}`);
+          if (s?.excused) return "EX";
+          return formatScore(s?.score);
+        }),
+        formatScore(e.grades?.current_score),
+        e.grades?.current_grade ?? "",
+        formatScore(e.grades?.final_score),
+      ];
+    })
+    .sort((a, b) => a[0].localeCompare(b[0]));
+
+  return toCsv(headers, [pointsRow, ...rows]);
+}
+
+// Real module membership for the mapping editor: assignments by name, Echo360 links by item title
+export function canvasModuleHints(data: CanvasCourseData): ModuleHints {
+  const assignmentName = new Map(data.assignments.map((a) => [a.id, a.name]));
+  const modules = [...data.modules].sort((a, b) => a.position - b.position);
+  const items: Record<string, string> = {};
+
+  for (const m of modules) {
+    for (const item of m.items ?? []) {
+      const title = item.type === "Assignment" && item.content_id ? assignmentName.get(item.content_id) ?? item.title : item.title;
+      // An item in several modules stays with the first one
+      if (title && !(title in items)) items[title] = m.name;
+    }
+  }
+
+  return { modules: modules.map((m) => m.name), items };
+}
+
+export function gradebookCsvFile(courseId: string, csv: string) {
+  return new File([csv], `canvas-gradebook-${courseId.trim() || "course"}.csv`, { type: "text/csv" });
+}
+
+// ---------- Session-only credentials ----------
+const BASE_URL_KEY = "cle-dashboard:canvas-base-url";
+const TOKEN_KEY = "cle-dashboard:canvas-token";
+
+export function loadCanvasConnection(): CanvasConnection {
+  if (typeof window === "undefined") return { baseUrl: "", token: "" };
+  try {
+    return {
+      baseUrl: window.localStorage.getItem(BASE_URL_KEY) ?? "",
+      // The token is kept for this tab only and never written to localStorage
+      token: window.sessionStorage.getItem(TOKEN_KEY) ?? "",
+    };
+  } catch {
+    return { baseUrl: "", token: "" };
+  }
+}
+
+export function saveCanvasConnection(conn: CanvasConnection) {
+  try {
+    window.localStorage.setItem(BASE_URL_KEY, conn.baseUrl);
+    window.sessionStorage.setItem(TOKEN_KEY, conn.token);
+  } catch {
+    // Storage disabled: the user re-enters them next time
+  }
+}
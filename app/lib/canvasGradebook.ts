@@ -0,0 +1,123 @@
+import { ParsedCsv } from "./csv";
+import { CANVAS_ASSIGNMENT_HEADER, CANVAS_META_ROW, resolveCsvColumn } from "./csvValidation";
+import { toNumber } from "./format";
+
+// ---------- Canvas Gradebook CSV model ----------
+export type CanvasAssignment = {
+  header: string; // original column header, e.g. "Quiz 1 (12345)"
+  name: string; // header without the Canvas id suffix
+  id: string | null;
+  pointsPossible: number | null;
+};
+
+// null = no submission/grade, "EX" = excused
+export type CanvasScore = number | null | "EX";
+
+export type CanvasStudent = {
+  name: string;
+  id: string;
+  sisUserId: string;
+  sisLoginId: string;
+  section: string;
+  currentScore: number | null; // 0–100
+  currentGrade: string | null;
+  scores: Record<string, CanvasScore>; // keyed by CanvasAssignment.header
+};
+
+export type CanvasGradebook = {
+  assignments: CanvasAssignment[];
+  students: CanvasStudent[];
+};
+
+// Canvas adds a "Test Student" to every course with Student View
+const TEST_STUDENT = /^(test student|student, test)$/i;
+
+function parseScore(v: string): CanvasScore {
+  const s = String(v ?? "").trim();
+  if (!s || s === "-") return null;
+  if (/^ex(cused)?$/i.test(s)) return "EX";
+  return toNumber(s);
+}
+
+export function parseCanvasGradebook(parsed: ParsedCsv): CanvasGradebook {
+  const { headers, rows } = parsed;
+  const col = (label: string) => {
+    const h = resolveCsvColumn("canvas", label, headers);
+    return h ? headers.indexOf(h) : -1;
+  };
+
+  const studentIdx = col("Student");
+  const idIdx = col("ID");
+  const sisUserIdx = col("SIS User ID");
+  const sisLoginIdx = col("SIS Login ID");
+  const sectionIdx = col("Section");
+  const currentScoreIdx = col("Current Score");
+  const currentGradeIdx = headers.findIndex((h) => /^current grade$/i.test(h));
+
+  const pointsRow = rows.find((r) => /^points possible$/i.test((r[0] ?? "").trim()));
+
+  const assignments: CanvasAssignment[] = [];
+  headers.forEach((h, idx) => {
+    if (!CANVAS_ASSIGNMENT_HEADER.test(h)) return;
+    const m = h.match(/^(.*?)\s*\((\d+)\)\s*$/);
+    assignments.push({
+      header: h,
+      name: m ? m[1] : h,
+      id: m ? m[2] : null,
+      pointsPossible: pointsRow ? toNumber(pointsRow[idx]) : null,
+    });
+  });
+
+  const cell = (r: string[], idx: number) => (idx >= 0 ? (r[idx] ?? "").trim() : "");
+
+  const students: CanvasStudent[] = rows
+    .filter((r) => !CANVAS_META_ROW.test((r[0] ?? "").trim()))
+    .filter((r) => !TEST_STUDENT.test(cell(r, studentIdx)))
+    .map((r) => {
+      const scores: Record<string, CanvasScore> = {};
+      for (const a of assignments) {
+        scores[a.header] = parseScore(r[headers.indexOf(a.header)]);
+      }
+      return {
+        name: cell(r, studentIdx),
+        id: cell(r, idIdx),
+        sisUserId: cell(r, sisUserIdx),
+        sisLoginId: cell(r, sisLoginIdx),
+        section: cell(r, sectionIdx),
+        currentScore: toNumber(cell(r, currentScoreIdx)),
+        currentGrade: cell(r, currentGradeIdx) || null,
+        scores,
+      };
+    });
+
+  return { assignments, students };
+}
+
+// Canvas default grading scheme (lower bounds, percent)
+const LETTER_SCHEME: [number, string][] = [
+  [94, "A"],
+  [90, "A-"],
+  [87, "B+"],
+  [84, "B"],
+  [80, "B-"],
+  [77, "C+"],
+  [74, "C"],
+  [70, "C-"],
+  [67, "D+"],
+  [64, "D"],
+  [61, "D-"],
+  [0, "F"],
+];
+
+export function letterGrade(score: number): string {
+  for (const [min, letter] of LETTER_SCHEME) {
+    if (score >= min) return letter;
+  }
+  return "F";
+}
+
+// Position of a letter in the scheme, best first (A = 0); null for letters outside it
+export function letterGradeRank(letter: string): number | null {
+  const idx = LETTER_SCHEME.findIndex(([, l]) => l === letter.trim().toUpperCase());
+  return idx >= 0 ? idx : null;
+}
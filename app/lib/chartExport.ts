@@ -0,0 +1,131 @@
+import type { ChartPoint } from "./chartSummary";
+import { toCsv } from "./csv";
+
+// ---------- Single-chart export (SVG / PNG / CSV) ----------
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Text styles that come from CSS (Tailwind / Recharts classes) and would be lost outside the page
+const TEXT_STYLE_PROPS = ["font-family", "font-size", "font-weight", "font-style", "fill", "text-anchor"];
+
+export const PNG_SCALE = 3;
+
+export type ChartSvg = { svg: string; width: number; height: number };
+
+function inlineTextStyles(source: SVGSVGElement, target: SVGSVGElement) {
+  const from = source.querySelectorAll("text, tspan");
+  const to = target.querySelectorAll("text, tspan");
+  from.forEach((el, i) => {
+    const cs = window.getComputedStyle(el);
+    for (const prop of TEXT_STYLE_PROPS) {
+      const v = cs.getPropertyValue(prop);
+      if (v) to[i]?.setAttribute(prop, v);
+    }
+  });
+}
+
+// Recharts draws the legend as HTML over the chart; redraw it in SVG at the same positions
+function legendGroup(container: HTMLElement, origin: DOMRect) {
+  const g = document.createElementNS(SVG_NS, "g");
+  container.querySelectorAll<HTMLElement>(".recharts-legend-item").forEach((item) => {
+    const icon = item.querySelector("svg");
+    if (icon) {
+      const r = icon.getBoundingClientRect();
+      const copy = icon.cloneNode(true) as SVGSVGElement;
+      copy.setAttribute("x", String(r.left - origin.left));
+      copy.setAttribute("y", String(r.top - origin.top));
+      copy.removeAttribute("style");
+      g.appendChild(copy);
+    }
+    const label = item.querySelector<HTMLElement>(".recharts-legend-item-text");
+    if (label) {
+      const r = label.getBoundingClientRect();
+      const cs = window.getComputedStyle(label.firstElementChild ?? label);
+      const text = document.createElementNS(SVG_NS, "text");
+      text.setAttribute("x", String(r.left - origin.left));
+      text.setAttribute("y", String(r.top - origin.top + r.height / 2));
+      text.setAttribute("dominant-baseline", "central");
+      text.setAttribute("font-family", cs.fontFamily);
+      text.setAttribute("font-size", cs.fontSize);
+      text.setAttribute("fill", cs.color);
+      text.textContent = label.textContent ?? "";
+      g.appendChild(text);
+    }
+  });
+  return g;
+}
+
+/** Standalone SVG of the Recharts chart inside `container` (white background, fonts and legend inlined). */
+export function serializeChartSvg(container: HTMLElement): ChartSvg | null {
+  // The chart surface; legend icons are also `svg.recharts-surface`, so anchor on the wrapper
+  const surface = container.querySelector<SVGSVGElement>(".recharts-wrapper > svg");
+  if (!surface) return null;
+
+  const origin = surface.getBoundingClientRect();
+  const width = Math.round(origin.width);
+  const height = Math.round(origin.height);
+  if (width === 0 || height === 0) return null;
+
+  const clone = surface.cloneNode(true) as SVGSVGElement;
+  inlineTextStyles(surface, clone);
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  clone.removeAttribute("style");
+
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", "#ffffff");
+  clone.insertBefore(bg, clone.firstChild);
+  clone.appendChild(legendGroup(container, origin));
+
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+  return { svg, width, height };
+}
+
+/** Rasterize a serialized chart at `scale`× for crisp slides. */
+export async function svgToPngBlob({ svg, width, height }: ChartSvg, scale = PNG_SCALE): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Could not render the chart image."));
+      img.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available in this browser.");
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the PNG."))), "image/png")
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** CSV of the derived series exactly as plotted (raw keys and unformatted values). */
+export function chartSeriesCsv(data: ChartPoint[], labelKey: string, labelName: string, keys: string[]) {
+  return toCsv(
+    [labelName, ...keys],
+    data.map((d) => [String(d[labelKey] ?? ""), ...keys.map((k) => (typeof d[k] === "number" ? String(d[k]) : ""))]),
+    { escapeFormulas: true }
+  );
+}
+
+// "Echo360 viewing by module" -> "echo360-viewing-by-module"
+export function chartFileStem(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "chart"
+  );
+}
@@ -0,0 +1,77 @@
+import { linearFit } from "./correlation";
+
+// ---------- Text alternatives for charts ----------
+// "proportion" values are 0–1, "percent" values are already scaled to 0–100 (the Echo chart's right axis).
+export type ChartValueFormat = "proportion" | "percent" | "count";
+
+export type ChartSeries = {
+  key: string;
+  name: string;
+  format: ChartValueFormat;
+  baseline?: boolean; // overlay series: navigable and in the table, but left out of the summary
+};
+
+export type ChartPoint = Record<string, string | number | null | undefined>;
+
+// Change from first to last module (per the fitted trend) below this counts as flat
+const FLAT_PERCENT_POINTS = 5;
+const FLAT_COUNT_SHARE = 0.1;
+
+export function formatChartValue(format: ChartValueFormat, value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "no data";
+  if (format === "proportion") return `${(value * 100).toFixed(1)}%`;
+  if (format === "percent") return `${value.toFixed(1)}%`;
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+function seriesValues(data: ChartPoint[], labelKey: string, key: string) {
+  const out: { label: string; index: number; value: number }[] = [];
+  data.forEach((d, index) => {
+    const v = d[key];
+    if (typeof v === "number" && Number.isFinite(v)) out.push({ label: String(d[labelKey] ?? ""), index, value: v });
+  });
+  return out;
+}
+
+function describeTrend(series: ChartSeries, points: { index: number; value: number }[]) {
+  const fit = linearFit(
+    points.map((p) => p.index),
+    points.map((p) => p.value)
+  );
+  if (!fit) return "no clear trend";
+  const span = points[points.length - 1].index - points[0].index;
+  const change = fit.slope * span;
+  const inPoints = series.format === "proportion" ? change * 100 : change;
+  const mean = points.reduce((acc, p) => acc + p.value, 0) / points.length;
+  const flat =
+    series.format === "count"
+      ? Math.abs(change) < Math.abs(mean) * FLAT_COUNT_SHARE
+      : Math.abs(inPoints) < FLAT_PERCENT_POINTS;
+  if (flat) return "roughly flat from first to last module";
+  const amount =
+    series.format === "count"
+      ? formatChartValue("count", Math.abs(change))
+      : `${Math.abs(inPoints).toFixed(1)} pts`;
+  return `${change > 0 ? "rising" : "falling"} about ${amount} from first to last module`;
+}
+
+/** One sentence per (non-baseline) series: highest and lowest module plus the trend direction. */
+export function summarizeChart(data: ChartPoint[], labelKey: string, series: ChartSeries[]): string[] {
+  const out: string[] = [];
+  for (const s of series) {
+    if (s.baseline) continue;
+    const points = seriesValues(data, labelKey, s.key);
+    if (points.length === 0) continue;
+    if (points.length === 1) {
+      out.push(`${s.name}: only ${points[0].label} has data (${formatChartValue(s.format, points[0].value)}).`);
+      continue;
+    }
+    // First occurrence wins on ties, so the earliest module is named
+    const high = points.reduce((best, p) => (p.value > best.value ? p : best));
+    const low = points.reduce((best, p) => (p.value < best.value ? p : best));
+    out.push(
+      `${s.name}: highest in ${high.label} (${formatChartValue(s.format, high.value)}), lowest in ${low.label} (${formatChartValue(s.format, low.value)}); ${describeTrend(s, points)}.`
+    );
+  }
+  return out;
+}
@@ -0,0 +1,192 @@
+import type { MetricLink } from "./aiAnalysis";
+import { errorBodyMessage } from "./apiClient";
+import type { AnalyzeResponse, AnyRow } from "./schema";
+import { isEventStream, readEventStream } from "./sse";
+
+// ---------- "Ask about this course" chat ----------
+// The question, earlier turns and the course's aggregate tables go to a pluggable endpoint
+// (NEXT_PUBLIC_CHAT_URL, else <api base>/chat). Every context row carries a `ref` such as
+// "echo-modules:3"; answers cite rows as [ref:echo-modules:3] and the panel turns those into
+// links to the table row. `npm run mock:chat` serves a local stand-in.
+
+export type ChatRole = "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  content: string;
+  at: string; // ISO timestamp
+  error?: boolean; // assistant turn that failed or was stopped; not sent back as history
+};
+
+export type ChatTable = "echo-summary" | "echo-modules" | "gradebook-summary" | "gradebook-modules";
+
+type ChatTableSpec = {
+  title: string;
+  label: (row: AnyRow) => string; // what the table filter should search for
+  rows: (result: AnalyzeResponse) => AnyRow[];
+};
+
+const CHAT_TABLES: Record<ChatTable, ChatTableSpec> = {
+  "echo-summary": { title: "Echo Summary", label: (r) => r["Media Title"], rows: (r) => r.echo?.summary ?? [] },
+  "echo-modules": { title: "Echo Module Table", label: (r) => r.Module, rows: (r) => r.echo?.modules ?? [] },
+  "gradebook-summary": { title: "Gradebook Summary", label: (r) => r.Metric, rows: (r) => r.grades?.summary ?? [] },
+  "gradebook-modules": {
+    title: "Gradebook Module Metrics",
+    label: (r) => r.Module,
+    rows: (r) => r.grades?.module_metrics ?? [],
+  },
+};
+
+// Keeps the request small; rows past the cap are summarized by count
+const MAX_CONTEXT_ROWS = 200;
+
+export function chatEndpoint(apiBase: string) {
+  const explicit = process.env.NEXT_PUBLIC_CHAT_URL;
+  if (explicit) return explicit;
+  return apiBase ? `${apiBase.replace(/\/$/, "")}/chat` : "";
+}
+
+/**
+ * Aggregate tables only: per-student rows never leave the browser. Pass the privacy-aware
+ * result so pseudonymized titles are what the endpoint sees.
+ */
+export function buildChatContext(result: AnalyzeResponse, courseId: string) {
+  const tables = Object.fromEntries(
+    (Object.keys(CHAT_TABLES) as ChatTable[]).map((id) => {
+      const spec = CHAT_TABLES[id];
+      const rows = spec.rows(result);
+      return [
+        id,
+        {
+          title: spec.title,
+          total_rows: rows.length,
+          rows: rows.slice(0, MAX_CONTEXT_ROWS).map((row, idx) => ({ ref: `${id}:${idx + 1}`, ...row })),
+        },
+      ];
+    })
+  );
+  return { course_id: courseId.trim(), kpis: result.kpis ?? {}, tables };
+}
+
+// ---------- Citations ----------
+export type ChatSegment = { kind: "text"; text: string } | { kind: "cite"; ref: string; table: ChatTable; row: number };
+
+const CITATION = /\[ref:([a-z-]+):(\d+)\]/g;
+
+export function splitCitations(text: string): ChatSegment[] {
+  const out: ChatSegment[] = [];
+  let last = 0;
+  for (const m of Array.from(text.matchAll(CITATION))) {
+    const table = m[1] as ChatTable;
+    if (!CHAT_TABLES[table]) continue;
+    if (m.index! > last) out.push({ kind: "text", text: text.slice(last, m.index) });
+    out.push({ kind: "cite", ref: `${m[1]}:${m[2]}`, table, row: Number(m[2]) });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) out.push({ kind: "text", text: text.slice(last) });
+  return out;
+}
+
+/** Display label and table link for a cited row, or null when the row does not exist. */
+export function resolveCitation(
+  seg: Extract<ChatSegment, { kind: "cite" }>,
+  result: AnalyzeResponse | null
+): { label: string; link: MetricLink } | null {
+  if (!result) return null;
+  const spec = CHAT_TABLES[seg.table];
+  const row = spec.rows(result)[seg.row - 1];
+  if (!row) return null;
+  const label = String(spec.label(row) ?? "").trim();
+  if (!label) return null;
+  return { label, link: { table: seg.table, query: label } };
+}
+
+// ---------- Streaming ----------
+export type ChatRequest = {
+  endpoint: string;
+  question: string;
+  history: ChatMessage[];
+  context: ReturnType<typeof buildChatContext>;
+  signal?: AbortSignal;
+  onDelta: (text: string) => void;
+};
+
+// One SSE `data:` payload: plain text, or JSON with a `delta` / `text` field
+function sseDelta(data: string): string | null {
+  if (data === "[DONE]") return null;
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed === "string") return parsed;
+    if (parsed && typeof parsed === "object") {
+      if (typeof parsed.error === "string") throw new Error(parsed.error);
+      return typeof parsed.delta === "string" ? parsed.delta : typeof parsed.text === "string" ? parsed.text : "";
+    }
+  } catch (e) {
+    if (e instanceof SyntaxError) return data;
+    throw e;
+  }
+  return "";
+}
+
+/**
+ * POST the question and stream the answer. Accepts `text/event-stream` (SSE) or a plain
+ * chunked text body. Resolves with the full answer; rejects with an AbortError when stopped.
+ */
+export async function streamChat({ endpoint, question, history, context, signal, onDelta }: ChatRequest) {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "content-type": "application/json", accept: "text/event-stream, text/plain" },
+    body: JSON.stringify({
+      question,
+      history: history.filter((m) => !m.error).map((m) => ({ role: m.role, content: m.content })),
+      context,
+      citation_format: "[ref:<table>:<row>]",
+    }),
+    signal,
+  });
+  if (!res.ok) {
+    const detail = errorBodyMessage(await res.text().catch(() => ""));
+    throw new Error(`Chat endpoint error (${res.status})${detail ? `: ${detail}` : ""}`);
+  }
+  if (!res.body) {
+    const txt = await res.text();
+    onDelta(txt);
+    return txt;
+  }
+
+  let answer = "";
+  const emit = (text: string) => {
+    if (!text) return;
+    answer += text;
+    onDelta(text);
+  };
+
+  if (isEventStream(res)) {
+    await readEventStream(res.body, (data) => {
+      const delta = sseDelta(data);
+      if (delta === null) return false;
+      emit(delta);
+    });
+    return answer;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    emit(decoder.decode(value, { stream: !done }));
+    if (done) return answer;
+  }
+}
+
+export function normalizeChat(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((m) => m && (m.role === "user" || m.role === "assistant") && typeof m.content === "string")
+    .map((m) => ({
+      role: m.role,
+      content: m.content,
+      at: typeof m.at === "string" ? m.at : new Date().toISOString(),
+      ...(m.error ? { error: true } : {}),
+    }));
+}
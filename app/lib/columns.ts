@@ -0,0 +1,83 @@
+import type { EchoModuleRow, EchoSummaryRow, GradeModuleRow, StudentRow } from "./schema";
+
+// ---------- Column presets (match Streamlit intent) ----------
+export const ECHO_SUMMARY_COLS: (keyof EchoSummaryRow)[] = [
+  "Media Title",
+  "Video Duration",
+  "# of Unique Views",
+  "Total Views",
+  "Total Watch Time (Min)",
+  "Average View %",
+  "% of Students Viewing",
+  "% of Video Viewed Overall",
+];
+
+export const ECHO_MODULE_COLS: (keyof EchoModuleRow)[] = ["Module", "Average View %", "# of Students Viewing", "Overall View %", "# of Students"];
+
+export const GRADEBOOK_MODULE_COLS: (keyof GradeModuleRow)[] = ["Module", "Avg % Turned In", "Avg Average Excluding Zeros", "n_assignments"];
+
+export const STUDENT_COLS: (keyof StudentRow)[] = [
+  "Student",
+  "Email",
+  "Section",
+  "Current Score",
+  "Letter Grade",
+  "% Turned In",
+  "Total Watch Time (Min)",
+  "# of Media Viewed",
+  "% of Media Viewed",
+];
+
+export const ECHO_SUMMARY_PERCENT_COLS = ["Average View %", "% of Students Viewing", "% of Video Viewed Overall"];
+export const ECHO_MODULE_PERCENT_COLS = ["Average View %", "Overall View %"];
+export const GRADEBOOK_MODULE_PERCENT_COLS = ["Avg % Turned In", "Avg Average Excluding Zeros"];
+export const STUDENT_PERCENT_COLS = ["Current Score", "% Turned In", "% of Media Viewed"];
+
+// ---------- Column help text (from helptext.py) ----------
+export const COLUMN_HELP_TEXT: Record<string, string> = {
+  // Echo Summary
+  "Media Title": "Name of the Echo360 media item as published to students.",
+  "Video Duration": "Total runtime of the media in hours:minutes:seconds.",
+  "# of Unique Views": "Distinct students who watched this media at least once.",
+  "# of Unique Viewers": "Distinct students who watched this media at least once.",
+  "Total Views": "Total number of views across all students.",
+  "Total Watch Time (Min)": "Total minutes watched across all viewers.",
+  "Average View %": "Average portion of the video watched per student viewer.",
+  "% of Students Viewing": "Percent of enrolled students who viewed this media.",
+  "% of Video Viewed Overall": "Share of total video minutes watched across all viewers.",
+
+  // Echo Module
+  "Module": "Canvas module that contains these Echo360 media items or assignments.",
+  "# of Students Viewing": "Students who watched any Echo360 media within this module.",
+  "Overall View %": "Combined percentage of media watched by the viewing students.",
+  "# of Students": "Total students in the course for comparison to viewers.",
+
+  // Gradebook Module
+  "Avg % Turned In": "Average submission rate for assignments within the module.",
+  "Avg Average Excluding Zeros": "Mean assignment score ignoring missing (zero) submissions.",
+  "n_assignments": "Number of assignments mapped to the module.",
+
+  // Students
+  "Student": "Student name from the Canvas roster (or the Echo360 user when not on the roster).",
+  "Current Score": "Canvas current score: graded work only, ungraded items ignored.",
+  "Letter Grade": "Canvas current grade, or the default grading scheme applied to the current score.",
+  "% Turned In": "Share of the student's assignments with a non-zero score (excused items skipped).",
+  "# of Media Viewed": "Echo360 media this student watched at least once.",
+  "% of Media Viewed": "Share of all course media this student watched at least once.",
+  "At Risk": "Matches the at-risk rule set on the Students tab.",
+};
+
+// Pick preset columns that exist in the rows, falling back to every key when the preset doesn't match
+export function resolveColumns(rows: Record<string, any>[], columns?: string[]) {
+  if (!rows || rows.length === 0) return [];
+  const keys = Object.keys(rows[0] ?? {});
+  if (!columns || columns.length === 0) return keys;
+
+  const set = new Set(keys);
+  const picked = columns.filter((c) => set.has(c));
+
+  // Don’t collapse to 1 col if mismatch—fall back to all keys
+  if (picked.length <= 1 && keys.length > 1) return keys;
+
+  return picked;
+}
@@ -0,0 +1,105 @@
+import { DELTA_PREFIX } from "./format";
+import type { AnyRow } from "./schema";
+
+// ---------- Term-over-term comparison ----------
+
+// Module names are matched case- and whitespace-insensitively across runs
+export function moduleMatchKey(name: string) {
+  return String(name ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export const BASELINE_SUFFIX = " (baseline)";
+
+export type ComparedTable = {
+  rows: AnyRow[];
+  columns: string[];
+  percentCols: string[];
+};
+
+/**
+ * Join two module tables by module name. Each metric becomes three columns: current value,
+ * baseline value and the signed difference. Current module order wins; baseline-only modules go last.
+ */
+export function compareModuleTables<T extends { Module: string }>(
+  current: T[],
+  baseline: T[],
+  metrics: (keyof T & string)[],
+  percentMetrics: string[]
+): ComparedTable {
+  const baseByKey = new Map<string, T>();
+  for (const r of baseline) {
+    const k = moduleMatchKey(r.Module);
+    if (k && !baseByKey.has(k)) baseByKey.set(k, r);
+  }
+
+  const seen = new Set<string>();
+  const rows: AnyRow[] = [];
+
+  const addRow = (module: string, cur: T | undefined, base: T | undefined) => {
+    const row: AnyRow = { Module: module };
+    for (const m of metrics) {
+      const c = cur ? (cur[m] as unknown as number | null) : null;
+      const b = base ? (base[m] as unknown as number | null) : null;
+      row[m] = c;
+      row[`${m}${BASELINE_SUFFIX}`] = b;
+      row[`${DELTA_PREFIX}${m}`] = typeof c === "number" && typeof b === "number" ? c - b : null;
+    }
+    row.Status = cur && base ? "In both" : cur ? "Current only" : "Baseline only";
+    rows.push(row);
+  };
+
+  for (const r of current) {
+    const k = moduleMatchKey(r.Module);
+    seen.add(k);
+    addRow(r.Module, r, baseByKey.get(k));
+  }
+  for (const r of baseline) {
+    const k = moduleMatchKey(r.Module);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    addRow(r.Module, undefined, r);
+  }
+
+  const columns = ["Module"];
+  const percentCols: string[] = [];
+  for (const m of metrics) {
+    const triple = [m, `${m}${BASELINE_SUFFIX}`, `${DELTA_PREFIX}${m}`];
+    columns.push(...triple);
+    if (percentMetrics.includes(m)) percentCols.push(...triple);
+  }
+  columns.push("Status");
+
+  return { rows, columns, percentCols };
+}
+
+// Merge baseline rows into chart data by module name; baseline-only modules are appended
+export function mergeBaseline<D, B>(
+  data: D[],
+  moduleOf: (d: D) => string,
+  baseline: B[],
+  baseModuleOf: (b: B) => string,
+  pick: (b: B | undefined) => Record<string, number | null>,
+  emptyCurrent: (module: string) => D
+): (D & Record<string, number | null>)[] {
+  const byKey = new Map<string, B>();
+  for (const b of baseline) {
+    const k = moduleMatchKey(baseModuleOf(b));
+    if (k && !byKey.has(k)) byKey.set(k, b);
+  }
+
+  const seen = new Set<string>();
+  const out = data.map((d) => {
+    const k = moduleMatchKey(moduleOf(d));
+    seen.add(k);
+    return { ...d, ...pick(byKey.get(k)) };
+  });
+
+  for (const b of baseline) {
+    const k = moduleMatchKey(baseModuleOf(b));
+    if (seen.has(k)) continue;
+    seen.add(k);
+    out.push({ ...emptyCurrent(baseModuleOf(b)), ...pick(b) });
+  }
+
+  return out;
+}
@@ -0,0 +1,148 @@
+import { moduleMatchKey } from "./comparison";
+import type { EchoModuleRow, GradeModuleRow } from "./schema";
+
+// ---------- Module-level viewing vs. performance ----------
+
+export type ModulePoint = {
+  module: string;
+  viewPct: number; // Echo "Overall View %" (0–1)
+  score: number; // Gradebook "Avg Average Excluding Zeros" (0–1)
+  turnedIn: number | null; // Gradebook "Avg % Turned In" (0–1)
+};
+
+export type LinearFit = { slope: number; intercept: number };
+
+export type OutlierModule = ModulePoint & {
+  expected: number; // score predicted by the trend line
+  residual: number; // actual − expected
+  z: number; // residual in standard deviations
+};
+
+export type CorrelationResult = {
+  points: ModulePoint[];
+  n: number;
+  pearson: number | null;
+  spearman: number | null;
+  fit: LinearFit | null;
+  outliers: OutlierModule[];
+};
+
+// Below this many modules the coefficients are shown but flagged as unreliable
+export const MIN_RELIABLE_N = 8;
+const OUTLIER_Z = 1.5;
+
+/** One point per module present in both tables with both values, matched like the comparison view. */
+export function joinModuleMetrics(echoModules: EchoModuleRow[], gradeModules: GradeModuleRow[]): ModulePoint[] {
+  const grades = new Map<string, GradeModuleRow>();
+  for (const g of gradeModules) {
+    const k = moduleMatchKey(g.Module);
+    if (k && !grades.has(k)) grades.set(k, g);
+  }
+
+  const out: ModulePoint[] = [];
+  for (const e of echoModules) {
+    const g = grades.get(moduleMatchKey(e.Module));
+    const viewPct = e["Overall View %"];
+    const score = g?.["Avg Average Excluding Zeros"] ?? null;
+    if (viewPct === null || score === null) continue;
+    out.push({ module: e.Module, viewPct, score, turnedIn: g?.["Avg % Turned In"] ?? null });
+  }
+  return out;
+}
+
+function mean(values: number[]) {
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3 || ys.length !== n) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  // A constant series has no defined correlation
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// Ranks starting at 1; ties share their average rank
+function ranks(values: number[]) {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) out[order[k][1]] = avg;
+    i = j + 1;
+  }
+  return out;
+}
+
+// Pearson on ranks, which handles ties correctly
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3 || ys.length !== xs.length) return null;
+  return pearson(ranks(xs), ranks(ys));
+}
+
+// Ordinary least squares y = slope·x + intercept
+export function linearFit(xs: number[], ys: number[]): LinearFit | null {
+  const n = xs.length;
+  if (n < 2 || ys.length !== n) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  return { slope, intercept: my - slope * mx };
+}
+
+export function correlateModules(echoModules: EchoModuleRow[], gradeModules: GradeModuleRow[]): CorrelationResult {
+  const points = joinModuleMetrics(echoModules, gradeModules);
+  const xs = points.map((p) => p.viewPct);
+  const ys = points.map((p) => p.score);
+  const fit = linearFit(xs, ys);
+
+  let outliers: OutlierModule[] = [];
+  if (fit && points.length >= 3) {
+    const withResiduals = points.map((p) => {
+      const expected = fit.slope * p.viewPct + fit.intercept;
+      return { ...p, expected, residual: p.score - expected };
+    });
+    // Residual standard error with n − 2 degrees of freedom
+    const sse = withResiduals.reduce((acc, p) => acc + p.residual ** 2, 0);
+    const se = points.length > 2 ? Math.sqrt(sse / (points.length - 2)) : 0;
+    if (se > 0) {
+      outliers = withResiduals
+        .map((p) => ({ ...p, z: p.residual / se }))
+        .filter((p) => Math.abs(p.z) >= OUTLIER_Z)
+        .sort((a, b) => Math.abs(b.z) - Math.abs(a.z));
+    }
+  }
+
+  return { points, n: points.length, pearson: pearson(xs, ys), spearman: spearman(xs, ys), fit, outliers };
+}
+
+// Conventional rough wording for |r|
+export function describeStrength(r: number | null) {
+  if (r === null) return "not enough data";
+  const a = Math.abs(r);
+  const dir = r > 0 ? "positive" : "negative";
+  if (a < 0.1) return "no meaningful relationship";
+  if (a < 0.3) return `weak ${dir}`;
+  if (a < 0.5) return `moderate ${dir}`;
+  return `strong ${dir}`;
+}
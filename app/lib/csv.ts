@@ -0,0 +1,96 @@
+// ---------- Minimal RFC 4180 CSV parsing (quoted fields, CRLF, BOM) ----------
+export type ParsedCsv = {
+  headers: string[];
+  rows: string[][];
+};
+
+export function parseCsv(text: string): string[][] {
+  const out: string[][] = [];
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      out.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    out.push(row);
+  }
+
+  // Drop fully blank lines
+  return out.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function parseCsvWithHeaders(text: string): ParsedCsv {
+  const all = parseCsv(text);
+  const headers = (all[0] ?? []).map((h) => h.trim());
+  return { headers, rows: all.slice(1) };
+}
+
+export async function readCsvFile(file: File): Promise<ParsedCsv> {
+  const text = await file.text();
+  return parseCsvWithHeaders(text);
+}
+
+// Zip header names with cell values into an object row
+export function toRecord(headers: string[], cells: string[]): Record<string, string> {
+  const rec: Record<string, string> = {};
+  headers.forEach((h, idx) => {
+    rec[h] = cells[idx] ?? "";
+  });
+  return rec;
+}
+
+// Quote a cell only when it needs it (RFC 4180)
+function csvCell(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+// Excel and Sheets run cells starting with = + - @ as formulas. A leading ' keeps them as text;
+// plain numbers such as -4.5 are left alone.
+function neutralizeFormula(v: string) {
+  return /^[=+\-@\t\r]/.test(v) && !/^[+-]?\d+(\.\d+)?%?$/.test(v) ? `'${v}` : v;
+}
+
+/**
+ * Serialize rows as CSV. Set `escapeFormulas` for files people open in a spreadsheet, so names or
+ * titles taken from uploads can't run as formulas; leave it off for CSV that is parsed again.
+ */
+export function toCsv(headers: string[], rows: string[][], opts: { escapeFormulas?: boolean } = {}): string {
+  const cell = opts.escapeFormulas ? (v: string) => csvCell(neutralizeFormula(v)) : csvCell;
+  return [headers, ...rows].map((r) => r.map(cell).join(",")).join("\r\n");
+}
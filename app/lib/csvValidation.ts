@@ -0,0 +1,148 @@
+import { ParsedCsv, toRecord } from "./csv";
+
+export type CsvKind = "canvas" | "echo";
+
+// One expected column, with the header spellings each export is known to use
+type ColumnSpec = {
+  label: string;
+  candidates: string[];
+  required: boolean;
+};
+
+export type ColumnCheck = {
+  label: string;
+  required: boolean;
+  found: string | null;
+};
+
+export type CsvValidationReport = {
+  kind: CsvKind;
+  detectedKind: CsvKind | null;
+  checks: ColumnCheck[];
+  rowCount: number;
+  headers: string[];
+  preview: Record<string, string>[];
+  errors: string[];
+  warnings: string[];
+  blocking: boolean;
+};
+
+// Canvas Gradebook export (Grades > Export)
+const CANVAS_COLUMNS: ColumnSpec[] = [
+  { label: "Student", candidates: ["Student"], required: true },
+  { label: "ID", candidates: ["ID"], required: true },
+  { label: "SIS User ID", candidates: ["SIS User ID"], required: false },
+  { label: "SIS Login ID", candidates: ["SIS Login ID"], required: false },
+  { label: "Section", candidates: ["Section"], required: true },
+  { label: "Current Score", candidates: ["Current Score", "Current Points"], required: false },
+  { label: "Final Score", candidates: ["Final Score", "Final Points"], required: false },
+];
+
+// Echo360 course media analytics export
+const ECHO_COLUMNS: ColumnSpec[] = [
+  { label: "Media Name", candidates: ["Media Name", "Media Title"], required: true },
+  { label: "Duration", candidates: ["Duration", "Video Duration", "Media Duration"], required: true },
+  { label: "User Email", candidates: ["User Email", "Email", "User Name", "Student Email"], required: true },
+  { label: "Total View Time", candidates: ["Total View Time", "View Time", "Total Watch Time"], required: true },
+  { label: "Total Views", candidates: ["Total Views", "Views"], required: false },
+  { label: "Average View Time", candidates: ["Average View Time", "Avg View Time"], required: false },
+  { label: "Media ID", candidates: ["Media ID", "MediaId"], required: false },
+];
+
+// Canvas inserts these metadata rows directly under the header
+export const CANVAS_META_ROW = /^(points possible|manual posting|muted)$/i;
+
+// Assignment columns look like "Homework 1 (123456)"
+export const CANVAS_ASSIGNMENT_HEADER = /\(\d+\)\s*$/;
+
+const PREVIEW_ROWS = 5;
+
+function findColumn(headers: string[], candidates: string[]) {
+  const lower = headers.map((h) => h.toLowerCase());
+  for (const c of candidates) {
+    const idx = lower.indexOf(c.toLowerCase());
+    if (idx >= 0) return headers[idx];
+  }
+  return null;
+}
+
+// Actual header used for an expected column, e.g. ("echo", "Duration") -> "Video Duration"
+export function resolveCsvColumn(kind: CsvKind, label: string, headers: string[]) {
+  const spec = (kind === "canvas" ? CANVAS_COLUMNS : ECHO_COLUMNS).find((s) => s.label === label);
+  return spec ? findColumn(headers, spec.candidates) : null;
+}
+
+function runChecks(headers: string[], specs: ColumnSpec[]): ColumnCheck[] {
+  return specs.map((s) => ({ label: s.label, required: s.required, found: findColumn(headers, s.candidates) }));
+}
+
+function matchRatio(checks: ColumnCheck[]) {
+  const required = checks.filter((c) => c.required);
+  if (required.length === 0) return 0;
+  return required.filter((c) => c.found).length / required.length;
+}
+
+// Guess which export a header row belongs to, or null if it looks like neither
+export function detectCsvKind(headers: string[]): CsvKind | null {
+  const canvas = matchRatio(runChecks(headers, CANVAS_COLUMNS));
+  const echo = matchRatio(runChecks(headers, ECHO_COLUMNS));
+  if (canvas === 0 && echo === 0) return null;
+  return canvas >= echo ? "canvas" : "echo";
+}
+
+export function csvKindLabel(kind: CsvKind) {
+  return kind === "canvas" ? "Canvas Gradebook" : "Echo360 Analytics";
+}
+
+export function validateCsv(kind: CsvKind, parsed: ParsedCsv): CsvValidationReport {
+  const { headers, rows } = parsed;
+  const checks = runChecks(headers, kind === "canvas" ? CANVAS_COLUMNS : ECHO_COLUMNS);
+  const detectedKind = detectCsvKind(headers);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (headers.length === 0) {
+    errors.push("The file is empty or is not a CSV.");
+  }
+
+  if (detectedKind && detectedKind !== kind) {
+    errors.push(`This looks like a ${csvKindLabel(detectedKind)} export, but this slot expects the ${csvKindLabel(kind)} export.`);
+  }
+
+  const missingRequired = checks.filter((c) => c.required && !c.found).map((c) => c.label);
+  if (headers.length > 0 && missingRequired.length > 0) {
+    errors.push(`Missing required column${missingRequired.length > 1 ? "s" : ""}: ${missingRequired.join(", ")}.`);
+  }
+
+  let dataRows = rows;
+
+  if (kind === "canvas") {
+    const metaRows = rows.filter((r) => CANVAS_META_ROW.test((r[0] ?? "").trim()));
+    dataRows = rows.filter((r) => !CANVAS_META_ROW.test((r[0] ?? "").trim()));
+
+    if (headers.length > 0 && !metaRows.some((r) => /^points possible$/i.test((r[0] ?? "").trim()))) {
+      errors.push('Missing the "Points Possible" row. Re-export the gradebook from Canvas Grades > Export.');
+    }
+
+    if (headers.length > 0 && !headers.some((h) => CANVAS_ASSIGNMENT_HEADER.test(h))) {
+      warnings.push('No assignment columns found (expected headers like "Homework 1 (123456)").');
+    }
+  }
+
+  if (headers.length > 0 && dataRows.length === 0) {
+    errors.push("The file has a header row but no data rows.");
+  }
+
+  return {
+    kind,
+    detectedKind,
+    checks,
+    rowCount: dataRows.length,
+    headers,
+    preview: dataRows.slice(0, PREVIEW_ROWS).map((r) => toRecord(headers, r)),
+    errors,
+    warnings,
+    blocking: errors.length > 0,
+  };
+}
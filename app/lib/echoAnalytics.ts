@@ -0,0 +1,81 @@
+import { ParsedCsv } from "./csv";
+import { resolveCsvColumn } from "./csvValidation";
+import { toNumber } from "./format";
+
+// ---------- Echo360 analytics CSV model ----------
+export type EchoMedia = {
+  title: string;
+  durationSec: number | null;
+};
+
+// One student's viewing of one media item (repeated export rows are summed)
+export type EchoView = {
+  media: string;
+  user: string; // lowercased email or user name
+  viewSec: number;
+  views: number;
+};
+
+export type EchoAnalytics = {
+  media: EchoMedia[]; // in order of first appearance
+  views: EchoView[];
+};
+
+// Accepts "h:mm:ss", "mm:ss" or plain seconds
+export function parseDurationSeconds(v: any): number | null {
+  const s = String(v ?? "").trim();
+  if (!s) return null;
+  if (s.includes(":")) {
+    const parts = s.split(":").map((p) => Number(p));
+    if (parts.some((p) => !Number.isFinite(p))) return null;
+    return parts.reduce((acc, p) => acc * 60 + p, 0);
+  }
+  return toNumber(s);
+}
+
+export function parseEchoAnalytics(parsed: ParsedCsv): EchoAnalytics {
+  const { headers, rows } = parsed;
+  const col = (label: string) => {
+    const h = resolveCsvColumn("echo", label, headers);
+    return h ? headers.indexOf(h) : -1;
+  };
+
+  const mediaIdx = col("Media Name");
+  const durationIdx = col("Duration");
+  const userIdx = col("User Email");
+  const viewTimeIdx = col("Total View Time");
+  const viewsIdx = col("Total Views");
+
+  const media = new Map<string, EchoMedia>();
+  const views = new Map<string, EchoView>();
+
+  for (const r of rows) {
+    const title = mediaIdx >= 0 ? (r[mediaIdx] ?? "").trim() : "";
+    if (!title) continue;
+
+    const duration = durationIdx >= 0 ? parseDurationSeconds(r[durationIdx]) : null;
+    const existing = media.get(title);
+    if (!existing) {
+      media.set(title, { title, durationSec: duration });
+    } else if (duration !== null && (existing.durationSec === null || duration > existing.durationSec)) {
+      existing.durationSec = duration;
+    }
+
+    const user = userIdx >= 0 ? (r[userIdx] ?? "").trim().toLowerCase() : "";
+    if (!user) continue;
+
+    const viewSec = (viewTimeIdx >= 0 ? parseDurationSeconds(r[viewTimeIdx]) : null) ?? 0;
+    const count = (viewsIdx >= 0 ? toNumber(r[viewsIdx]) : null) ?? (viewSec > 0 ? 1 : 0);
+
+    const key = `${title}\u0000${user}`;
+    const v = views.get(key);
+    if (v) {
+      v.viewSec += viewSec;
+      v.views += count;
+    } else {
+      views.set(key, { media: title, user, viewSec, views: count });
+    }
+  }
+
+  return { media: Array.from(media.values()), views: Array.from(views.values()) };
+}
@@ -0,0 +1,125 @@
+import { resolveColumns } from "./columns";
+import { toNumber } from "./format";
+
+type Row = Record<string, any>;
+
+export type SheetSpec = {
+  name: string;
+  rows: Row[];
+  columns?: string[];
+  percentCols?: string[];
+};
+
+export type KpiEntry = {
+  label: string;
+  value: number | string | null;
+  percent?: boolean;
+};
+
+const PERCENT_FORMAT = "0.0%";
+const DURATION_FORMAT = "[h]:mm:ss";
+const NUMBER_FORMAT = "#,##0.##";
+const SECONDS_PER_DAY = 86400;
+
+// Excel limits sheet names to 31 chars and forbids a few characters
+function safeSheetName(name: string) {
+  return name.replace(/[\\\/\?\*\[\]:]/g, " ").slice(0, 31);
+}
+
+type XlsxCell = { t: "n" | "s"; v: number | string; z?: string };
+
+function toXlsxCell(key: string, value: any, percentCols?: string[]): XlsxCell | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  const n = toNumber(value);
+
+  // Percent columns hold proportions (0–1); keep them numeric and let Excel format them
+  if (percentCols?.includes(key)) {
+    return n !== null ? { t: "n", v: n, z: PERCENT_FORMAT } : { t: "s", v: String(value) };
+  }
+
+  // Video Duration arrives in seconds; Excel times are fractions of a day
+  if (key === "Video Duration" && n !== null) {
+    return { t: "n", v: n / SECONDS_PER_DAY, z: DURATION_FORMAT };
+  }
+
+  if (typeof value === "number") return { t: "n", v: value, z: NUMBER_FORMAT };
+  if (n !== null && String(value).match(/^[\d,\.\-]+%?$/)) return { t: "n", v: n, z: NUMBER_FORMAT };
+
+  return { t: "s", v: String(value) };
+}
+
+function columnWidth(col: string, rows: Row[]) {
+  const sample = rows.slice(0, 80);
+  let max = col.length;
+  for (const r of sample) {
+    const len = String(r?.[col] ?? "").length;
+    if (len > max) max = len;
+  }
+  return Math.min(Math.max(max + 2, 10), 60);
+}
+
+/**
+ * Build an .xlsx workbook (one sheet per table plus a KPI sheet) and trigger a download.
+ * xlsx is imported lazily so it stays out of the initial bundle.
+ */
+export async function exportWorkbook({
+  fileName,
+  courseId,
+  kpis,
+  sheets,
+}: {
+  fileName: string;
+  courseId: string;
+  kpis: KpiEntry[];
+  sheets: SheetSpec[];
+}) {
+  const XLSX = await import("xlsx");
+  const wb = XLSX.utils.book_new();
+
+  // KPI sheet first so it opens by default
+  const kpiSheet = XLSX.utils.aoa_to_sheet([
+    ["KPI", "Value"],
+    ["Course ID", courseId],
+  ]);
+  kpis.forEach((k, idx) => {
+    const rowIdx = idx + 2;
+    kpiSheet[XLSX.utils.encode_cell({ r: rowIdx, c: 0 })] = { t: "s", v: k.label };
+    if (k.value === null) {
+      kpiSheet[XLSX.utils.encode_cell({ r: rowIdx, c: 1 })] = { t: "s", v: "" };
+    } else if (typeof k.value === "number") {
+      kpiSheet[XLSX.utils.encode_cell({ r: rowIdx, c: 1 })] = {
+        t: "n",
+        v: k.value,
+        z: k.percent ? PERCENT_FORMAT : NUMBER_FORMAT,
+      };
+    } else {
+      kpiSheet[XLSX.utils.encode_cell({ r: rowIdx, c: 1 })] = { t: "s", v: k.value };
+    }
+  });
+  kpiSheet["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: kpis.length + 1, c: 1 } });
+  kpiSheet["!cols"] = [{ wch: 28 }, { wch: 18 }];
+  XLSX.utils.book_append_sheet(wb, kpiSheet, "KPIs");
+
+  for (const sheet of sheets) {
+    const cols = resolveColumns(sheet.rows, sheet.columns);
+    const ws = XLSX.utils.aoa_to_sheet([cols]);
+
+    sheet.rows.forEach((r, rowIdx) => {
+      cols.forEach((c, colIdx) => {
+        const cell = toXlsxCell(c, r?.[c], sheet.percentCols);
+        if (cell) ws[XLSX.utils.encode_cell({ r: rowIdx + 1, c: colIdx })] = cell;
+      });
+    });
+
+    ws["!ref"] = XLSX.utils.encode_range({
+      s: { r: 0, c: 0 },
+      e: { r: Math.max(sheet.rows.length, 1), c: Math.max(cols.length - 1, 0) },
+    });
+    ws["!cols"] = cols.map((c) => ({ wch: columnWidth(c, sheet.rows) }));
+
+    XLSX.utils.book_append_sheet(wb, ws, safeSheetName(sheet.name));
+  }
+
+  XLSX.writeFile(wb, fileName);
+}
@@ -0,0 +1,65 @@
+// ---------- Formatting helpers ----------
+export function toNumber(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  const s = String(v).trim();
+  if (!s) return null;
+  const cleaned = s.replace(/%/g, "").replace(/,/g, "");
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function formatNumberCell(n: number) {
+  if (!Number.isFinite(n)) return "";
+  if (Math.abs(n) >= 1000) return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+export function formatPercentCell(v: any) {
+  const n = toNumber(v);
+  if (n === null) return "";
+  const pct = n * 100;
+  return `${pct.toFixed(1)}%`;
+}
+
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "";
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+// Signed difference columns (comparison view) are prefixed with this
+export const DELTA_PREFIX = "Δ ";
+
+export function formatCell(key: string, value: any, percentCols?: string[]): string {
+  if (value === null || value === undefined) return "";
+
+  // Differences always show their sign, formatted like the column they compare
+  if (key.startsWith(DELTA_PREFIX)) {
+    const base = key.slice(DELTA_PREFIX.length);
+    const body = formatCell(base, value, percentCols?.includes(key) ? [base] : percentCols);
+    const n = toNumber(value);
+    return n !== null && n > 0 ? `+${body}` : body;
+  }
+
+  if (percentCols?.includes(key)) return formatPercentCell(value);
+
+  // Format Video Duration as hh:mm:ss
+  if (key === "Video Duration") {
+    const n = toNumber(value);
+    if (n !== null) return formatDuration(n);
+  }
+
+  // Auto percent if header includes % and value looks like proportion
+  const n = toNumber(value);
+  if (key.includes("%") && n !== null && n >= 0 && n <= 1.5) {
+    return formatPercentCell(n);
+  }
+
+  if (typeof value === "number") return formatNumberCell(value);
+  if (n !== null && String(value).match(/^[\d,\.\-]+%?$/)) return formatNumberCell(n);
+
+  return String(value);
+}
@@ -0,0 +1,233 @@
+import { formatDuration, toNumber } from "./format";
+import type { AnalyzeResponse } from "./schema";
+
+// ---------- KPI registry ----------
+// Every headline number is declared once here. The on-screen cards and the PDF render whichever
+// KPIs the user picked, in their order; the Excel KPI sheet always uses DEFAULT_KPI_IDS.
+
+export type KpiFormat = "count" | "percent" | "minutes" | "text";
+
+export type KpiTone = "good" | "warn" | "bad" | "neutral";
+
+// good/warn are cut-offs in the KPI's own units (proportions for percents)
+export type KpiThresholds = {
+  good: number;
+  warn: number;
+  higherIsBetter: boolean;
+};
+
+export type KpiValue = number | string | null;
+
+export type KpiDefinition = {
+  id: string;
+  label: string;
+  help: string;
+  format: KpiFormat;
+  compute: (result: AnalyzeResponse) => KpiValue;
+  thresholds?: KpiThresholds;
+};
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function numbers(values: (number | null | undefined)[]) {
+  return values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+}
+
+// Values of one gradebook summary Metric row across all assignments
+function summaryRowValues(result: AnalyzeResponse, metric: string) {
+  const row = result.grades?.summary?.find((r) => r.Metric === metric);
+  if (!row) return [];
+  return numbers(
+    Object.entries(row)
+      .filter(([key]) => key !== "Metric")
+      .map(([, value]) => toNumber(value))
+  );
+}
+
+export const KPI_REGISTRY: KpiDefinition[] = [
+  {
+    id: "studentsEnrolled",
+    label: "Students Enrolled",
+    help: "Unique students with Canvas enrollments included in these metrics.",
+    format: "count",
+    compute: (r) => {
+      const fromModules = r.echo?.modules?.[0]?.["# of Students"];
+      if (fromModules !== null && fromModules !== undefined) return fromModules;
+      return r.students?.length ? r.students.length : null;
+    },
+  },
+  {
+    id: "averageViewPercent",
+    label: "Average View %",
+    help: "Average Echo360 engagement percentage across all published media.",
+    format: "percent",
+    compute: (r) => mean(numbers((r.echo?.summary ?? []).map((row) => row["Average View %"]))),
+    thresholds: { good: 0.7, warn: 0.5, higherIsBetter: true },
+  },
+  {
+    id: "averageAssignmentGrade",
+    label: "Average Assignment Grade",
+    help: "Mean assignment score for the class, combining all available grades.",
+    format: "percent",
+    compute: (r) => mean(summaryRowValues(r, "Average Excluding Zeros")),
+    thresholds: { good: 0.8, warn: 0.7, higherIsBetter: true },
+  },
+  {
+    id: "medianLetterGrade",
+    label: "Median Letter Grade",
+    help: "Median letter grade calculated from current Canvas scores.",
+    format: "text",
+    compute: (r) => {
+      const v = r.kpis?.["Median Letter Grade"];
+      return v ? String(v) : null;
+    },
+  },
+  {
+    id: "medianWatchMinutes",
+    label: "Median Watch Time",
+    help: "Median total Echo360 watch time per student. Needs per-student rows.",
+    format: "minutes",
+    compute: (r) => median(numbers((r.students ?? []).map((s) => s["Total Watch Time (Min)"]))),
+  },
+  {
+    id: "lowReachMediaShare",
+    label: "Media Under 50% Viewers",
+    help: "Share of media items watched by fewer than half of enrolled students.",
+    format: "percent",
+    compute: (r) => {
+      const reach = numbers((r.echo?.summary ?? []).map((row) => row["% of Students Viewing"]));
+      return reach.length > 0 ? reach.filter((v) => v < 0.5).length / reach.length : null;
+    },
+    thresholds: { good: 0.2, warn: 0.4, higherIsBetter: false },
+  },
+  {
+    id: "missingSubmissionRate",
+    label: "Missing Submission Rate",
+    help: "Share of expected submissions not turned in, averaged across assignments.",
+    format: "percent",
+    compute: (r) => {
+      const turnedIn = mean(summaryRowValues(r, "% Turned In"));
+      return turnedIn !== null ? 1 - turnedIn : null;
+    },
+    thresholds: { good: 0.1, warn: 0.2, higherIsBetter: false },
+  },
+  {
+    id: "medianCurrentScore",
+    label: "Median Current Score",
+    help: "Median Canvas current score across enrolled students.",
+    format: "percent",
+    compute: (r) => {
+      const fromStudents = median(numbers((r.students ?? []).map((s) => s["Current Score"])));
+      if (fromStudents !== null) return fromStudents;
+      // Backend KPI is on Canvas' 0–100 scale
+      const v = toNumber(r.kpis?.["Median Current Score"]);
+      return v !== null ? v / 100 : null;
+    },
+    thresholds: { good: 0.8, warn: 0.7, higherIsBetter: true },
+  },
+  {
+    id: "totalWatchTime",
+    label: "Total Watch Time",
+    help: "Echo360 viewing time summed across all media and viewers.",
+    format: "minutes",
+    compute: (r) => {
+      const mins = numbers((r.echo?.summary ?? []).map((row) => row["Total Watch Time (Min)"]));
+      return mins.length > 0 ? mins.reduce((acc, v) => acc + v, 0) : null;
+    },
+  },
+  {
+    id: "mediaCount",
+    label: "Media Items",
+    help: "Echo360 media items in the export.",
+    format: "count",
+    compute: (r) => (r.echo?.summary?.length ? r.echo.summary.length : null),
+  },
+];
+
+export const DEFAULT_KPI_IDS = ["studentsEnrolled", "averageViewPercent", "averageAssignmentGrade", "medianLetterGrade"];
+
+export function getKpi(id: string) {
+  return KPI_REGISTRY.find((k) => k.id === id);
+}
+
+export function formatKpi(def: KpiDefinition, value: KpiValue): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "string") return value;
+  if (def.format === "percent") return `${(value * 100).toFixed(1)}%`;
+  if (def.format === "minutes") return formatDuration(value * 60);
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+export function kpiTone(def: KpiDefinition, value: KpiValue): KpiTone {
+  const t = def.thresholds;
+  if (!t || typeof value !== "number") return "neutral";
+  if (t.higherIsBetter) return value >= t.good ? "good" : value >= t.warn ? "warn" : "bad";
+  return value <= t.good ? "good" : value <= t.warn ? "warn" : "bad";
+}
+
+export const KPI_TONE_LABELS: Record<KpiTone, string> = {
+  good: "On track",
+  warn: "Watch",
+  bad: "Concern",
+  neutral: "",
+};
+
+export type EvaluatedKpi = {
+  def: KpiDefinition;
+  value: KpiValue;
+  tone: KpiTone;
+  baseline?: KpiValue;
+  delta?: number | null; // current − baseline, numeric KPIs only
+};
+
+export function evaluateKpis(
+  ids: string[],
+  result: AnalyzeResponse | null,
+  baseline?: AnalyzeResponse | null
+): EvaluatedKpi[] {
+  const out: EvaluatedKpi[] = [];
+  for (const id of ids) {
+    const def = getKpi(id);
+    if (!def) continue;
+    const value = result ? def.compute(result) : null;
+    const entry: EvaluatedKpi = { def, value, tone: kpiTone(def, value) };
+    if (baseline) {
+      entry.baseline = def.compute(baseline);
+      entry.delta = typeof value === "number" && typeof entry.baseline === "number" ? value - entry.baseline : null;
+    }
+    out.push(entry);
+  }
+  return out;
+}
+
+// ---------- Card selection ----------
+const KPI_SELECTION_KEY = "cle-dashboard:kpi-cards";
+
+export function loadKpiSelection(): string[] {
+  if (typeof window === "undefined") return DEFAULT_KPI_IDS;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(KPI_SELECTION_KEY) ?? "null");
+    if (!Array.isArray(parsed)) return DEFAULT_KPI_IDS;
+    const ids = parsed.filter((id) => typeof id === "string" && getKpi(id));
+    return ids.length > 0 ? ids : DEFAULT_KPI_IDS;
+  } catch {
+    return DEFAULT_KPI_IDS;
+  }
+}
+
+export function saveKpiSelection(ids: string[]) {
+  try {
+    window.localStorage.setItem(KPI_SELECTION_KEY, JSON.stringify(ids));
+  } catch {
+    // Storage full or disabled: the selection lasts until reload
+  }
+}
@@ -0,0 +1,311 @@
+import { throwIfAborted } from "./abort";
+import type { StageReporter } from "./analysisJob";
+import { CanvasGradebook, letterGrade, parseCanvasGradebook } from "./canvasGradebook";
+import { readCsvFile } from "./csv";
+import { EchoAnalytics, parseEchoAnalytics } from "./echoAnalytics";
+import { ModuleMapping, moduleFor, orderModules } from "./moduleMapping";
+import type {
+  AnalyzeResponse,
+  EchoModuleRow,
+  EchoSummaryRow,
+  GradeModuleRow,
+  GradeSummaryRow,
+  StudentRow,
+} from "./schema";
+
+// ---------- In-browser analysis engine ----------
+// Produces the same AnalyzeResponse shape as the /analyze backend, minus the AI analysis.
+
+export const LOCAL_ANALYSIS_NOTE = "AI analysis is not available for runs computed locally in the browser.";
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string) {
+  const out = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const list = out.get(k);
+    if (list) list.push(item);
+    else out.set(k, [item]);
+  }
+  return out;
+}
+
+function buildEchoTables(echo: EchoAnalytics, studentsTotal: number, mapping?: ModuleMapping | null) {
+  const viewsByMedia = groupBy(
+    echo.views.filter((v) => v.viewSec > 0 || v.views > 0),
+    (v) => v.media
+  );
+
+  const summary: EchoSummaryRow[] = echo.media.map((m) => {
+    const viewers = viewsByMedia.get(m.title) ?? [];
+    const dur = m.durationSec;
+    const totalSec = viewers.reduce((acc, v) => acc + v.viewSec, 0);
+    const totalViews = viewers.reduce((acc, v) => acc + v.views, 0);
+
+    const avgViewPct = dur && dur > 0 ? mean(viewers.map((v) => Math.min(1, v.viewSec / dur))) : null;
+    const overallPct =
+      dur && dur > 0 && viewers.length > 0 ? Math.min(1, totalSec / (dur * viewers.length)) : null;
+
+    return {
+      "Media Title": m.title,
+      "Video Duration": dur,
+      "# of Unique Views": viewers.length,
+      "Total Views": totalViews,
+      "Total Watch Time (Min)": totalSec / 60,
+      "Average View %": avgViewPct,
+      "% of Students Viewing": studentsTotal > 0 ? viewers.length / studentsTotal : null,
+      "% of Video Viewed Overall": overallPct,
+    };
+  });
+
+  const mediaByModule = groupBy(echo.media, (m) => moduleFor(mapping, "media", m.title));
+  const moduleNames = orderModules(Array.from(mediaByModule.keys()), mapping);
+
+  const modules: EchoModuleRow[] = moduleNames.map((module) => {
+    const media = mediaByModule.get(module) ?? [];
+    const titles = new Set(media.map((m) => m.title));
+    const durations = new Map(media.map((m) => [m.title, m.durationSec ?? 0]));
+
+    const moduleViews = echo.views.filter((v) => titles.has(v.media) && (v.viewSec > 0 || v.views > 0));
+    const viewers = new Set(moduleViews.map((v) => v.user));
+
+    const mediaAvgs = summary
+      .filter((r) => titles.has(r["Media Title"]))
+      .map((r) => r["Average View %"])
+      .filter((v): v is number => v !== null);
+
+    // Watched seconds (capped at each video's length) over everything the viewers could have watched
+    const totalDur = media.reduce((acc, m) => acc + (m.durationSec ?? 0), 0);
+    const watched = moduleViews.reduce((acc, v) => acc + Math.min(v.viewSec, durations.get(v.media) || v.viewSec), 0);
+    const overallPct = totalDur > 0 && viewers.size > 0 ? Math.min(1, watched / (totalDur * viewers.size)) : null;
+
+    return {
+      Module: module,
+      "Average View %": mean(mediaAvgs),
+      "# of Students Viewing": viewers.size,
+      "Overall View %": overallPct,
+      "# of Students": studentsTotal,
+    };
+  });
+
+  return { summary, modules };
+}
+
+function buildGradeTables(gradebook: CanvasGradebook, mapping?: ModuleMapping | null) {
+  const { assignments, students } = gradebook;
+
+  // Duplicate assignment names keep their Canvas id so columns stay unique
+  const nameCounts = groupBy(assignments, (a) => a.name);
+  const columnName = (a: CanvasGradebook["assignments"][number]) =>
+    (nameCounts.get(a.name)?.length ?? 0) > 1 ? a.header : a.name;
+
+  const perAssignment = assignments.map((a) => {
+    const pp = a.pointsPossible;
+    const eligible = students.filter((s) => s.scores[a.header] !== "EX");
+    const graded = eligible
+      .map((s) => s.scores[a.header])
+      .filter((v): v is number => typeof v === "number");
+    const nonZero = graded.filter((v) => v > 0);
+
+    return {
+      column: columnName(a),
+      module: moduleFor(mapping, "assignments", a.name),
+      average: pp && pp > 0 ? mean(graded.map((v) => v / pp)) : null,
+      averageExcludingZeros: pp && pp > 0 ? mean(nonZero.map((v) => v / pp)) : null,
+      turnedIn: eligible.length > 0 ? nonZero.length / eligible.length : null,
+    };
+  });
+
+  const metricRow = (metric: string, pick: (a: (typeof perAssignment)[number]) => number | null) => {
+    const row: GradeSummaryRow = { Metric: metric };
+    for (const a of perAssignment) row[a.column] = pick(a);
+    return row;
+  };
+
+  const summary: GradeSummaryRow[] =
+    perAssignment.length > 0
+      ? [
+          metricRow("Average", (a) => a.average),
+          metricRow("Average Excluding Zeros", (a) => a.averageExcludingZeros),
+          metricRow("% Turned In", (a) => a.turnedIn),
+        ]
+      : [];
+
+  const byModule = groupBy(perAssignment, (a) => a.module);
+  const module_metrics: GradeModuleRow[] = orderModules(Array.from(byModule.keys()), mapping).map((module) => {
+    const list = byModule.get(module) ?? [];
+    return {
+      Module: module,
+      "Avg % Turned In": mean(list.map((a) => a.turnedIn).filter((v): v is number => v !== null)),
+      "Avg Average Excluding Zeros": mean(
+        list.map((a) => a.averageExcludingZeros).filter((v): v is number => v !== null)
+      ),
+      n_assignments: list.length,
+    };
+  });
+
+  return { summary, module_metrics };
+}
+
+// Echo360 identifies viewers by email; Canvas by SIS login (often the email or its local part)
+function identityKeys(value: string) {
+  const v = value.trim().toLowerCase();
+  if (!v) return [];
+  const local = v.includes("@") ? v.slice(0, v.indexOf("@")) : v;
+  return local !== v ? [v, local] : [v];
+}
+
+function buildStudentRows(gradebook: CanvasGradebook, echo: EchoAnalytics): StudentRow[] {
+  const mediaTotal = echo.media.length;
+  const viewsByUser = groupBy(
+    echo.views.filter((v) => v.viewSec > 0 || v.views > 0),
+    (v) => v.user
+  );
+
+  // Map every identity key (email, login, local part, name) to a roster index
+  const rosterByKey = new Map<string, number>();
+  gradebook.students.forEach((s, idx) => {
+    for (const k of [...identityKeys(s.sisLoginId), ...identityKeys(s.name)]) {
+      if (!rosterByKey.has(k)) rosterByKey.set(k, idx);
+    }
+  });
+
+  const echoUserFor = new Map<number, string>();
+  const unmatched: string[] = [];
+  for (const user of Array.from(viewsByUser.keys())) {
+    const idx = identityKeys(user)
+      .map((k) => rosterByKey.get(k))
+      .find((i): i is number => i !== undefined);
+    if (idx !== undefined && !echoUserFor.has(idx)) echoUserFor.set(idx, user);
+    else unmatched.push(user);
+  }
+
+  const viewing = (user: string | undefined) => {
+    const views = user ? viewsByUser.get(user) ?? [] : [];
+    const watchedSec = views.reduce((acc, v) => acc + v.viewSec, 0);
+    return {
+      "Total Watch Time (Min)": watchedSec / 60,
+      "# of Media Viewed": views.length,
+      "% of Media Viewed": mediaTotal > 0 ? views.length / mediaTotal : null,
+    };
+  };
+
+  const graded = gradebook.assignments.filter((a) => a.pointsPossible && a.pointsPossible > 0);
+
+  const rows: StudentRow[] = gradebook.students.map((s, idx) => {
+    // Same rule as the assignment "% Turned In": a non-zero score counts, excused is skipped
+    const eligible = graded.filter((a) => s.scores[a.header] !== "EX");
+    const turnedIn = eligible.filter((a) => {
+      const v = s.scores[a.header];
+      return typeof v === "number" && v > 0;
+    }).length;
+    const user = echoUserFor.get(idx);
+
+    return {
+      Student: s.name,
+      "Student ID": s.id || null,
+      Email: user ?? (s.sisLoginId || null),
+      Section: s.section || null,
+      "Current Score": s.currentScore !== null ? s.currentScore / 100 : null,
+      "Letter Grade": s.currentGrade ?? (s.currentScore !== null ? letterGrade(s.currentScore) : null),
+      "% Turned In": eligible.length > 0 ? turnedIn / eligible.length : null,
+      ...viewing(user),
+    };
+  });
+
+  // Viewers missing from the roster (dropped students, TAs) still show up, without Canvas data
+  for (const user of unmatched) {
+    rows.push({
+      Student: user,
+      "Student ID": null,
+      Email: user,
+      Section: null,
+      "Current Score": null,
+      "Letter Grade": null,
+      "% Turned In": null,
+      ...viewing(user),
+    });
+  }
+
+  return rows;
+}
+
+function buildKpis(gradebook: CanvasGradebook, studentsTotal: number) {
+  const scores = gradebook.students.map((s) => s.currentScore).filter((v): v is number => v !== null);
+  const medianScore = median(scores);
+
+  return {
+    Students: studentsTotal,
+    "Median Current Score": medianScore,
+    "Median Letter Grade": medianScore !== null ? letterGrade(medianScore) : null,
+  };
+}
+
+export function analyzeLocally(
+  gradebook: CanvasGradebook,
+  echo: EchoAnalytics,
+  mapping?: ModuleMapping | null
+): AnalyzeResponse {
+  // Prefer the Canvas roster; fall back to everyone who appears in the Echo export
+  const studentsTotal = gradebook.students.length || new Set(echo.views.map((v) => v.user)).size;
+
+  return {
+    kpis: buildKpis(gradebook, studentsTotal),
+    echo: buildEchoTables(echo, studentsTotal, mapping),
+    grades: buildGradeTables(gradebook, mapping),
+    students: buildStudentRows(gradebook, echo),
+    analysis: { text: null, error: LOCAL_ANALYSIS_NOTE },
+  };
+}
+
+/** Per-student rows from the two CSVs, for backend results that come back without them. */
+export async function studentRowsFromFiles(canvasCsv: File, echoCsv: File): Promise<StudentRow[]> {
+  const gradebook = parseCanvasGradebook(await readCsvFile(canvasCsv));
+  const echo = parseEchoAnalytics(await readCsvFile(echoCsv));
+  return buildStudentRows(gradebook, echo);
+}
+
+// Parsing runs on the main thread; yielding between stages lets the progress list repaint
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/** Same stages as a backend job, minus AI; `signal` is checked between stages. */
+export async function analyzeFilesLocally(
+  canvasCsv: File,
+  echoCsv: File,
+  mapping?: ModuleMapping | null,
+  progress: { onStage?: StageReporter; signal?: AbortSignal } = {}
+): Promise<AnalyzeResponse> {
+  const { signal } = progress;
+  const report: StageReporter = progress.onStage ?? (() => {});
+
+  report("canvas", "running");
+  await yieldToBrowser();
+  const gradebook = parseCanvasGradebook(await readCsvFile(canvasCsv));
+  throwIfAborted(signal);
+  report("canvas", "done");
+
+  report("echo", "running");
+  await yieldToBrowser();
+  const echo = parseEchoAnalytics(await readCsvFile(echoCsv));
+  throwIfAborted(signal);
+  report("echo", "done");
+
+  report("mapping", "running");
+  await yieldToBrowser();
+  const result = analyzeLocally(gradebook, echo, mapping);
+  throwIfAborted(signal);
+  report("mapping", "done");
+  report("ai", "skipped", LOCAL_ANALYSIS_NOTE);
+  return result;
+}
@@ -0,0 +1,113 @@
+import { LinearFit, linearFit, pearson, spearman } from "./correlation";
+import { ModuleMapping, compareModules, moduleFor } from "./moduleMapping";
+import type { EchoSummaryRow } from "./schema";
+
+// ---------- Per-media engagement ----------
+
+export type MediaPoint = {
+  title: string;
+  module: string;
+  order: number; // position in the Echo export, the tiebreak within a module
+  durationMin: number | null;
+  viewing: number | null; // "% of Students Viewing" (0–1)
+  completion: number | null; // "Average View %" (0–1)
+};
+
+export type MediaSort = "module" | "viewing" | "completion";
+
+/**
+ * One point per media row, tagged with its module (mapping first, then title inference) and
+ * ordered like the module charts: by `moduleOrder` (Echo module table), then natural module name.
+ */
+export function buildMediaPoints(
+  summary: EchoSummaryRow[],
+  mapping: ModuleMapping | null | undefined,
+  moduleOrder: string[]
+): MediaPoint[] {
+  const points = summary.map((r, order) => {
+    const duration = r["Video Duration"];
+    return {
+      title: r["Media Title"],
+      module: moduleFor(mapping, "media", r["Media Title"]),
+      order,
+      durationMin: typeof duration === "number" && duration > 0 ? duration / 60 : null,
+      viewing: r["% of Students Viewing"],
+      completion: r["Average View %"],
+    };
+  });
+  return sortMediaPoints(points, "module", moduleOrder);
+}
+
+export function sortMediaPoints(points: MediaPoint[], sort: MediaSort, moduleOrder: string[] = []): MediaPoint[] {
+  if (sort === "module") {
+    const pos = new Map(moduleOrder.map((m, idx) => [m, idx]));
+    return [...points].sort((a, b) => {
+      const pa = pos.get(a.module);
+      const pb = pos.get(b.module);
+      if (a.module !== b.module) {
+        if (pa !== undefined && pb !== undefined) return pa - pb;
+        if (pa !== undefined) return -1;
+        if (pb !== undefined) return 1;
+        return compareModules(a.module, b.module);
+      }
+      return a.order - b.order;
+    });
+  }
+  // Highest first; media without a value go last
+  const key = sort === "viewing" ? "viewing" : "completion";
+  return [...points].sort((a, b) => (b[key] ?? -Infinity) - (a[key] ?? -Infinity) || a.order - b.order);
+}
+
+/** Modules in first-appearance order of the (sorted) points, for color assignment and the legend. */
+export function mediaModules(points: MediaPoint[]) {
+  return Array.from(new Set(points.map((p) => p.module)));
+}
+
+// ---------- Duration vs. completion ----------
+
+export const DURATION_BUCKETS = [
+  { label: "Under 10 min", max: 10 },
+  { label: "10–20 min", max: 20 },
+  { label: "20–40 min", max: 40 },
+  { label: "40 min or longer", max: Infinity },
+];
+
+export type DurationBucket = {
+  label: string;
+  n: number;
+  completion: number | null; // mean Average View % of media in the bucket
+};
+
+export type DurationCompletion = {
+  points: MediaPoint[]; // media with both duration and completion
+  n: number;
+  pearson: number | null;
+  spearman: number | null;
+  fit: LinearFit | null; // completion (0–1) per minute of duration
+  buckets: DurationBucket[];
+};
+
+export function durationCompletion(media: MediaPoint[]): DurationCompletion {
+  const points = media.filter((p) => p.durationMin !== null && p.completion !== null);
+  const xs = points.map((p) => p.durationMin!);
+  const ys = points.map((p) => p.completion!);
+
+  const buckets = DURATION_BUCKETS.map((b, idx) => {
+    const min = idx === 0 ? 0 : DURATION_BUCKETS[idx - 1].max;
+    const inBucket = points.filter((p) => p.durationMin! >= min && p.durationMin! < b.max);
+    return {
+      label: b.label,
+      n: inBucket.length,
+      completion: inBucket.length > 0 ? inBucket.reduce((acc, p) => acc + p.completion!, 0) / inBucket.length : null,
+    };
+  });
+
+  return {
+    points,
+    n: points.length,
+    pearson: pearson(xs, ys),
+    spearman: spearman(xs, ys),
+    fit: linearFit(xs, ys),
+    buckets,
+  };
+}
@@ -0,0 +1,222 @@
+// ---------- Module inference from item titles ----------
+// Starting point for the mapping editor when Canvas module structure isn't available.
+export const UNASSIGNED_MODULE = "Unassigned";
+
+const MODULE_PATTERNS: { re: RegExp; label: string }[] = [
+  { re: /\bmod(?:ule)?\.?\s*(\d+)/i, label: "Module" },
+  { re: /\b(?:week|wk)\.?\s*(\d+)/i, label: "Week" },
+  { re: /\bunit\s*(\d+)/i, label: "Unit" },
+  { re: /\bch(?:apter|\.)?\s*(\d+)/i, label: "Chapter" },
+  { re: /\blesson\s*(\d+)/i, label: "Lesson" },
+  { re: /^\s*M(\d+)\b/, label: "Module" },
+];
+
+// Best-effort module name for a media or assignment title, e.g. "Wk 3 Lecture" -> "Week 3"
+export function inferModule(title: string): string {
+  const s = String(title ?? "");
+  for (const p of MODULE_PATTERNS) {
+    const m = s.match(p.re);
+    if (m) return `${p.label} ${Number(m[1])}`;
+  }
+  return UNASSIGNED_MODULE;
+}
+
+// ---------- Editable module mapping ----------
+// Item title -> module name, as reviewed in the mapping editor. Titles missing from the mapping
+// fall back to inferModule, so an empty mapping behaves exactly like the automatic one.
+export type ModuleMapping = {
+  modules: string[]; // display order
+  assignments: Record<string, string>; // Canvas assignment name -> module
+  media: Record<string, string>; // Echo360 media title -> module
+};
+
+export type MappingItemKind = "assignments" | "media";
+
+// Module structure from Canvas itself (module items by title, modules in course order)
+export type ModuleHints = {
+  modules: string[];
+  items: Record<string, string>;
+};
+
+export function moduleFor(mapping: ModuleMapping | null | undefined, kind: MappingItemKind, title: string) {
+  return mapping?.[kind][title] ?? inferModule(title);
+}
+
+/**
+ * Mapping for the given titles: saved edits first, then Canvas module items, then title inference.
+ * Only titles in the current files are kept, so stale entries from older exports drop out.
+ */
+export function buildModuleMapping(
+  assignmentTitles: string[],
+  mediaTitles: string[],
+  hints?: ModuleHints | null,
+  saved?: ModuleMapping | null
+): ModuleMapping {
+  const pick = (kind: MappingItemKind, title: string) =>
+    saved?.[kind][title] ?? hints?.items[title] ?? inferModule(title);
+
+  const assignments: Record<string, string> = {};
+  for (const t of assignmentTitles) assignments[t] = pick("assignments", t);
+  const media: Record<string, string> = {};
+  for (const t of mediaTitles) media[t] = pick("media", t);
+
+  const used = [...Object.values(assignments), ...Object.values(media)];
+  const order = [...(saved?.modules ?? []), ...(hints?.modules ?? [])];
+  const modules = Array.from(new Set([...order, ...used.slice().sort(compareModules)])).filter(
+    (m) => m !== UNASSIGNED_MODULE
+  );
+
+  return { modules, assignments, media };
+}
+
+export function assignModule(mapping: ModuleMapping, kind: MappingItemKind, titles: string[], module: string) {
+  const next: ModuleMapping = { ...mapping, [kind]: { ...mapping[kind] } };
+  for (const t of titles) next[kind][t] = module;
+  if (module !== UNASSIGNED_MODULE && !next.modules.includes(module)) next.modules = [...next.modules, module];
+  return next;
+}
+
+/** Assign every title matching `pattern` (case-insensitive). Throws on an invalid pattern. */
+export function applyRegexRule(
+  mapping: ModuleMapping,
+  kinds: MappingItemKind[],
+  pattern: string,
+  module: string
+): { mapping: ModuleMapping; matched: number } {
+  const re = new RegExp(pattern, "i");
+  let next = mapping;
+  let matched = 0;
+  for (const kind of kinds) {
+    const titles = Object.keys(mapping[kind]).filter((t) => re.test(t));
+    matched += titles.length;
+    next = assignModule(next, kind, titles, module);
+  }
+  return { mapping: next, matched };
+}
+
+// Mapping order first, then natural order; Unassigned (never in the mapping order) always last
+export function orderModules(names: string[], mapping?: ModuleMapping | null) {
+  const pos = new Map((mapping?.modules ?? []).map((m, idx) => [m, idx]));
+  return [...names].sort((a, b) => {
+    const pa = pos.get(a);
+    const pb = pos.get(b);
+    if (pa !== undefined && pb !== undefined) return pa - pb;
+    if (pa !== undefined) return -1;
+    if (pb !== undefined) return 1;
+    return compareModules(a, b);
+  });
+}
+
+/**
+ * Result module tables in the mapping editor's order. Local runs are built that way already;
+ * backend rows follow whatever order the server returned. Without a mapping, gradebook modules
+ * follow the Echo module order as before.
+ */
+export function orderModuleTables<E extends { Module: string }, G extends { Module: string }>(
+  echoModules: E[],
+  gradeModules: G[],
+  mapping?: ModuleMapping | null
+): { echoModules: E[]; gradeModules: G[] } {
+  if (!mapping || mapping.modules.length === 0) {
+    return { echoModules, gradeModules: sortByEchoModuleOrder(gradeModules, echoModules) };
+  }
+  const byMapping = <T extends { Module: string }>(rows: T[]) => {
+    const order = orderModules(Array.from(new Set(rows.map((r) => r.Module))), mapping);
+    const pos = new Map(order.map((m, idx) => [m, idx]));
+    return [...rows].sort((a, b) => (pos.get(a.Module) ?? 0) - (pos.get(b.Module) ?? 0));
+  };
+  return { echoModules: byMapping(echoModules), gradeModules: byMapping(gradeModules) };
+}
+
+const MAPPING_KEY = (courseId: string) => `cle-dashboard:module-mapping:${courseId}`;
+
+export function loadModuleMapping(courseId: string): ModuleMapping | null {
+  if (typeof window === "undefined" || !courseId) return null;
+  try {
+    const raw = window.localStorage.getItem(MAPPING_KEY(courseId));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return null;
+    const strings = (o: unknown) => {
+      const out: Record<string, string> = {};
+      if (o && typeof o === "object") {
+        for (const [k, v] of Object.entries(o)) if (typeof v === "string") out[k] = v;
+      }
+      return out;
+    };
+    return {
+      modules: Array.isArray(parsed.modules) ? parsed.modules.filter((m: unknown) => typeof m === "string") : [],
+      assignments: strings(parsed.assignments),
+      media: strings(parsed.media),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveModuleMapping(courseId: string, mapping: ModuleMapping | null) {
+  if (!courseId) return;
+  try {
+    if (mapping) window.localStorage.setItem(MAPPING_KEY(courseId), JSON.stringify(mapping));
+    else window.localStorage.removeItem(MAPPING_KEY(courseId));
+  } catch {
+    // Storage full or disabled: edits last until the page is reloaded
+  }
+}
+
+// Natural sort for module names so "Module 10" follows "Module 9"; Unassigned always last
+export function compareModules(a: string, b: string) {
+  if (a === b) return 0;
+  if (a === UNASSIGNED_MODULE) return 1;
+  if (b === UNASSIGNED_MODULE) return -1;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+// Sort gradebook module metrics by Canvas module order (from echoModules)
+// Preserve original API order for modules not found in echoModules
+export function sortByEchoModuleOrder<T extends { Module: string }>(
+  gradeModuleMetrics: T[],
+  echoModules: { Module: string }[]
+): T[] {
+  if (!gradeModuleMetrics || gradeModuleMetrics.length === 0) return gradeModuleMetrics;
+  if (!echoModules || echoModules.length === 0) return gradeModuleMetrics;
+
+  // Create a map of module name to its position in echoModules
+  const orderMap = new Map<string, number>();
+  echoModules.forEach((row, idx) => {
+    if (row.Module && !orderMap.has(row.Module)) {
+      orderMap.set(row.Module, idx);
+    }
+  });
+
+  // Create a map of original positions in gradeModuleMetrics
+  const originalOrderMap = new Map<string, number>();
+  gradeModuleMetrics.forEach((row, idx) => {
+    if (row.Module && !originalOrderMap.has(row.Module)) {
+      originalOrderMap.set(row.Module, idx);
+    }
+  });
+
+  // Sort gradeModuleMetrics by the module order, preserving original order for unmatched modules
+  return [...gradeModuleMetrics].sort((a, b) => {
+    const echoOrderA = orderMap.get(a.Module);
+    const echoOrderB = orderMap.get(b.Module);
+
+    // If both are in echoModules, sort by echo order
+    if (echoOrderA !== undefined && echoOrderB !== undefined) {
+      return echoOrderA - echoOrderB;
+    }
+    // If only A is in echoModules, A comes first
+    if (echoOrderA !== undefined && echoOrderB === undefined) {
+      return -1;
+    }
+    // If only B is in echoModules, B comes first
+    if (echoOrderA === undefined && echoOrderB !== undefined) {
+      return 1;
+    }
+    // If neither is in echoModules, preserve original API order
+    const origA = originalOrderMap.get(a.Module) ?? 0;
+    const origB = originalOrderMap.get(b.Module) ?? 0;
+    return origA - origB;
+  });
+}
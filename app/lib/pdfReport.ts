@@ -0,0 +1,690 @@
+import type { jsPDF } from "jspdf";
+import { ChartValueFormat, summarizeChart } from "./chartSummary";
+import { formatCell } from "./format";
+import type { AnyRow, EchoModuleRow, GradeModuleRow } from "./schema";
+
+// ---------- Vector PDF report ----------
+// Drawn with jsPDF's text and path APIs (no screenshots), so text is selectable and searchable,
+// tables break between rows with the header repeated, and charts stay sharp at any zoom.
+// jsPDF can't write a tagged structure tree; section headings are exposed as document outline
+// (bookmark) entries and the table of contents links to them instead.
+
+export type ReportKpi = { label: string; value: string; note?: string };
+
+export type ReportTable = {
+  columns: string[]; // first column is the row label, repeated when the table is split by width
+  rows: AnyRow[];
+  percentCols?: string[];
+};
+
+export type ReportChartSeries = {
+  name: string;
+  kind: "bar" | "line"; // bars are stacked in series order
+  color: string;
+  values: (number | null)[]; // one per category
+  axis: "left" | "right";
+  format: ChartValueFormat; // for the text summary
+  dashed?: boolean;
+};
+
+export type ReportAxis = {
+  label: string;
+  max?: number; // fixed top of the axis; otherwise rounded up from the data
+  format: (v: number) => string;
+};
+
+export type ReportChart = {
+  categories: string[];
+  series: ReportChartSeries[];
+  left: ReportAxis;
+  right?: ReportAxis;
+};
+
+export type ReportCard = {
+  title: string;
+  summary?: string;
+  bullets?: string[];
+  metrics?: { label: string; value: string; note?: string }[]; // note: e.g. the tone ("Watch")
+};
+
+export type ReportBlock =
+  | { kind: "kpis"; kpis: ReportKpi[] }
+  | { kind: "table"; title?: string; caption?: string; table: ReportTable }
+  | { kind: "chart"; chart: ReportChart; summary?: string[] }
+  | { kind: "cards"; cards: ReportCard[] }
+  | { kind: "text"; text: string };
+
+export type ReportSection = { title: string; blocks: ReportBlock[] };
+
+export type ReportOrientation = "portrait" | "landscape";
+
+// Image drawn on the title page; width/height are the pixel size, used for the aspect ratio
+export type ReportLogo = { dataUrl: string; width: number; height: number };
+
+export type ReportSpec = {
+  title: string;
+  courseId: string;
+  generatedAt: Date;
+  orientation?: ReportOrientation;
+  logo?: ReportLogo | null;
+  sections: ReportSection[];
+};
+
+// A4, millimetres
+const A4_SHORT = 210;
+const A4_LONG = 297;
+const MARGIN_X = 15;
+const TOP = 22;
+const BOTTOM_MARGIN = 17;
+const LOGO_MAX_W = 50;
+const LOGO_MAX_H = 18;
+
+const TEXT = "#0f172a";
+const MUTED = "#64748b";
+const RULE = "#cbd5e1";
+const HEADER_FILL = "#f1f5f9";
+const ZEBRA_FILL = "#f8fafc";
+
+const TABLE_FONT_PT = 8;
+const TABLE_PAD = 1.5;
+const TABLE_MAX_COL_W = 60;
+const TABLE_MIN_COL_W = 16;
+const TABLE_MAX_CELL_LINES = 8;
+
+const PT_TO_MM = 0.3528;
+
+// Standard PDF fonts only cover Latin-1; map the typographic characters the dashboard uses
+const PDF_CHAR_MAP: Record<string, string> = {
+  "—": "-",
+  "–": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "≥": ">=",
+  "≤": "<=",
+  "ρ": "rho",
+  "•": "-",
+  "▲": "+",
+  "▼": "-",
+  "−": "-",
+};
+
+export function pdfText(s: string) {
+  return String(s ?? "")
+    .replace(/[—–‘’“”…≥≤ρ•▲▼−]/g, (c) => PDF_CHAR_MAP[c] ?? c)
+    .replace(/[^\x00-\xff]/g, "?");
+}
+
+type Ctx = {
+  pdf: jsPDF;
+  pageW: number;
+  pageH: number;
+  contentW: number;
+  bottom: number; // lowest y content may reach
+  y: number;
+  outline: { title: string; page: number; y: number }[];
+};
+
+function lineHeight(pt: number) {
+  return pt * PT_TO_MM * 1.3;
+}
+
+function setFont(ctx: Ctx, pt: number, style: "normal" | "bold" = "normal", color = TEXT) {
+  ctx.pdf.setFont("helvetica", style);
+  ctx.pdf.setFontSize(pt);
+  ctx.pdf.setTextColor(color);
+}
+
+function newPage(ctx: Ctx) {
+  ctx.pdf.addPage();
+  ctx.y = TOP;
+}
+
+/** Start a new page unless `h` mm still fit. Returns true when a page was added. */
+function ensureSpace(ctx: Ctx, h: number) {
+  if (ctx.y + h <= ctx.bottom) return false;
+  newPage(ctx);
+  return true;
+}
+
+function currentPage(ctx: Ctx) {
+  return ctx.pdf.getCurrentPageInfo().pageNumber;
+}
+
+// Heading kept with at least `keepWith` mm of what follows, so it never ends a page alone
+function heading(ctx: Ctx, text: string, level: 1 | 2, keepWith = 25) {
+  const pt = level === 1 ? 15 : 11;
+  const lh = lineHeight(pt);
+  if (level === 1 && ctx.y > TOP) ctx.y += 4;
+  ensureSpace(ctx, lh + keepWith);
+  setFont(ctx, pt, "bold");
+  ctx.pdf.text(pdfText(text), MARGIN_X, ctx.y + lh * 0.75);
+  if (level === 1) {
+    ctx.outline.push({ title: text, page: currentPage(ctx), y: ctx.y });
+    ctx.pdf.setDrawColor(RULE);
+    ctx.pdf.setLineWidth(0.4);
+    ctx.pdf.line(MARGIN_X, ctx.y + lh + 1, MARGIN_X + ctx.contentW, ctx.y + lh + 1);
+    ctx.y += lh + 4;
+  } else {
+    ctx.y += lh + 1.5;
+  }
+}
+
+function paragraph(ctx: Ctx, text: string, opts: { pt?: number; color?: string; indent?: number; bullet?: boolean } = {}) {
+  const pt = opts.pt ?? 9.5;
+  const indent = opts.indent ?? 0;
+  const lh = lineHeight(pt);
+  setFont(ctx, pt, "normal", opts.color ?? TEXT);
+  const lines: string[] = ctx.pdf.splitTextToSize(pdfText(text), ctx.contentW - indent - (opts.bullet ? 4 : 0));
+  lines.forEach((line, idx) => {
+    if (ensureSpace(ctx, lh)) setFont(ctx, pt, "normal", opts.color ?? TEXT);
+    if (opts.bullet && idx === 0) {
+      ctx.pdf.setFillColor(opts.color ?? TEXT);
+      ctx.pdf.circle(MARGIN_X + indent + 1.2, ctx.y + lh * 0.45, 0.6, "F");
+    }
+    ctx.pdf.text(line, MARGIN_X + indent + (opts.bullet ? 4 : 0), ctx.y + lh * 0.75);
+    ctx.y += lh;
+  });
+  ctx.y += 1.5;
+}
+
+// ---------- KPIs ----------
+function drawKpis(ctx: Ctx, kpis: ReportKpi[]) {
+  const perRow = ctx.contentW > 200 ? 6 : 4;
+  const gap = 3;
+  const w = (ctx.contentW - gap * (perRow - 1)) / perRow;
+  const h = 22;
+  for (let i = 0; i < kpis.length; i += perRow) {
+    ensureSpace(ctx, h + gap);
+    kpis.slice(i, i + perRow).forEach((k, j) => {
+      const x = MARGIN_X + j * (w + gap);
+      ctx.pdf.setDrawColor(RULE);
+      ctx.pdf.setLineWidth(0.3);
+      ctx.pdf.roundedRect(x, ctx.y, w, h, 1.5, 1.5, "S");
+      setFont(ctx, 7.5, "normal", MUTED);
+      ctx.pdf.text(ctx.pdf.splitTextToSize(pdfText(k.label), w - 4).slice(0, 2), x + 2, ctx.y + 4.5);
+      setFont(ctx, 14, "bold");
+      ctx.pdf.text(pdfText(k.value), x + 2, ctx.y + 15);
+      if (k.note) {
+        setFont(ctx, 7.5, "normal", MUTED);
+        ctx.pdf.text(pdfText(k.note), x + 2, ctx.y + 19.5);
+      }
+    });
+    ctx.y += h + gap;
+  }
+  ctx.y += 2;
+}
+
+// ---------- Tables ----------
+function columnGroups(widths: number[], maxW: number): number[][] {
+  // Column 0 (row label) starts every group; the rest are packed left to right
+  const groups: number[][] = [];
+  let current = [0];
+  let used = widths[0];
+  for (let c = 1; c < widths.length; c++) {
+    if (current.length > 1 && used + widths[c] > maxW) {
+      groups.push(current);
+      current = [0];
+      used = widths[0];
+    }
+    current.push(c);
+    used += widths[c];
+  }
+  groups.push(current);
+  return groups;
+}
+
+function drawTable(ctx: Ctx, table: ReportTable, title?: string) {
+  const { columns, rows, percentCols } = table;
+  if (columns.length === 0) return;
+  const lh = lineHeight(TABLE_FONT_PT);
+
+  const cells = rows.map((r) => columns.map((c) => pdfText(formatCell(c, r?.[c], percentCols))));
+  const headers = columns.map(pdfText);
+
+  // Natural width: widest of header and sampled cells, clamped
+  setFont(ctx, TABLE_FONT_PT, "bold");
+  const headerW = headers.map((h) => ctx.pdf.getTextWidth(h));
+  setFont(ctx, TABLE_FONT_PT);
+  const sample = cells.length > 300 ? cells.filter((_, i) => i % Math.ceil(cells.length / 300) === 0) : cells;
+  const natural = columns.map((_, c) => {
+    const widest = Math.max(headerW[c], ...sample.map((r) => ctx.pdf.getTextWidth(r[c])));
+    return Math.min(TABLE_MAX_COL_W, Math.max(TABLE_MIN_COL_W, widest + 2 * TABLE_PAD));
+  });
+
+  const groups = columnGroups(natural, ctx.contentW);
+
+  groups.forEach((group, gIdx) => {
+    // Stretch the group to the full content width
+    const total = group.reduce((acc, c) => acc + natural[c], 0);
+    const scale = total < ctx.contentW ? ctx.contentW / total : 1;
+    const widths = group.map((c) => natural[c] * scale);
+
+    const label = title
+      ? `${title}${groups.length > 1 ? ` (part ${gIdx + 1} of ${groups.length})` : ""}`
+      : groups.length > 1
+        ? `Part ${gIdx + 1} of ${groups.length}`
+        : "";
+
+    const headerLines = group.map((c, i) => ctx.pdf.splitTextToSize(headers[c], widths[i] - 2 * TABLE_PAD) as string[]);
+    const headerH = Math.max(...headerLines.map((l) => l.length)) * lh + 2 * TABLE_PAD;
+
+    const drawHeader = () => {
+      setFont(ctx, TABLE_FONT_PT, "bold");
+      ctx.pdf.setFillColor(HEADER_FILL);
+      ctx.pdf.setDrawColor(RULE);
+      ctx.pdf.setLineWidth(0.2);
+      let x = MARGIN_X;
+      group.forEach((_, i) => {
+        ctx.pdf.rect(x, ctx.y, widths[i], headerH, "FD");
+        ctx.pdf.text(headerLines[i], x + TABLE_PAD, ctx.y + TABLE_PAD + lh * 0.75);
+        x += widths[i];
+      });
+      ctx.y += headerH;
+      setFont(ctx, TABLE_FONT_PT);
+    };
+
+    // Title, header and at least one row stay together
+    if (label) {
+      ensureSpace(ctx, lineHeight(9) + headerH + lh * 2 + 2 * TABLE_PAD);
+      setFont(ctx, 9, "bold", MUTED);
+      ctx.pdf.text(pdfText(label), MARGIN_X, ctx.y + lineHeight(9) * 0.75);
+      ctx.y += lineHeight(9) + 1;
+    } else {
+      ensureSpace(ctx, headerH + lh * 2 + 2 * TABLE_PAD);
+    }
+    drawHeader();
+
+    cells.forEach((row, rIdx) => {
+      const lines = group.map((c, i) =>
+        (ctx.pdf.splitTextToSize(row[c], widths[i] - 2 * TABLE_PAD) as string[]).slice(0, TABLE_MAX_CELL_LINES)
+      );
+      const rowH = Math.max(1, ...lines.map((l) => l.length)) * lh + 2 * TABLE_PAD;
+      // Never split a row: move it (and a repeated header) to the next page
+      if (ensureSpace(ctx, rowH)) drawHeader();
+
+      let x = MARGIN_X;
+      group.forEach((_, i) => {
+        if (rIdx % 2 === 1) {
+          ctx.pdf.setFillColor(ZEBRA_FILL);
+          ctx.pdf.rect(x, ctx.y, widths[i], rowH, "FD");
+        } else {
+          ctx.pdf.rect(x, ctx.y, widths[i], rowH, "S");
+        }
+        ctx.pdf.text(lines[i], x + TABLE_PAD, ctx.y + TABLE_PAD + lh * 0.75);
+        x += widths[i];
+      });
+      ctx.y += rowH;
+    });
+    ctx.y += 5;
+  });
+}
+
+// ---------- Charts ----------
+// Round an axis maximum up to 1, 2, 2.5 or 5 × a power of ten
+function niceMax(v: number) {
+  if (!(v > 0)) return 1;
+  const pow = Math.pow(10, Math.floor(Math.log10(v)));
+  for (const m of [1, 2, 2.5, 5, 10]) {
+    if (m * pow >= v) return m * pow;
+  }
+  return 10 * pow;
+}
+
+function axisMax(chart: ReportChart, axis: "left" | "right") {
+  const spec = axis === "left" ? chart.left : chart.right;
+  if (spec?.max !== undefined) return spec.max;
+  let max = 0;
+  chart.categories.forEach((_, i) => {
+    let stacked = 0;
+    for (const s of chart.series) {
+      if (s.axis !== axis) continue;
+      const v = s.values[i] ?? 0;
+      if (s.kind === "bar") stacked += v;
+      else max = Math.max(max, v);
+    }
+    max = Math.max(max, stacked);
+  });
+  return niceMax(max);
+}
+
+function drawLegend(ctx: Ctx, series: ReportChartSeries[]) {
+  setFont(ctx, 7.5, "normal");
+  let x = MARGIN_X;
+  let y = ctx.y + 3;
+  for (const s of series) {
+    const w = 7 + ctx.pdf.getTextWidth(pdfText(s.name)) + 5;
+    if (x + w > MARGIN_X + ctx.contentW) {
+      x = MARGIN_X;
+      y += 4.5;
+    }
+    if (s.kind === "bar") {
+      ctx.pdf.setFillColor(s.color);
+      ctx.pdf.rect(x, y - 2.2, 5, 2.6, "F");
+    } else {
+      ctx.pdf.setDrawColor(s.color);
+      ctx.pdf.setLineWidth(0.6);
+      if (s.dashed) ctx.pdf.setLineDashPattern([1.2, 0.8], 0);
+      ctx.pdf.line(x, y - 0.9, x + 5, y - 0.9);
+      ctx.pdf.setLineDashPattern([], 0);
+    }
+    ctx.pdf.setTextColor(TEXT);
+    ctx.pdf.text(pdfText(s.name), x + 7, y);
+    x += w;
+  }
+  ctx.y = y + 4;
+}
+
+function drawChart(ctx: Ctx, chart: ReportChart) {
+  const n = chart.categories.length;
+  if (n === 0 || chart.series.length === 0) {
+    paragraph(ctx, "No data to chart.", { color: MUTED });
+    return;
+  }
+
+  const plotH = 70;
+  const labelH = 30;
+  ensureSpace(ctx, 14 + plotH + labelH);
+  drawLegend(ctx, chart.series);
+
+  const pdf = ctx.pdf;
+  const x0 = MARGIN_X + 16;
+  const x1 = MARGIN_X + ctx.contentW - (chart.right ? 16 : 4);
+  const y0 = ctx.y + 2;
+  const y1 = y0 + plotH;
+  const band = (x1 - x0) / n;
+  const leftMax = axisMax(chart, "left");
+  const rightMax = chart.right ? axisMax(chart, "right") : 1;
+  const yFor = (v: number, axis: "left" | "right") => y1 - (v / (axis === "left" ? leftMax : rightMax)) * plotH;
+
+  // Grid and axis ticks (5 steps)
+  setFont(ctx, 7, "normal", MUTED);
+  pdf.setLineWidth(0.15);
+  for (let t = 0; t <= 5; t++) {
+    const y = y1 - (t / 5) * plotH;
+    pdf.setDrawColor(RULE);
+    pdf.setLineDashPattern(t === 0 ? [] : [0.8, 0.8], 0);
+    pdf.line(x0, y, x1, y);
+    pdf.text(pdfText(chart.left.format((leftMax * t) / 5)), x0 - 1.5, y + 1, { align: "right" });
+    if (chart.right) pdf.text(pdfText(chart.right.format((rightMax * t) / 5)), x1 + 1.5, y + 1);
+  }
+  pdf.setLineDashPattern([], 0);
+
+  // Axis titles
+  setFont(ctx, 7.5, "normal", TEXT);
+  pdf.text(pdfText(chart.left.label), MARGIN_X + 2, (y0 + y1) / 2 + pdf.getTextWidth(pdfText(chart.left.label)) / 2, {
+    angle: 90,
+  });
+  if (chart.right) {
+    pdf.text(pdfText(chart.right.label), MARGIN_X + ctx.contentW - 1, (y0 + y1) / 2 - pdf.getTextWidth(pdfText(chart.right.label)) / 2, {
+      angle: -90,
+    });
+  }
+
+  // Stacked bars
+  const barW = band * 0.6;
+  const stackTop = chart.categories.map(() => ({ left: 0, right: 0 }));
+  for (const s of chart.series) {
+    if (s.kind !== "bar") continue;
+    pdf.setFillColor(s.color);
+    s.values.forEach((v, i) => {
+      if (v === null || v <= 0) return;
+      const base = stackTop[i][s.axis];
+      const top = base + v;
+      const yTop = yFor(top, s.axis);
+      pdf.rect(x0 + i * band + (band - barW) / 2, yTop, barW, yFor(base, s.axis) - yTop, "F");
+      stackTop[i][s.axis] = top;
+    });
+  }
+
+  // Lines, broken at missing values
+  for (const s of chart.series) {
+    if (s.kind !== "line") continue;
+    pdf.setDrawColor(s.color);
+    pdf.setLineWidth(0.6);
+    pdf.setLineDashPattern(s.dashed ? [1.5, 1] : [], 0);
+    let prev: [number, number] | null = null;
+    s.values.forEach((v, i) => {
+      if (v === null) {
+        prev = null;
+        return;
+      }
+      const pt: [number, number] = [x0 + (i + 0.5) * band, yFor(v, s.axis)];
+      if (prev) pdf.line(prev[0], prev[1], pt[0], pt[1]);
+      else if (s.values[i + 1] === null || i === n - 1) {
+        // Isolated point: draw a dot so it isn't lost
+        pdf.setFillColor(s.color);
+        pdf.circle(pt[0], pt[1], 0.6, "F");
+      }
+      prev = pt;
+    });
+    pdf.setLineDashPattern([], 0);
+  }
+
+  // Category labels, rotated 45° and ending at their tick
+  setFont(ctx, 6.5, "normal", TEXT);
+  const step = Math.max(1, Math.ceil(n / 40));
+  chart.categories.forEach((c, i) => {
+    if (i % step !== 0) return;
+    const label = pdfText(c.length > 28 ? `${c.slice(0, 27)}...` : c);
+    const w = pdf.getTextWidth(label);
+    const tx = x0 + (i + 0.5) * band;
+    const ty = y1 + 2.5;
+    const d = w * Math.SQRT1_2;
+    pdf.text(label, tx - d, ty + d, { angle: 45 });
+  });
+
+  ctx.y = y1 + labelH;
+}
+
+// ---------- AI cards ----------
+function drawCards(ctx: Ctx, cards: ReportCard[]) {
+  for (const card of cards) {
+    heading(ctx, card.title, 2, 12);
+    if (card.summary) paragraph(ctx, card.summary);
+    for (const b of card.bullets ?? []) paragraph(ctx, b, { bullet: true, indent: 2 });
+    if (card.metrics && card.metrics.length > 0) {
+      paragraph(ctx, card.metrics.map((m) => `${m.label}: ${m.value}${m.note ? ` (${m.note})` : ""}`).join("   |   "), { pt: 8.5, color: MUTED });
+    }
+    ctx.y += 2;
+  }
+}
+
+// ---------- Dashboard charts ----------
+// Same series and colors as EchoComboChart / GradebookComboChart
+
+/** Columns of `columns` present in the data, in that order. */
+export function reportTable(rows: AnyRow[], columns: string[], percentCols?: string[]): ReportTable {
+  return { columns: columns.filter((c) => rows[0]?.[c] !== undefined), rows, percentCols };
+}
+
+export function echoChartSpec(rows: EchoModuleRow[], studentsTotal?: number): ReportChart {
+  const viewers = rows.map((r) => r["# of Students Viewing"]);
+  const notViewing = rows.map((r, i) => {
+    const total = r["# of Students"] ?? (typeof studentsTotal === "number" ? studentsTotal : null);
+    return viewers[i] !== null && total !== null ? Math.max(0, total - viewers[i]!) : null;
+  });
+  const pct = (v: number | null) => (v !== null ? v * 100 : null);
+
+  const series: ReportChartSeries[] = [];
+  if (viewers.some((v, i) => v !== null && notViewing[i] !== null)) {
+    series.push({ name: "# of Students Viewing", kind: "bar", color: "#1E54B3", values: viewers, axis: "left", format: "count" });
+    series.push({ name: "Students Not Viewing", kind: "bar", color: "#94B0E3", values: notViewing, axis: "left", format: "count" });
+  }
+  const overall = rows.map((r) => pct(r["Overall View %"]));
+  const avg = rows.map((r) => pct(r["Average View %"]));
+  if (overall.some((v) => v !== null)) {
+    series.push({ name: "Overall View %", kind: "line", color: "#F58D0F", values: overall, axis: "right", format: "percent" });
+  }
+  if (avg.some((v) => v !== null)) {
+    series.push({ name: "Average View %", kind: "line", color: "#C91CAD", values: avg, axis: "right", format: "percent" });
+  }
+
+  return {
+    categories: rows.map((r) => r.Module),
+    series,
+    left: { label: "# of Students", format: (v) => String(Math.round(v)) },
+    right: { label: "View %", max: 100, format: (v) => `${Math.round(v)}%` },
+  };
+}
+
+export function gradebookChartSpec(rows: GradeModuleRow[]): ReportChart {
+  const turnedIn = rows.map((r) => r["Avg % Turned In"]);
+  const average = rows.map((r) => r["Avg Average Excluding Zeros"]);
+  const series: ReportChartSeries[] = [];
+  if (turnedIn.some((v) => v !== null)) {
+    series.push({ name: "Avg % Turned In", kind: "line", color: "#1E4D2B", values: turnedIn, axis: "left", format: "proportion" });
+  }
+  if (average.some((v) => v !== null)) {
+    series.push({ name: "Avg Average Excluding Zeros", kind: "line", color: "#D9782D", values: average, axis: "left", format: "proportion" });
+  }
+  return {
+    categories: rows.map((r) => r.Module),
+    series,
+    left: { label: "Proportion", max: 1, format: (v) => `${Math.round(v * 100)}%` },
+  };
+}
+
+/** The on-screen text alternative (highest / lowest module and trend per series). */
+export function summarizeReportChart(chart: ReportChart) {
+  const data = chart.categories.map((label, i) => {
+    const point: Record<string, string | number | null> = { label };
+    chart.series.forEach((s, j) => (point[`s${j}`] = s.values[i]));
+    return point;
+  });
+  return summarizeChart(
+    data,
+    "label",
+    chart.series.map((s, j) => ({ key: `s${j}`, name: s.name, format: s.format, baseline: s.dashed }))
+  );
+}
+
+// ---------- Document ----------
+function drawBlock(ctx: Ctx, block: ReportBlock) {
+  if (block.kind === "kpis") drawKpis(ctx, block.kpis);
+  else if (block.kind === "table") {
+    drawTable(ctx, block.table, block.title);
+    if (block.caption) paragraph(ctx, block.caption, { pt: 8.5, color: MUTED });
+  }
+  else if (block.kind === "chart") {
+    drawChart(ctx, block.chart);
+    for (const line of block.summary ?? []) paragraph(ctx, line, { pt: 8.5, color: MUTED });
+  }
+  else if (block.kind === "cards") drawCards(ctx, block.cards);
+  else paragraph(ctx, block.text);
+}
+
+function drawHeaderFooter(ctx: Ctx, spec: ReportSpec) {
+  const { pdf, pageW, pageH } = ctx;
+  const pages = pdf.getNumberOfPages();
+  const course = spec.courseId ? `Course ${spec.courseId}` : "";
+  const date = spec.generatedAt.toLocaleDateString();
+  for (let p = 1; p <= pages; p++) {
+    pdf.setPage(p);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(8);
+    pdf.setTextColor(MUTED);
+    pdf.setDrawColor(RULE);
+    pdf.setLineWidth(0.2);
+    if (p > 1) {
+      pdf.text(pdfText([spec.title, course].filter(Boolean).join(" - ")), MARGIN_X, 12);
+      pdf.text(pdfText(date), pageW - MARGIN_X, 12, { align: "right" });
+      pdf.line(MARGIN_X, 14, pageW - MARGIN_X, 14);
+    }
+    pdf.line(MARGIN_X, pageH - 13, pageW - MARGIN_X, pageH - 13);
+    pdf.text(pdfText(`${course ? `${course} - ` : ""}Generated ${date}`), MARGIN_X, pageH - 8);
+    pdf.text(`Page ${p} of ${pages}`, pageW - MARGIN_X, pageH - 8, { align: "right" });
+  }
+}
+
+/** Build the report; the caller saves or uploads the returned document. */
+export async function buildPdfReport(spec: ReportSpec): Promise<jsPDF> {
+  // Dynamic import keeps jsPDF out of the initial bundle and off the server
+  const { jsPDF } = await import("jspdf");
+  const landscape = spec.orientation === "landscape";
+  const pdf = new jsPDF({ orientation: landscape ? "l" : "p", unit: "mm", format: "a4" });
+  pdf.setDocumentProperties({
+    title: spec.courseId ? `${spec.title} - Course ${spec.courseId}` : spec.title,
+    subject: "Canvas Gradebook + Echo360 analytics",
+    creator: "CLE Analytics Dashboard",
+  });
+  pdf.setLanguage("en-US");
+  pdf.viewerPreferences({ DisplayDocTitle: true });
+
+  const pageW = landscape ? A4_LONG : A4_SHORT;
+  const pageH = landscape ? A4_SHORT : A4_LONG;
+  const ctx: Ctx = {
+    pdf,
+    pageW,
+    pageH,
+    contentW: pageW - 2 * MARGIN_X,
+    bottom: pageH - BOTTOM_MARGIN,
+    y: TOP - 6,
+    outline: [],
+  };
+
+  // Title block, with the logo (if any) at the top right
+  const titleTop = ctx.y;
+  let titleW = ctx.contentW;
+  let logoBottom = titleTop;
+  if (spec.logo) {
+    const scale = Math.min(LOGO_MAX_W / spec.logo.width, LOGO_MAX_H / spec.logo.height);
+    const w = spec.logo.width * scale;
+    const h = spec.logo.height * scale;
+    const format = spec.logo.dataUrl.startsWith("data:image/jpeg") ? "JPEG" : "PNG";
+    pdf.addImage(spec.logo.dataUrl, format, MARGIN_X + ctx.contentW - w, titleTop, w, h);
+    titleW -= w + 5;
+    logoBottom = titleTop + h + 3;
+  }
+  setFont(ctx, 20, "bold");
+  const titleLines: string[] = pdf.splitTextToSize(pdfText(spec.title), titleW);
+  titleLines.forEach((line) => {
+    pdf.text(line, MARGIN_X, ctx.y + 7);
+    ctx.y += 9;
+  });
+  ctx.y += 2;
+  setFont(ctx, 10, "normal", MUTED);
+  if (spec.courseId) {
+    pdf.text(pdfText(`Course ID: ${spec.courseId}`), MARGIN_X, ctx.y + 4);
+    ctx.y += 5;
+  }
+  pdf.text(pdfText(`Generated: ${spec.generatedAt.toLocaleString()}`), MARGIN_X, ctx.y + 4);
+  ctx.y = Math.max(ctx.y + 9, logoBottom);
+
+  // Contents: space reserved now, filled in once page numbers are known
+  const tocLine = 6;
+  const tocTop = ctx.y;
+  setFont(ctx, 12, "bold");
+  pdf.text("Contents", MARGIN_X, ctx.y + 4);
+  ctx.y += 8 + spec.sections.length * tocLine + 4;
+
+  for (const section of spec.sections) {
+    heading(ctx, section.title, 1);
+    for (const block of section.blocks) drawBlock(ctx, block);
+  }
+
+  // Fill in the contents page and the outline (bookmarks)
+  pdf.setPage(1);
+  setFont(ctx, 10, "normal");
+  ctx.outline.forEach((entry, i) => {
+    const y = tocTop + 8 + i * tocLine + 4;
+    const label = pdfText(entry.title);
+    const pageLabel = String(entry.page);
+    pdf.setTextColor(TEXT);
+    pdf.text(label, MARGIN_X + 2, y);
+    pdf.text(pageLabel, MARGIN_X + ctx.contentW, y, { align: "right" });
+    // Dot leader
+    pdf.setTextColor(RULE);
+    const from = MARGIN_X + 4 + pdf.getTextWidth(label);
+    const to = MARGIN_X + ctx.contentW - 2 - pdf.getTextWidth(pageLabel);
+    const dots = Math.max(0, Math.floor((to - from) / pdf.getTextWidth(".")));
+    if (dots > 0) pdf.text(".".repeat(dots), from, y);
+    pdf.link(MARGIN_X, y - 4, ctx.contentW, tocLine, { pageNumber: entry.page, top: entry.y });
+    pdf.outline.add(null, label, { pageNumber: entry.page });
+  });
+
+  drawHeaderFooter(ctx, spec);
+  return pdf;
+}
@@ -0,0 +1,133 @@
+import type { AnalyzeResponse, EchoModuleRow, EchoSummaryRow, GradeModuleRow, StudentRow } from "./schema";
+
+// ---------- Student privacy mode ----------
+// Identifiers are replaced with salted SHA-256 pseudonyms. The salt never leaves this browser, so
+// the same student gets the same pseudonym across runs here but can't be looked up elsewhere.
+
+export const MIN_GROUP_SIZE = 5; // aggregates over fewer students are suppressed
+
+const SALT_KEY = "cle-dashboard:privacy-salt";
+const PRIVACY_MODE_KEY = "cle-dashboard:privacy-mode";
+
+function getSalt(): string {
+  let salt = window.localStorage.getItem(SALT_KEY);
+  if (!salt) {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    salt = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+    window.localStorage.setItem(SALT_KEY, salt);
+  }
+  return salt;
+}
+
+async function hashHex(salt: string, value: string) {
+  const data = new TextEncoder().encode(`${salt}:${value.trim().toLowerCase()}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, 8);
+}
+
+export function loadPrivacyMode() {
+  if (typeof window === "undefined") return false;
+  try {
+    return window.localStorage.getItem(PRIVACY_MODE_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+export function savePrivacyMode(on: boolean) {
+  try {
+    window.localStorage.setItem(PRIVACY_MODE_KEY, on ? "on" : "off");
+  } catch {
+    // Storage full or disabled: the toggle just won't persist
+  }
+}
+
+function suppressed(n: number | null) {
+  return n !== null && n > 0 && n < MIN_GROUP_SIZE;
+}
+
+function suppressEchoModule(r: EchoModuleRow): EchoModuleRow {
+  if (!suppressed(r["# of Students Viewing"])) return r;
+  return { ...r, "Average View %": null, "# of Students Viewing": null, "Overall View %": null };
+}
+
+function suppressEchoSummary(r: EchoSummaryRow): EchoSummaryRow {
+  if (!suppressed(r["# of Unique Views"])) return r;
+  return {
+    ...r,
+    "# of Unique Views": null,
+    "Total Views": null,
+    "Total Watch Time (Min)": null,
+    "Average View %": null,
+    "% of Students Viewing": null,
+    "% of Video Viewed Overall": null,
+  };
+}
+
+function suppressGradeModule(r: GradeModuleRow): GradeModuleRow {
+  return { ...r, "Avg % Turned In": null, "Avg Average Excluding Zeros": null };
+}
+
+function replaceAll(text: string, replacements: Map<string, string>) {
+  let out = text;
+  // Longest first so "Jane Doe" is replaced before "Jane"
+  const keys = Array.from(replacements.keys()).sort((a, b) => b.length - a.length);
+  for (const k of keys) out = out.split(k).join(replacements.get(k) as string);
+  return out;
+}
+
+/**
+ * Copy of the result with student identifiers pseudonymized and small groups suppressed.
+ * Everything on screen and every export reads from this copy while privacy mode is on.
+ */
+export async function pseudonymizeResult(result: AnalyzeResponse): Promise<AnalyzeResponse> {
+  const salt = getSalt();
+  const replacements = new Map<string, string>();
+
+  const students: StudentRow[] = await Promise.all(
+    (result.students ?? []).map(async (s) => {
+      // One pseudonym per student, keyed on the most stable identifier available
+      const key = s["Student ID"] ?? s.Email ?? s.Student;
+      const h = await hashHex(salt, key);
+      const row: StudentRow = {
+        ...s,
+        Student: `Student ${h}`,
+        "Student ID": s["Student ID"] !== null ? h : null,
+        Email: s.Email !== null ? `user-${h}` : null,
+      };
+      if (s.Student.length >= 3) replacements.set(s.Student, row.Student);
+      // Canvas lists "Last, First"; free text usually says "First Last"
+      const m = s.Student.match(/^([^,]+),\s*(.+)$/);
+      if (m) replacements.set(`${m[2]} ${m[1]}`, row.Student);
+      if (s.Email && s.Email.length >= 3) replacements.set(s.Email, row.Email as string);
+      const sisId = s["Student ID"];
+      if (sisId && sisId.length >= 3) replacements.set(sisId, h);
+      return row;
+    })
+  );
+
+  // Whole-course aggregates reveal individuals when the class itself is tiny
+  const enrolled = result.echo?.modules?.[0]?.["# of Students"] ?? (students.length || null);
+  const tinyCourse = suppressed(enrolled);
+
+  const text = result.analysis?.text;
+
+  return {
+    ...result,
+    echo: {
+      summary: (result.echo?.summary ?? []).map(suppressEchoSummary),
+      modules: (result.echo?.modules ?? []).map(suppressEchoModule),
+    },
+    grades: {
+      summary: tinyCourse ? [] : result.grades?.summary ?? [],
+      module_metrics: (result.grades?.module_metrics ?? []).map((r) => (tinyCourse ? suppressGradeModule(r) : r)),
+    },
+    students,
+    analysis: {
+      ...result.analysis,
+      text: text ? replaceAll(text, replacements) : text,
+    },
+  };
+}
@@ -0,0 +1,313 @@
+import { parseAIAnalysis } from "./aiAnalysis";
+import {
+  ECHO_MODULE_COLS,
+  ECHO_MODULE_PERCENT_COLS,
+  ECHO_SUMMARY_COLS,
+  ECHO_SUMMARY_PERCENT_COLS,
+  GRADEBOOK_MODULE_COLS,
+  GRADEBOOK_MODULE_PERCENT_COLS,
+} from "./columns";
+import { EvaluatedKpi, KPI_TONE_LABELS, formatKpi } from "./kpis";
+import { ModuleMapping, orderModuleTables } from "./moduleMapping";
+import {
+  ReportBlock,
+  ReportLogo,
+  ReportOrientation,
+  ReportSection,
+  ReportSpec,
+  echoChartSpec,
+  gradebookChartSpec,
+  reportTable,
+  summarizeReportChart,
+} from "./pdfReport";
+import type { AnalyzeResponse, AnyRow } from "./schema";
+
+// ---------- PDF report builder ----------
+// Which sections go into the report, in what order, with how many table rows, plus title,
+// logo, orientation and free text. Saved as named presets so one layout serves every course.
+
+export type ReportSectionId =
+  | "executive-summary"
+  | "kpis"
+  | "echo-summary"
+  | "echo-modules"
+  | "echo-chart"
+  | "gradebook-summary"
+  | "gradebook-modules"
+  | "gradebook-chart"
+  | "ai-analysis"
+  | "instructor-note";
+
+export type ReportSectionDef = {
+  id: ReportSectionId;
+  label: string;
+  hasRows: boolean; // table section: honours the row limit
+};
+
+// Default order
+export const REPORT_SECTIONS: ReportSectionDef[] = [
+  { id: "executive-summary", label: "Executive Summary", hasRows: false },
+  { id: "kpis", label: "Key Performance Indicators", hasRows: false },
+  { id: "echo-summary", label: "Echo Summary", hasRows: true },
+  { id: "echo-modules", label: "Echo Module Metrics", hasRows: true },
+  { id: "echo-chart", label: "Echo Engagement Chart", hasRows: false },
+  { id: "gradebook-summary", label: "Gradebook Summary", hasRows: true },
+  { id: "gradebook-modules", label: "Gradebook Module Metrics", hasRows: true },
+  { id: "gradebook-chart", label: "Gradebook Performance Chart", hasRows: false },
+  { id: "ai-analysis", label: "AI Analysis", hasRows: false },
+  { id: "instructor-note", label: "Instructor Note", hasRows: false },
+];
+
+export function getReportSection(id: string) {
+  return REPORT_SECTIONS.find((s) => s.id === id);
+}
+
+export type ReportSectionChoice = {
+  id: ReportSectionId;
+  enabled: boolean;
+  rowLimit: number | null; // null = all rows
+};
+
+export const ROW_LIMIT_OPTIONS = [10, 25, 50, 100];
+
+export type ReportSettings = {
+  title: string;
+  orientation: ReportOrientation;
+  logo: ReportLogo | null;
+  executiveSummary: string;
+  instructorNote: string;
+  sections: ReportSectionChoice[];
+};
+
+export type ReportPreset = ReportSettings & { name: string };
+
+export const DEFAULT_REPORT_SETTINGS: ReportSettings = {
+  title: "CLE Analytics Report",
+  orientation: "portrait",
+  logo: null,
+  executiveSummary: "",
+  instructorNote: "",
+  sections: REPORT_SECTIONS.map((s) => ({ id: s.id, enabled: true, rowLimit: null })),
+};
+
+// ---------- Spec ----------
+
+export type ReportSource = {
+  courseId: string;
+  result: AnalyzeResponse; // privacy-aware result as shown on screen
+  kpis: EvaluatedKpi[];
+  mapping?: ModuleMapping | null; // module order from the mapping editor
+};
+
+function tableBlock(rows: AnyRow[], columns: string[], percentCols: string[], rowLimit: number | null): ReportBlock {
+  const limited = rowLimit !== null && rows.length > rowLimit;
+  return {
+    kind: "table",
+    table: reportTable(limited ? rows.slice(0, rowLimit!) : rows, columns, percentCols),
+    caption: limited ? `Showing ${rowLimit} of ${rows.length} rows.` : undefined,
+  };
+}
+
+function analysisBlock(text: string | null | undefined): ReportBlock {
+  const parsed = parseAIAnalysis(text);
+  if (parsed.kind === "cards" && parsed.cards.length > 0) {
+    return {
+      kind: "cards",
+      cards: parsed.cards.map((c) => ({
+        ...c,
+        metrics: c.metrics.map((m) => ({ label: m.label, value: m.value, note: KPI_TONE_LABELS[m.tone] })),
+      })),
+    };
+  }
+  return { kind: "text", text: text || "No AI analysis available." };
+}
+
+/** Sections with no content (empty tables, blank notes) are left out rather than printed empty. */
+export function buildReportSpec(settings: ReportSettings, source: ReportSource, generatedAt = new Date()): ReportSpec {
+  const { result } = source;
+  const echoSummary = result.echo?.summary ?? [];
+  const gradeSummary = result.grades?.summary ?? [];
+  const { echoModules, gradeModules } = orderModuleTables(
+    result.echo?.modules ?? [],
+    result.grades?.module_metrics ?? [],
+    source.mapping
+  );
+
+  const sections: ReportSection[] = [];
+  for (const choice of settings.sections) {
+    const def = getReportSection(choice.id);
+    if (!def || !choice.enabled) continue;
+    const blocks: ReportBlock[] = [];
+
+    if (choice.id === "executive-summary") {
+      if (settings.executiveSummary.trim()) blocks.push({ kind: "text", text: settings.executiveSummary.trim() });
+    } else if (choice.id === "instructor-note") {
+      if (settings.instructorNote.trim()) blocks.push({ kind: "text", text: settings.instructorNote.trim() });
+    } else if (choice.id === "kpis") {
+      if (source.kpis.length > 0) {
+        blocks.push({
+          kind: "kpis",
+          kpis: source.kpis.map((k) => ({
+            label: k.def.label,
+            value: formatKpi(k.def, k.value),
+            note: KPI_TONE_LABELS[k.tone],
+          })),
+        });
+      }
+    } else if (choice.id === "echo-summary") {
+      if (echoSummary.length > 0) {
+        blocks.push(tableBlock(echoSummary, ECHO_SUMMARY_COLS, ECHO_SUMMARY_PERCENT_COLS, choice.rowLimit));
+      }
+    } else if (choice.id === "echo-modules") {
+      if (echoModules.length > 0) {
+        blocks.push(tableBlock(echoModules, ECHO_MODULE_COLS, ECHO_MODULE_PERCENT_COLS, choice.rowLimit));
+      }
+    } else if (choice.id === "echo-chart") {
+      if (echoModules.length > 0) {
+        const chart = echoChartSpec(echoModules);
+        blocks.push({ kind: "chart", chart, summary: summarizeReportChart(chart) });
+      }
+    } else if (choice.id === "gradebook-summary") {
+      if (gradeSummary.length > 0) {
+        const columns = Object.keys(gradeSummary[0]);
+        blocks.push(tableBlock(gradeSummary, columns, columns.filter((c) => c !== "Metric"), choice.rowLimit));
+      }
+    } else if (choice.id === "gradebook-modules") {
+      if (gradeModules.length > 0) {
+        blocks.push(tableBlock(gradeModules, GRADEBOOK_MODULE_COLS, GRADEBOOK_MODULE_PERCENT_COLS, choice.rowLimit));
+      }
+    } else if (choice.id === "gradebook-chart") {
+      if (gradeModules.length > 0) {
+        const chart = gradebookChartSpec(gradeModules);
+        blocks.push({ kind: "chart", chart, summary: summarizeReportChart(chart) });
+      }
+    } else if (choice.id === "ai-analysis") {
+      blocks.push(analysisBlock(result.analysis?.text));
+    }
+
+    if (blocks.length > 0) sections.push({ title: def.label, blocks });
+  }
+
+  return {
+    title: settings.title.trim() || DEFAULT_REPORT_SETTINGS.title,
+    courseId: source.courseId.trim(),
+    generatedAt,
+    orientation: settings.orientation,
+    logo: settings.logo,
+    sections,
+  };
+}
+
+// ---------- Persistence ----------
+const REPORT_SETTINGS_KEY = "cle-dashboard:report-settings";
+const REPORT_PRESETS_KEY = "cle-dashboard:report-presets";
+
+function asText(v: unknown, fallback: string) {
+  return typeof v === "string" ? v : fallback;
+}
+
+function normalizeLogo(raw: any): ReportLogo | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { dataUrl, width, height } = raw;
+  if (typeof dataUrl !== "string" || !/^data:image\/(png|jpeg);/.test(dataUrl)) return null;
+  if (!(width > 0) || !(height > 0)) return null;
+  return { dataUrl, width, height };
+}
+
+// Stored sections in their saved order; sections added since are appended, unknown ids dropped
+function normalizeSections(raw: unknown): ReportSectionChoice[] {
+  const out: ReportSectionChoice[] = [];
+  if (Array.isArray(raw)) {
+    for (const s of raw) {
+      if (!s || !getReportSection(s.id) || out.some((o) => o.id === s.id)) continue;
+      const limit = typeof s.rowLimit === "number" && s.rowLimit > 0 ? Math.floor(s.rowLimit) : null;
+      out.push({ id: s.id, enabled: s.enabled !== false, rowLimit: limit });
+    }
+  }
+  for (const def of REPORT_SECTIONS) {
+    if (!out.some((o) => o.id === def.id)) out.push({ id: def.id, enabled: true, rowLimit: null });
+  }
+  return out;
+}
+
+export function normalizeReportSettings(raw: any): ReportSettings {
+  const r = raw && typeof raw === "object" ? raw : {};
+  return {
+    title: asText(r.title, DEFAULT_REPORT_SETTINGS.title),
+    orientation: r.orientation === "landscape" ? "landscape" : "portrait",
+    logo: normalizeLogo(r.logo),
+    executiveSummary: asText(r.executiveSummary, ""),
+    instructorNote: asText(r.instructorNote, ""),
+    sections: normalizeSections(r.sections),
+  };
+}
+
+function readJson(key: string) {
+  if (typeof window === "undefined") return null;
+  try {
+    return JSON.parse(window.localStorage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+/** Settings of the last export, the starting point of the builder. */
+export function loadReportSettings(): ReportSettings {
+  return normalizeReportSettings(readJson(REPORT_SETTINGS_KEY));
+}
+
+export function saveReportSettings(settings: ReportSettings) {
+  try {
+    window.localStorage.setItem(REPORT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled (large logo?): the builder starts from defaults next time
+  }
+}
+
+export function loadReportPresets(): ReportPreset[] {
+  const parsed = readJson(REPORT_PRESETS_KEY);
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter((p) => p && typeof p.name === "string" && p.name.trim())
+    .map((p) => ({ name: p.name.trim(), ...normalizeReportSettings(p) }));
+}
+
+/** Returns false when the presets could not be stored. */
+export function saveReportPresets(presets: ReportPreset[]) {
+  try {
+    window.localStorage.setItem(REPORT_PRESETS_KEY, JSON.stringify(presets));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------- Logo ----------
+const LOGO_MAX_PX_W = 600;
+const LOGO_MAX_PX_H = 200;
+
+/** Read an image file and shrink it to a small PNG data URL that fits in localStorage. */
+export async function readLogoFile(file: File): Promise<ReportLogo> {
+  if (!file.type.startsWith("image/")) throw new Error("Choose a PNG, JPEG or SVG image for the logo.");
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Could not read the logo image."));
+      img.src = url;
+    });
+    const scale = Math.min(1, LOGO_MAX_PX_W / img.naturalWidth, LOGO_MAX_PX_H / img.naturalHeight);
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available in this browser.");
+    ctx.drawImage(img, 0, 0, width, height);
+    return { dataUrl: canvas.toDataURL("image/png"), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
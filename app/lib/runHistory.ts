@@ -0,0 +1,162 @@
+import { ChatMessage, normalizeChat } from "./chat";
+import { AnalyzeResponse, parseAnalyzeResponse } from "./schema";
+
+// ---------- Saved analysis runs (IndexedDB) ----------
+export type SavedRun = {
+  id: string;
+  courseId: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  engine: "backend" | "local";
+  result: AnalyzeResponse;
+  chat?: ChatMessage[]; // follow-up questions about this run
+};
+
+const DB_NAME = "cle-dashboard";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+
+const BUNDLE_FORMAT = "cle-dashboard-runs";
+const BUNDLE_VERSION = 1;
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("This browser does not support saving runs (IndexedDB unavailable)."));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        const store = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+        store.createIndex("courseId", "courseId", { unique: false });
+        store.createIndex("createdAt", "createdAt", { unique: false });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Could not open saved runs database."));
+  });
+}
+
+// Run one request against the runs store and close the connection when the transaction settles
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(RUNS_STORE, mode);
+    const req = fn(tx.objectStore(RUNS_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(req.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error ?? req.error ?? new Error("Saved runs database error."));
+    };
+    tx.onabort = tx.onerror;
+  });
+}
+
+export function makeRunId(courseId: string, createdAt: string) {
+  return `${courseId || "course"}-${createdAt}`;
+}
+
+export function defaultRunName(courseId: string, createdAt: string) {
+  const when = new Date(createdAt).toLocaleString();
+  return courseId ? `Course ${courseId} — ${when}` : `Analysis — ${when}`;
+}
+
+export async function saveRun(run: SavedRun): Promise<SavedRun> {
+  await withStore("readwrite", (store) => store.put(run));
+  return run;
+}
+
+export async function listRuns(): Promise<SavedRun[]> {
+  const runs = await withStore<SavedRun[]>("readonly", (store) => store.getAll());
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getRun(id: string): Promise<SavedRun | null> {
+  const run = await withStore<SavedRun | undefined>("readonly", (store) => store.get(id));
+  return run ?? null;
+}
+
+export async function renameRun(id: string, name: string): Promise<SavedRun | null> {
+  const run = await getRun(id);
+  if (!run) return null;
+  return saveRun({ ...run, name: name.trim() || run.name });
+}
+
+export async function saveRunChat(id: string, chat: ChatMessage[]): Promise<SavedRun | null> {
+  const run = await getRun(id);
+  if (!run) return null;
+  return saveRun({ ...run, chat });
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+// ---------- JSON bundles for sharing runs ----------
+export function serializeRunsBundle(runs: SavedRun[]) {
+  return JSON.stringify(
+    { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), runs },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse a bundle produced by serializeRunsBundle. Each run's result goes back through the
+ * response schema so imported files get the same normalization as live backend responses.
+ */
+export function parseRunsBundle(text: string): SavedRun[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+
+  if (!raw || raw.format !== BUNDLE_FORMAT || !Array.isArray(raw.runs)) {
+    throw new Error("This file is not a CLE dashboard runs export.");
+  }
+  if (typeof raw.version !== "number" || raw.version > BUNDLE_VERSION) {
+    throw new Error("This runs export was made by a newer version of the dashboard.");
+  }
+
+  return raw.runs.map((r: any, idx: number): SavedRun => {
+    if (!r || typeof r !== "object" || !r.result) {
+      throw new Error(`Run ${idx + 1} in this file is missing its results.`);
+    }
+    const createdAt = typeof r.createdAt === "string" ? r.createdAt : new Date().toISOString();
+    const courseId = String(r.courseId ?? "");
+    return {
+      id: typeof r.id === "string" && r.id ? r.id : makeRunId(courseId, createdAt),
+      courseId,
+      name: typeof r.name === "string" && r.name ? r.name : defaultRunName(courseId, createdAt),
+      createdAt,
+      engine: r.engine === "local" ? "local" : "backend",
+      result: parseAnalyzeResponse(r.result).data,
+      chat: normalizeChat(r.chat),
+    };
+  });
+}
+
+export function downloadTextFile(fileName: string, text: string, mime = "application/json") {
+  downloadBlob(fileName, new Blob([text], { type: mime }));
+}
+
+export function downloadBlob(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
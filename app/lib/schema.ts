@@ -0,0 +1,349 @@
+import { parseDurationSeconds } from "./echoAnalytics";
+import { toNumber } from "./format";
+
+// ---------- Analyze response schema ----------
+// Single source of truth for the /analyze payload. Backend column aliases are normalized to one
+// canonical name per field so tables and charts never have to guess.
+
+export type AnyRow = Record<string, any>;
+
+// AI Analysis card structure from backend
+export type AIMetric = {
+  label: string;
+  value: string;
+  tone: "good" | "warn" | "bad" | "neutral";
+};
+
+export type AICard = {
+  id: string;
+  title: string;
+  summary: string;
+  bullets: string[];
+  metrics: AIMetric[];
+};
+
+export type AIAnalysisData = {
+  version: string;
+  cards: AICard[];
+};
+
+export type EchoSummaryRow = {
+  "Media Title": string;
+  "Video Duration": number | null; // seconds
+  "# of Unique Views": number | null;
+  "Total Views": number | null;
+  "Total Watch Time (Min)": number | null;
+  "Average View %": number | null; // proportion 0–1
+  "% of Students Viewing": number | null;
+  "% of Video Viewed Overall": number | null;
+};
+
+export type EchoModuleRow = {
+  Module: string;
+  "Average View %": number | null;
+  "# of Students Viewing": number | null;
+  "Overall View %": number | null;
+  "# of Students": number | null;
+};
+
+// One row per metric ("Average", "Average Excluding Zeros", ...) with one column per assignment
+export type GradeSummaryRow = {
+  Metric: string;
+  [assignment: string]: string | number | null;
+};
+
+export type GradeModuleRow = {
+  Module: string;
+  "Avg % Turned In": number | null;
+  "Avg Average Excluding Zeros": number | null;
+  n_assignments: number | null;
+};
+
+// One row per student: Canvas roster joined with their Echo360 viewing
+export type StudentRow = {
+  Student: string;
+  "Student ID": string | null; // Canvas user id
+  Email: string | null; // Echo360 user, or the Canvas login when they never watched
+  Section: string | null;
+  "Current Score": number | null; // proportion 0–1
+  "Letter Grade": string | null;
+  "% Turned In": number | null;
+  "Total Watch Time (Min)": number | null;
+  "# of Media Viewed": number | null;
+  "% of Media Viewed": number | null;
+};
+
+export type KpiValues = Record<string, string | number | null>;
+
+export type AnalyzeResponse = {
+  kpis?: KpiValues;
+  echo?: {
+    summary?: EchoSummaryRow[];
+    modules?: EchoModuleRow[];
+  };
+  grades?: {
+    summary?: GradeSummaryRow[];
+    module_metrics?: GradeModuleRow[];
+  };
+  students?: StudentRow[];
+  analysis?: {
+    text?: string | null;
+    error?: string | null;
+  };
+};
+
+type FieldKind = "string" | "number" | "duration";
+
+type TableSpec = {
+  label: string;
+  fields: Record<string, FieldKind>;
+  aliases: Record<string, string>; // alias -> canonical
+  required: string[];
+};
+
+const ECHO_SUMMARY_SPEC: TableSpec = {
+  label: "Echo Summary",
+  fields: {
+    "Media Title": "string",
+    "Video Duration": "duration",
+    "# of Unique Views": "number",
+    "Total Views": "number",
+    "Total Watch Time (Min)": "number",
+    "Average View %": "number",
+    "% of Students Viewing": "number",
+    "% of Video Viewed Overall": "number",
+  },
+  aliases: {
+    "Media Name": "Media Title",
+    "Duration": "Video Duration",
+    "# of Unique Viewers": "# of Unique Views",
+    "Avg View %": "Average View %",
+    "Average % Viewed": "Average View %",
+  },
+  required: ["Media Title"],
+};
+
+const ECHO_MODULE_SPEC: TableSpec = {
+  label: "Echo Module Table",
+  fields: {
+    Module: "string",
+    "Average View %": "number",
+    "# of Students Viewing": "number",
+    "Overall View %": "number",
+    "# of Students": "number",
+  },
+  aliases: {
+    module: "Module",
+    "Module Name": "Module",
+    module_name: "Module",
+    "# Students Viewing": "# of Students Viewing",
+    "Students Viewing": "# of Students Viewing",
+    "# of Unique Viewers": "# of Students Viewing",
+    "# of Unique Viewers (Module)": "# of Students Viewing",
+    "% of Video Viewed Overall": "Overall View %",
+    "Overall % Viewed": "Overall View %",
+    "Avg View %": "Average View %",
+    "Average % Viewed": "Average View %",
+    "# Students": "# of Students",
+    students_count: "# of Students",
+  },
+  required: ["Module"],
+};
+
+const GRADE_MODULE_SPEC: TableSpec = {
+  label: "Gradebook Module Metrics",
+  fields: {
+    Module: "string",
+    "Avg % Turned In": "number",
+    "Avg Average Excluding Zeros": "number",
+    n_assignments: "number",
+  },
+  aliases: {
+    module: "Module",
+    "Module Name": "Module",
+    module_name: "Module",
+    "Avg Turned In %": "Avg % Turned In",
+    "% Turned In": "Avg % Turned In",
+    "Avg Excluding Zeros": "Avg Average Excluding Zeros",
+    "Average Excluding Zeros": "Avg Average Excluding Zeros",
+    "# of Assignments": "n_assignments",
+  },
+  required: ["Module"],
+};
+
+const STUDENT_SPEC: TableSpec = {
+  label: "Students",
+  fields: {
+    Student: "string",
+    "Student ID": "string",
+    Email: "string",
+    Section: "string",
+    "Current Score": "number",
+    "Letter Grade": "string",
+    "% Turned In": "number",
+    "Total Watch Time (Min)": "number",
+    "# of Media Viewed": "number",
+    "% of Media Viewed": "number",
+  },
+  aliases: {
+    Name: "Student",
+    student: "Student",
+    student_name: "Student",
+    ID: "Student ID",
+    student_id: "Student ID",
+    "User Email": "Email",
+    email: "Email",
+    section: "Section",
+    current_score: "Current Score",
+    "Current Grade": "Letter Grade",
+    letter_grade: "Letter Grade",
+    "Turned In %": "% Turned In",
+    pct_turned_in: "% Turned In",
+    "Watch Time (Min)": "Total Watch Time (Min)",
+    watch_minutes: "Total Watch Time (Min)",
+    media_viewed: "# of Media Viewed",
+    "Media Viewed %": "% of Media Viewed",
+    pct_media_viewed: "% of Media Viewed",
+  },
+  required: ["Student"],
+};
+
+// Gradebook summary "Metric" values the backend has used for the same row
+const METRIC_ALIASES: Record<string, string> = {
+  "Avg Average Excluding Zeros": "Average Excluding Zeros",
+};
+
+export type SchemaWarning = {
+  table: string;
+  unexpected: string[]; // fields we don't know (ignored)
+  missing: string[]; // expected fields absent from every row
+};
+
+export type SchemaResult = {
+  data: AnalyzeResponse;
+  warnings: SchemaWarning[];
+};
+
+function coerce(kind: FieldKind, v: any) {
+  if (v === null || v === undefined || v === "") return null;
+  if (kind === "string") return String(v);
+  if (kind === "duration") return typeof v === "number" ? v : parseDurationSeconds(v);
+  return toNumber(v);
+}
+
+function asRows(v: unknown): AnyRow[] {
+  return Array.isArray(v) ? v.filter((r) => r && typeof r === "object" && !Array.isArray(r)) : [];
+}
+
+function normalizeTable<T>(raw: unknown, spec: TableSpec, warnings: SchemaWarning[]): T[] {
+  const rows = asRows(raw);
+  const unexpected = new Set<string>();
+  const seen = new Set<string>();
+
+  const out = rows.map((r) => {
+    const row: AnyRow = {};
+    for (const f of Object.keys(spec.fields)) row[f] = null;
+
+    for (const [key, value] of Object.entries(r)) {
+      const canonical = spec.fields[key] ? key : spec.aliases[key];
+      if (!canonical) {
+        unexpected.add(key);
+        continue;
+      }
+      // Canonical spelling wins when a row carries both
+      if (canonical !== key && r[canonical] !== undefined) continue;
+      row[canonical] = coerce(spec.fields[canonical], value);
+      seen.add(canonical);
+    }
+    return row as T;
+  });
+
+  const missing = rows.length > 0 ? Object.keys(spec.fields).filter((f) => !seen.has(f)) : [];
+  const missingRequired = spec.required.filter((f) => missing.includes(f));
+
+  if (unexpected.size > 0 || missing.length > 0) {
+    warnings.push({ table: spec.label, unexpected: Array.from(unexpected), missing });
+  }
+
+  // Without the key column nothing downstream can line rows up
+  if (missingRequired.length > 0) return [];
+  return out;
+}
+
+function normalizeGradeSummary(raw: unknown, warnings: SchemaWarning[]): GradeSummaryRow[] {
+  const rows = asRows(raw);
+  if (rows.length === 0) return [];
+
+  if (!rows.some((r) => r.Metric !== undefined)) {
+    warnings.push({ table: "Gradebook Summary Rows", unexpected: [], missing: ["Metric"] });
+  }
+
+  return rows.map((r) => {
+    const row: GradeSummaryRow = { Metric: "" };
+    for (const [key, value] of Object.entries(r)) {
+      if (key === "Metric") {
+        const metric = String(value ?? "");
+        row.Metric = METRIC_ALIASES[metric] ?? metric;
+      } else {
+        row[key] = toNumber(value);
+      }
+    }
+    return row;
+  });
+}
+
+const TOP_LEVEL_KEYS = ["kpis", "echo", "grades", "students", "analysis"];
+
+/**
+ * Validate and normalize a raw /analyze payload. Throws only when the payload is not an object;
+ * everything else degrades to warnings so a partially drifted response still renders.
+ */
+export function parseAnalyzeResponse(raw: unknown): SchemaResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Backend returned an unexpected response (expected a JSON object).");
+  }
+
+  const r = raw as AnyRow;
+  const warnings: SchemaWarning[] = [];
+
+  const unexpectedTop = Object.keys(r).filter((k) => !TOP_LEVEL_KEYS.includes(k));
+  if (unexpectedTop.length > 0) {
+    warnings.push({ table: "Response", unexpected: unexpectedTop, missing: [] });
+  }
+
+  const kpis: KpiValues = {};
+  if (r.kpis && typeof r.kpis === "object") {
+    for (const [k, v] of Object.entries(r.kpis as AnyRow)) {
+      kpis[k] = typeof v === "number" || typeof v === "string" ? v : v === null ? null : String(v);
+    }
+  }
+
+  const analysis = r.analysis && typeof r.analysis === "object" ? (r.analysis as AnyRow) : {};
+
+  return {
+    data: {
+      kpis,
+      echo: {
+        summary: normalizeTable<EchoSummaryRow>(r.echo?.summary, ECHO_SUMMARY_SPEC, warnings),
+        modules: normalizeTable<EchoModuleRow>(r.echo?.modules, ECHO_MODULE_SPEC, warnings),
+      },
+      grades: {
+        summary: normalizeGradeSummary(r.grades?.summary, warnings),
+        module_metrics: normalizeTable<GradeModuleRow>(r.grades?.module_metrics, GRADE_MODULE_SPEC, warnings),
+      },
+      students: normalizeTable<StudentRow>(r.students, STUDENT_SPEC, warnings),
+      analysis: {
+        text: typeof analysis.text === "string" ? analysis.text : null,
+        error: typeof analysis.error === "string" ? analysis.error : null,
+      },
+    },
+    warnings,
+  };
+}
+
+export function describeSchemaWarning(w: SchemaWarning) {
+  const parts: string[] = [];
+  if (w.missing.length > 0) parts.push(`missing ${w.missing.map((f) => `“${f}”`).join(", ")}`);
+  if (w.unexpected.length > 0) parts.push(`unexpected ${w.unexpected.map((f) => `“${f}”`).join(", ")}`);
+  return `${w.table}: ${parts.join("; ")}`;
+}
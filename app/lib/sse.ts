@@ -0,0 +1,43 @@
+// ---------- Server-sent events ----------
+// Minimal reader for `text/event-stream` bodies read through fetch (EventSource can't POST,
+// send headers or take an AbortSignal).
+
+export function isEventStream(res: Response) {
+  return (res.headers.get("content-type") ?? "").includes("text/event-stream");
+}
+
+/**
+ * Call `onData` with the joined `data:` lines of each event. Return false from `onData` to stop
+ * reading early. Resolves true when stopped that way, false when the stream simply ended.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => boolean | void
+): Promise<boolean> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      // Events end with a blank line; a partial event stays buffered
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : events.pop() ?? "";
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((l) => l.startsWith("data:"))
+          .map((l) => l.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (!data) continue;
+        if (onData(data) === false) return true;
+      }
+      if (done) return false;
+    }
+  } finally {
+    // Also runs when onData throws, so the connection is never left open
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,160 @@
+import { parseDurationSeconds } from "./echoAnalytics";
+import { formatCell, toNumber } from "./format";
+import type { AnyRow } from "./schema";
+
+// ---------- Table sorting / filtering ----------
+export type SortDir = "asc" | "desc";
+
+export type TableSort = { col: string; dir: SortDir } | null;
+
+// Bounds are in display units: percent columns use 0–100, durations seconds, everything else the raw number
+export type NumericRange = { min?: number; max?: number };
+
+export type TableView = {
+  sort: TableSort;
+  query: string;
+  ranges: Record<string, NumericRange>;
+  hidden: string[];
+};
+
+export const EMPTY_TABLE_VIEW: TableView = { sort: null, query: "", ranges: {}, hidden: [] };
+
+const DURATION_COLS = ["Video Duration"];
+
+// Shown as h:mm:ss but filtered and sorted in seconds
+export function isDurationCol(col: string) {
+  return DURATION_COLS.includes(col);
+}
+
+function isPercentCol(col: string, value: number, percentCols?: string[]) {
+  if (percentCols?.includes(col)) return true;
+  // Same auto-percent rule formatCell uses
+  return col.includes("%") && value >= 0 && value <= 1.5;
+}
+
+/** Numeric value used for sorting and range filters, or null for text/blank cells. */
+export function cellNumber(col: string, value: any): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (isDurationCol(col)) return parseDurationSeconds(value);
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const s = String(value).trim();
+  // Only treat as numeric when the whole cell looks like a number (same rule as formatCell)
+  if (!/^[+\-]?[\d,\.]+%?$/.test(s)) return null;
+  return toNumber(s);
+}
+
+// Value in the units the user sees (percent columns ×100)
+export function displayNumber(col: string, value: any, percentCols?: string[]): number | null {
+  const n = cellNumber(col, value);
+  if (n === null) return null;
+  return isPercentCol(col, n, percentCols) ? n * 100 : n;
+}
+
+/** Columns where most non-blank values are numeric; these get range filters and numeric sort. */
+export function numericColumns(rows: AnyRow[], cols: string[], sample = 200): string[] {
+  const take = rows.slice(0, sample);
+  return cols.filter((c) => {
+    let numeric = 0;
+    let filled = 0;
+    for (const r of take) {
+      const v = r?.[c];
+      if (v === null || v === undefined || v === "") continue;
+      filled++;
+      if (cellNumber(c, v) !== null) numeric++;
+    }
+    return filled > 0 && numeric / filled >= 0.8;
+  });
+}
+
+function compareValues(col: string, a: any, b: any) {
+  const na = cellNumber(col, a);
+  const nb = cellNumber(col, b);
+  if (na !== null && nb !== null) return na - nb;
+  // Numbers before text
+  if (na !== null) return -1;
+  if (nb !== null) return 1;
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true, sensitivity: "base" });
+}
+
+function isBlank(v: any) {
+  return v === null || v === undefined || v === "";
+}
+
+/** Apply text filter, range filters and sort. Blank cells always sort last. */
+export function applyTableView(rows: AnyRow[], cols: string[], view: TableView, percentCols?: string[]): AnyRow[] {
+  const q = view.query.trim().toLowerCase();
+  const activeRanges = Object.entries(view.ranges).filter(
+    ([, r]) => r && (typeof r.min === "number" || typeof r.max === "number")
+  );
+
+  let out = rows;
+
+  if (q) {
+    out = out.filter((r) => cols.some((c) => formatCell(c, r?.[c], percentCols).toLowerCase().includes(q)));
+  }
+
+  if (activeRanges.length > 0) {
+    out = out.filter((r) =>
+      activeRanges.every(([c, range]) => {
+        const n = displayNumber(c, r?.[c], percentCols);
+        if (n === null) return false;
+        if (typeof range.min === "number" && n < range.min) return false;
+        if (typeof range.max === "number" && n > range.max) return false;
+        return true;
+      })
+    );
+  }
+
+  const sort = view.sort;
+  if (sort) {
+    const sign = sort.dir === "asc" ? 1 : -1;
+    out = [...out].sort((a, b) => {
+      const va = a?.[sort.col];
+      const vb = b?.[sort.col];
+      if (isBlank(va) && isBlank(vb)) return 0;
+      if (isBlank(va)) return 1;
+      if (isBlank(vb)) return -1;
+      return sign * compareValues(sort.col, va, vb);
+    });
+  }
+
+  return out;
+}
+
+// Header click cycles ascending -> descending -> unsorted
+export function nextSort(current: TableSort, col: string): TableSort {
+  if (!current || current.col !== col) return { col, dir: "asc" };
+  if (current.dir === "asc") return { col, dir: "desc" };
+  return null;
+}
+
+export function isViewFiltered(view: TableView) {
+  return (
+    view.query.trim() !== "" ||
+    Object.values(view.ranges).some((r) => typeof r?.min === "number" || typeof r?.max === "number")
+  );
+}
+
+// ---------- Windowed rendering ----------
+export type VirtualWindow = {
+  start: number; // first rendered row (inclusive)
+  end: number; // last rendered row (exclusive)
+  padTop: number; // px of skipped rows above
+  padBottom: number; // px of skipped rows below
+};
+
+/** Which rows to render for a scroll position, assuming every row is `rowHeight` px tall. */
+export function virtualWindow(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  total: number,
+  overscan = 10
+): VirtualWindow {
+  if (total <= 0 || rowHeight <= 0) return { start: 0, end: total, padTop: 0, padBottom: 0 };
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const visible = Math.ceil(Math.max(viewportHeight, rowHeight) / rowHeight);
+  const start = Math.max(0, Math.min(first, total - 1) - overscan);
+  const end = Math.min(total, first + visible + overscan);
+  return { start, end, padTop: start * rowHeight, padBottom: (total - end) * rowHeight };
+}
@@ -0,0 +1,137 @@
+import { EMPTY_TABLE_VIEW, NumericRange, TableView } from "./tableView";
+
+// ---------- Deep links ----------
+// View state lives in the query string so a URL reopens the same step, tab, run and table views:
+//   ?course=12345&step=3&tab=charts&run=<saved run id>&baseline=<run id>&t.students=<table view JSON>
+// Runs are stored in this browser's IndexedDB, so a run link only resolves where that run was saved
+// (or after importing it from a runs bundle).
+
+export type DashboardStep = 1 | 2 | 3;
+
+export const DASHBOARD_TABS = ["tables", "students", "charts", "ai", "compare"] as const;
+
+export type DashboardTab = (typeof DASHBOARD_TABS)[number];
+
+export type DashboardUrlState = {
+  step: DashboardStep;
+  tab: DashboardTab;
+  course: string;
+  run: string | null;
+  baseline: string | null;
+};
+
+const TABLE_PARAM_PREFIX = "t.";
+
+function isTab(v: string | null): v is DashboardTab {
+  return !!v && (DASHBOARD_TABS as readonly string[]).includes(v);
+}
+
+/** Read the dashboard-level view state; anything missing or malformed falls back to the defaults. */
+export function parseDashboardState(search: string): DashboardUrlState {
+  const params = new URLSearchParams(search);
+  const step = Number(params.get("step"));
+  const tab = params.get("tab");
+  return {
+    step: step === 2 || step === 3 ? step : 1,
+    tab: isTab(tab) ? tab : "tables",
+    course: params.get("course")?.trim() ?? "",
+    run: params.get("run") || null,
+    baseline: params.get("baseline") || null,
+  };
+}
+
+/** Query params for the dashboard state; defaults are omitted to keep links short. */
+export function dashboardParams(state: DashboardUrlState): Record<string, string | null> {
+  return {
+    course: state.course.trim() || null,
+    step: state.step === 1 ? null : String(state.step),
+    tab: state.step === 3 && state.tab !== "tables" ? state.tab : null,
+    run: state.step === 3 ? state.run : null,
+    baseline: state.step === 3 ? state.baseline : null,
+  };
+}
+
+// ---------- Table views ----------
+type EncodedTableView = {
+  s?: [string, "asc" | "desc"];
+  q?: string;
+  r?: Record<string, [number | null, number | null]>;
+  h?: string[];
+};
+
+export function encodeTableView(view: TableView): string | null {
+  const out: EncodedTableView = {};
+  if (view.sort) out.s = [view.sort.col, view.sort.dir];
+  if (view.query.trim()) out.q = view.query;
+  const ranges = Object.entries(view.ranges).filter(
+    ([, r]) => typeof r?.min === "number" || typeof r?.max === "number"
+  );
+  if (ranges.length > 0) {
+    out.r = Object.fromEntries(ranges.map(([c, r]) => [c, [r.min ?? null, r.max ?? null]]));
+  }
+  if (view.hidden.length > 0) out.h = view.hidden;
+  return Object.keys(out).length > 0 ? JSON.stringify(out) : null;
+}
+
+/** Inverse of encodeTableView. Returns null when the param is absent or unreadable. */
+export function decodeTableView(raw: string | null): TableView | null {
+  if (!raw) return null;
+  let parsed: EncodedTableView;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") return null;
+
+  const view: TableView = { ...EMPTY_TABLE_VIEW, ranges: {}, hidden: [] };
+  if (Array.isArray(parsed.s) && typeof parsed.s[0] === "string" && (parsed.s[1] === "asc" || parsed.s[1] === "desc")) {
+    view.sort = { col: parsed.s[0], dir: parsed.s[1] };
+  }
+  if (typeof parsed.q === "string") view.query = parsed.q;
+  if (parsed.r && typeof parsed.r === "object") {
+    for (const [col, bounds] of Object.entries(parsed.r)) {
+      if (!Array.isArray(bounds)) continue;
+      const range: NumericRange = {};
+      if (typeof bounds[0] === "number") range.min = bounds[0];
+      if (typeof bounds[1] === "number") range.max = bounds[1];
+      if (range.min !== undefined || range.max !== undefined) view.ranges[col] = range;
+    }
+  }
+  if (Array.isArray(parsed.h)) view.hidden = parsed.h.filter((c): c is string => typeof c === "string");
+  return view;
+}
+
+export function tableParam(tableId: string) {
+  return `${TABLE_PARAM_PREFIX}${tableId}`;
+}
+
+export function readTableView(tableId: string): TableView | null {
+  if (typeof window === "undefined") return null;
+  return decodeTableView(new URLSearchParams(window.location.search).get(tableParam(tableId)));
+}
+
+// Another run's rows: filters and sorts from the previous one no longer apply
+export function clearTableViews() {
+  if (typeof window === "undefined") return;
+  const keys = Array.from(new URLSearchParams(window.location.search).keys());
+  updateUrl(Object.fromEntries(keys.filter((k) => k.startsWith(TABLE_PARAM_PREFIX)).map((k) => [k, null])), "replace");
+}
+
+// ---------- History ----------
+/**
+ * Merge params into the current URL. "push" adds a history entry (step/tab/run changes, so back and
+ * forward work like pages); "replace" rewrites the current one (typing, sorting, filtering).
+ * No-op when nothing changes, so re-applying state restored from popstate never adds entries.
+ */
+export function updateUrl(params: Record<string, string | null>, mode: "push" | "replace") {
+  if (typeof window === "undefined") return;
+  const url = new URL(window.location.href);
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null) url.searchParams.delete(key);
+    else url.searchParams.set(key, value);
+  }
+  if (url.searchParams.toString() === new URLSearchParams(window.location.search).toString()) return;
+  if (mode === "push") window.history.pushState(null, "", url);
+  else window.history.replaceState(null, "", url);
+}
@@ -1,525 +1,470 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import AIAnalysisPanel from "./components/ai/AIAnalysisPanel";
+import ChatPanel from "./components/ai/ChatPanel";
+import BatchPanel from "./components/batch/BatchPanel";
+import CorrelationPanel from "./components/charts/CorrelationPanel";
 import EchoComboChart from "./components/charts/EchoComboChart";
+import ComparePanel from "./components/compare/ComparePanel";
 import GradebookComboChart from "./components/charts/GradebookComboChart";
-
-type AnyRow = Record<string, any>;
-type Row = Record<string, any>;
-
-// AI Analysis card structure from backend
-type AIMetric = {
-  label: string;
-  value: string;
-  tone: "good" | "warn" | "bad" | "neutral";
+import MediaEngagementPanel from "./components/charts/MediaEngagementPanel";
+import HistoryPanel from "./components/history/HistoryPanel";
+import ModuleMappingEditor from "./components/mapping/ModuleMappingEditor";
+import StudentsPanel from "./components/students/StudentsPanel";
+import Table from "./components/table/Table";
+import Tooltip from "./components/Tooltip";
+import KpiCard from "./components/kpi/KpiCard";
+import KpiPicker from "./components/kpi/KpiPicker";
+import ReportBuilderDialog from "./components/report/ReportBuilderDialog";
+import AnalysisProgress from "./components/upload/AnalysisProgress";
+import ApiErrorNotice from "./components/upload/ApiErrorNotice";
+import CanvasFetchPanel from "./components/upload/CanvasFetchPanel";
+import CsvCheckPanel from "./components/upload/CsvCheckPanel";
+import {
+  ECHO_MODULE_COLS,
+  ECHO_MODULE_PERCENT_COLS,
+  ECHO_SUMMARY_COLS,
+  ECHO_SUMMARY_PERCENT_COLS,
+  GRADEBOOK_MODULE_COLS,
+  GRADEBOOK_MODULE_PERCENT_COLS,
+  STUDENT_COLS,
+  STUDENT_PERCENT_COLS,
+} from "./lib/columns";
+import { MetricLink, MetricTable } from "./lib/aiAnalysis";
+import { JobStage, StageReporter, initialStages, runAnalysisJob, updateStage } from "./lib/analysisJob";
+import { ApiError } from "./lib/apiClient";
+import { chatEndpoint } from "./lib/chat";
+import { readCsvFile } from "./lib/csv";
+import { CsvKind, CsvValidationReport, validateCsv } from "./lib/csvValidation";
+import { exportWorkbook } from "./lib/excelExport";
+import { DEFAULT_KPI_IDS, evaluateKpis, loadKpiSelection, saveKpiSelection } from "./lib/kpis";
+import { analyzeFilesLocally, studentRowsFromFiles } from "./lib/localAnalysis";
+import { parseCanvasGradebook } from "./lib/canvasGradebook";
+import { parseEchoAnalytics } from "./lib/echoAnalytics";
+import { EMPTY_TABLE_VIEW } from "./lib/tableView";
+import {
+  ModuleHints,
+  ModuleMapping,
+  UNASSIGNED_MODULE,
+  buildModuleMapping,
+  loadModuleMapping,
+  orderModuleTables,
+  saveModuleMapping,
+} from "./lib/moduleMapping";
+import { buildPdfReport } from "./lib/pdfReport";
+import { ReportSettings, buildReportSpec } from "./lib/reportBuilder";
+import { MIN_GROUP_SIZE, loadPrivacyMode, pseudonymizeResult, savePrivacyMode } from "./lib/privacy";
+import { SavedRun, defaultRunName, getRun, makeRunId, saveRun } from "./lib/runHistory";
+import {
+  AnalyzeResponse,
+  describeSchemaWarning,
+  SchemaWarning,
+} from "./lib/schema";
+import {
+  DASHBOARD_TABS,
+  DashboardStep,
+  DashboardTab,
+  clearTableViews,
+  dashboardParams,
+  encodeTableView,
+  parseDashboardState,
+  readTableView,
+  tableParam,
+  updateUrl,
+} from "./lib/urlState";
+
+// Tables tab titles (also the table ids) that AI metric chips and chat citations link to
+const METRIC_TABLE_TITLES: Record<MetricTable, string> = {
+  "echo-summary": "Echo Summary",
+  "echo-modules": "Echo Module Table",
+  "gradebook-summary": "Gradebook Summary Rows",
+  "gradebook-modules": "Gradebook Module Metrics",
 };
 
-type AICard = {
-  id: string;
-  title: string;
-  summary: string;
-  bullets: string[];
-  metrics: AIMetric[];
-};
-
-type AIAnalysisData = {
-  version: string;
-  cards: AICard[];
-};
-
-type AnalyzeResponse = {
-  kpis?: Record<string, any>;
-  echo?: {
-    summary?: AnyRow[];
-    modules?: AnyRow[];
-  };
-  grades?: {
-    summary?: AnyRow[]; // includes "Metric"
-    module_metrics?: AnyRow[];
-  };
-  analysis?: {
-    text?: string | null;
-    error?: string | null;
-  };
-};
-
-// ---------- Column presets (match Streamlit intent) ----------
-const ECHO_SUMMARY_COLS = [
-  "Media Title",
-  "Video Duration",
-  "# of Unique Views",
-  "Total Views",
-  "Total Watch Time (Min)",
-  "Average View %",
-  "% of Students Viewing",
-  "% of Video Viewed Overall",
-];
-
-const ECHO_MODULE_COLS = ["Module", "Average View %", "# of Students Viewing", "Overall View %", "# of Students"];
-
-const GRADEBOOK_MODULE_COLS = ["Module", "Avg % Turned In", "Avg Average Excluding Zeros", "n_assignments"];
-
-const ECHO_SUMMARY_PERCENT_COLS = ["Average View %", "% of Students Viewing", "% of Video Viewed Overall"];
-const ECHO_MODULE_PERCENT_COLS = ["Average View %", "Overall View %"];
-const GRADEBOOK_MODULE_PERCENT_COLS = ["Avg % Turned In", "Avg Average Excluding Zeros"];
-
-// ---------- Column help text (from helptext.py) ----------
-const COLUMN_HELP_TEXT: Record<string, string> = {
-  // Echo Summary
-  "Media Title": "Name of the Echo360 media item as published to students.",
-  "Video Duration": "Total runtime of the media in hours:minutes:seconds.",
-  "# of Unique Views": "Distinct students who watched this media at least once.",
-  "# of Unique Viewers": "Distinct students who watched this media at least once.",
-  "Total Views": "Total number of views across all students.",
-  "Total Watch Time (Min)": "Total minutes watched across all viewers.",
-  "Average View %": "Average portion of the video watched per student viewer.",
-  "% of Students Viewing": "Percent of enrolled students who viewed this media.",
-  "% of Video Viewed Overall": "Share of total video minutes watched across all viewers.",
-
-  // Echo Module
-  "Module": "Canvas module that contains these Echo360 media items or assignments.",
-  "# of Students Viewing": "Students who watched any Echo360 media within this module.",
-  "Overall View %": "Combined percentage of media watched by the viewing students.",
-  "# of Students": "Total students in the course for comparison to viewers.",
-
-  // Gradebook Module
-  "Avg % Turned In": "Average submission rate for assignments within the module.",
-  "Avg Average Excluding Zeros": "Mean assignment score ignoring missing (zero) submissions.",
-  "n_assignments": "Number of assignments mapped to the module.",
-};
+export default function Home() {
+  const [step, setStep] = useState<DashboardStep>(1);
+  const [activeTab, setActiveTab] = useState<DashboardTab>("tables");
 
-// ---------- Tooltip component ----------
-function Tooltip({ text, children, position = "top" }: { text: string; children: React.ReactNode; position?: "top" | "bottom" }) {
-  const [show, setShow] = useState(false);
+  const [courseId, setCourseId] = useState("");
+  const [canvasCsv, setCanvasCsv] = useState<File | null>(null);
+  const [canvasSource, setCanvasSource] = useState<"upload" | "api">("upload");
+  const [echoCsv, setEchoCsv] = useState<File | null>(null);
 
-  return (
-    <span
-      className="relative inline-block"
-      onMouseEnter={() => setShow(true)}
-      onMouseLeave={() => setShow(false)}
-    >
-      {children}
-      {show && position === "top" && (
-        <span className="absolute z-50 bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-slate-900 rounded-lg whitespace-nowrap shadow-lg pointer-events-none">
-          {text}
-          <span className="absolute top-full left-1/2 -translate-x-1/2 -mt-1 border-4 border-transparent border-t-slate-900" />
-        </span>
-      )}
-      {show && position === "bottom" && (
-        <span className="absolute z-50 top-full left-1/2 -translate-x-1/2 mt-2 px-3 py-2 text-xs text-white bg-slate-900 rounded-lg whitespace-nowrap shadow-lg pointer-events-none">
-          {text}
-          <span className="absolute bottom-full left-1/2 -translate-x-1/2 -mb-1 border-4 border-transparent border-b-slate-900" />
-        </span>
-      )}
-    </span>
-  );
-}
+  // Module mapping editor: titles come from the selected files, hints from a Canvas API fetch
+  const [assignmentTitles, setAssignmentTitles] = useState<string[]>([]);
+  const [mediaTitles, setMediaTitles] = useState<string[]>([]);
+  const [moduleHints, setModuleHints] = useState<ModuleHints | null>(null);
+  const [moduleMapping, setModuleMapping] = useState<ModuleMapping | null>(null);
+  const [showMapping, setShowMapping] = useState(false);
 
-// ---------- Formatting helpers ----------
-function toNumber(v: any): number | null {
-  if (v === null || v === undefined || v === "") return null;
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  const s = String(v).trim();
-  if (!s) return null;
-  const cleaned = s.replace(/%/g, "").replace(/,/g, "");
-  const n = Number(cleaned);
-  return Number.isFinite(n) ? n : null;
-}
+  // Client-side CSV checks (run on file select, before upload)
+  const [canvasReport, setCanvasReport] = useState<CsvValidationReport | null>(null);
+  const [echoReport, setEchoReport] = useState<CsvValidationReport | null>(null);
+  const [checkingCsv, setCheckingCsv] = useState<Record<CsvKind, boolean>>({ canvas: false, echo: false });
+  // Latest file per kind, so a slow read of a replaced file can't overwrite the newer results
+  const selectedCsvRef = useRef<Record<CsvKind, File | null>>({ canvas: null, echo: null });
 
-function formatNumberCell(n: number) {
-  if (!Number.isFinite(n)) return "";
-  if (Math.abs(n) >= 1000) return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
-  return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
-}
+  const [loading, setLoading] = useState(false);
+  // Stage list of the running analysis; the controller cancels it
+  const [stages, setStages] = useState<JobStage[]>([]);
+  const [analysisStartedAt, setAnalysisStartedAt] = useState(0);
+  const [cancelling, setCancelling] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Backend failures keep their ApiError so the banner can show the category and next steps
+  const [error, setError] = useState<string | ApiError | null>(null);
+  const [result, setResult] = useState<AnalyzeResponse | null>(null);
+  const [schemaWarnings, setSchemaWarnings] = useState<SchemaWarning[]>([]);
 
-function formatPercentCell(v: any) {
-  const n = toNumber(v);
-  if (n === null) return "";
-  const pct = n * 100;
-  return `${pct.toFixed(1)}%`;
-}
+  // Saved runs (IndexedDB)
+  // History and Batch replace the stepper content while open
+  const [panel, setPanel] = useState<"history" | "batch" | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
 
-function formatDuration(seconds: number): string {
-  if (!Number.isFinite(seconds) || seconds < 0) return "";
-  const hrs = Math.floor(seconds / 3600);
-  const mins = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${hrs.toString().padStart(2, "0")}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
-}
+  // Term-over-term comparison baseline (a saved run)
+  const [baselineRun, setBaselineRun] = useState<SavedRun | null>(null);
 
-function formatCell(key: string, value: any, percentCols?: string[]) {
-  if (value === null || value === undefined) return "";
+  // PDF export state
+  const [exportingPDF, setExportingPDF] = useState(false);
+  const [showReportBuilder, setShowReportBuilder] = useState(false);
 
-  if (percentCols?.includes(key)) return formatPercentCell(value);
+  // Excel export state
+  const [exportingExcel, setExportingExcel] = useState(false);
 
-  // Format Video Duration as hh:mm:ss
-  if (key === "Video Duration") {
-    const n = toNumber(value);
-    if (n !== null) return formatDuration(n);
-  }
+  const [linkCopied, setLinkCopied] = useState(false);
 
-  // Auto percent if header includes % and value looks like proportion
-  const n = toNumber(value);
-  if (key.includes("%") && n !== null && n >= 0 && n <= 1.5) {
-    return formatPercentCell(n);
-  }
+  const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL || "";
 
-  if (typeof value === "number") return formatNumberCell(value);
-  if (n !== null && String(value).match(/^[\d,\.\-]+%?$/)) return formatNumberCell(n);
+  // "local" computes the tables in the browser (no upload, no AI analysis)
+  const [engine, setEngine] = useState<"backend" | "local">(apiBase ? "backend" : "local");
 
-  return String(value);
-}
+  // Privacy mode: every table, chart and export reads the pseudonymized copy instead of `result`
+  const [privacyMode, setPrivacyMode] = useState(false);
+  const [privateResult, setPrivateResult] = useState<AnalyzeResponse | null>(null);
+  const [privateBaseline, setPrivateBaseline] = useState<AnalyzeResponse | null>(null);
 
-// ---------- Option B: measure + set widths via colgroup ----------
-function isTextHeavyCol(col: string) {
-  return /title|name|media|assignment|page|url|link|description/i.test(col);
-}
+  useEffect(() => {
+    setPrivacyMode(loadPrivacyMode());
+  }, []);
 
-function isNumericishCol(col: string) {
-  return /%|count|views|time|duration|avg|total|n_/i.test(col);
-}
+  useEffect(() => {
+    if (!privacyMode) {
+      setPrivateResult(null);
+      setPrivateBaseline(null);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([
+      result ? pseudonymizeResult(result) : null,
+      baselineRun ? pseudonymizeResult(baselineRun.result) : null,
+    ])
+      .then(([r, b]) => {
+        if (cancelled) return;
+        setPrivateResult(r);
+        setPrivateBaseline(b);
+      })
+      .catch((e) => setError(e?.message ?? String(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [privacyMode, result, baselineRun]);
 
-function buildColWidths(
-  rows: AnyRow[],
-  cols: string[],
-  percentCols?: string[],
-  opts?: {
-    sample?: number;
-    font?: string;
-    paddingPx?: number;
-    minPx?: number;
-    maxTextPx?: number;
-    maxDefaultPx?: number;
+  function togglePrivacyMode(on: boolean) {
+    setPrivacyMode(on);
+    savePrivacyMode(on);
   }
-) {
-  const sample = opts?.sample ?? 80;
-  const font = opts?.font ?? "12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial";
-  const paddingPx = opts?.paddingPx ?? 22; // cell padding + some breathing room
-  const minPx = opts?.minPx ?? 70;
-  const maxTextPx = opts?.maxTextPx ?? 520; // cap long text columns
-  const maxDefaultPx = opts?.maxDefaultPx ?? 320;
 
-  // SSR safety
-  if (typeof document === "undefined") return {};
+  // KPI cards the user picked, in display order (screen and PDF; Excel uses the default set)
+  const [kpiIds, setKpiIds] = useState<string[]>(DEFAULT_KPI_IDS);
+  const [showKpiPicker, setShowKpiPicker] = useState(false);
 
-  const canvas = document.createElement("canvas");
-  const ctx = canvas.getContext("2d");
-  if (!ctx) return {};
+  useEffect(() => {
+    setKpiIds(loadKpiSelection());
+  }, []);
 
-  ctx.font = font;
+  function changeKpiSelection(ids: string[]) {
+    setKpiIds(ids);
+    saveKpiSelection(ids);
+  }
 
-  const widths: Record<string, number> = {};
-  const take = rows.slice(0, sample);
+  // Deep links: restore course, step, tab and saved runs from the URL on load and on back/forward.
+  // Runs are fetched before any state is set so the URL sync below never sees a half-restored view.
+  const [urlReady, setUrlReady] = useState(false);
 
-  for (const c of cols) {
-    let max = ctx.measureText(String(c)).width;
+  useEffect(() => {
+    let cancelled = false;
+
+    async function restoreFromUrl() {
+      const state = parseDashboardState(window.location.search);
+      const wantsResults = state.step === 3;
+      let run: SavedRun | null | undefined; // undefined = keep what's loaded
+      let baseline: SavedRun | null | undefined;
+      let missing = false;
+      try {
+        if (wantsResults && state.run && state.run !== activeRunId) {
+          run = await getRun(state.run);
+          missing = !run;
+        }
+        if (wantsResults && state.baseline !== (baselineRun?.id ?? null)) {
+          baseline = state.baseline ? await getRun(state.baseline) : null;
+        }
+      } catch {
+        missing = !!state.run;
+      }
+      if (cancelled) return;
 
-    for (const r of take) {
-      const txt = String(formatCell(c, r?.[c], percentCols) ?? "");
-      const w = ctx.measureText(txt).width;
-      if (w > max) max = w;
+      if (run) {
+        setResult(run.result);
+        setSchemaWarnings([]);
+        setActiveRunId(run.id);
+      }
+      if (baseline !== undefined) setBaselineRun(baseline);
+      setCourseId(run?.courseId ?? state.course);
+      setPanel(null);
+      setActiveTab(state.tab);
+
+      const hasResults = !!run || (!missing && !!result);
+      if (wantsResults && !hasResults) {
+        // Nothing to show for a results link: fall back to the upload step without leaving a dead history entry
+        const fallback: DashboardStep = state.course ? 2 : 1;
+        setStep(fallback);
+        updateUrl(dashboardParams({ ...state, step: fallback }), "replace");
+        if (missing) {
+          setError(
+            "The linked saved run isn't in this browser's history. Import it from a runs bundle under History, or run the analysis again."
+          );
+        }
+      } else {
+        setStep(state.step);
+      }
+      setUrlReady(true);
     }
 
-    const padded = Math.ceil(max + paddingPx);
-
-    const cap = isTextHeavyCol(c) ? maxTextPx : maxDefaultPx;
-    const clamped = Math.max(minPx, Math.min(padded, cap));
+    if (!urlReady) restoreFromUrl();
+    window.addEventListener("popstate", restoreFromUrl);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("popstate", restoreFromUrl);
+    };
+  }, [urlReady, result, activeRunId, baselineRun]);
 
-    // Numeric-ish columns can be tighter
-    widths[c] = isNumericishCol(c) && !isTextHeavyCol(c) ? Math.min(clamped, 180) : clamped;
+  // Keep the URL in sync: step, tab and run changes get their own history entry (so back/forward
+  // behave like pages); edits like typing the course ID just rewrite the current entry.
+  useEffect(() => {
+    if (!urlReady) return;
+    const current = parseDashboardState(window.location.search);
+    const navigated =
+      current.step !== step || (step === 3 && (current.tab !== activeTab || current.run !== activeRunId));
+    updateUrl(
+      dashboardParams({ step, tab: activeTab, course: courseId, run: activeRunId, baseline: baselineRun?.id ?? null }),
+      navigated ? "push" : "replace"
+    );
+  }, [urlReady, step, activeTab, courseId, activeRunId, baselineRun]);
+
+  // AI metric links: filter the matching table via its URL view, then focus its filter box
+  const [focusTable, setFocusTable] = useState<string | null>(null);
+
+  function openTableRows(link: MetricLink) {
+    const title = METRIC_TABLE_TITLES[link.table];
+    const current = readTableView(title) ?? EMPTY_TABLE_VIEW;
+    updateUrl({ [tableParam(title)]: encodeTableView({ ...current, query: link.query, ranges: {} }) }, "replace");
+    setFocusTable(title);
+    setActiveTab("tables");
   }
 
-  return widths;
-}
-
-// ---------- Table component ----------
-function Table({
-  title,
-  rows,
-  columns,
-  percentCols,
-  maxRows = 50,
-}: {
-  title: string;
-  rows: AnyRow[];
-  columns?: string[];
-  percentCols?: string[];
-  maxRows?: number;
-}) {
-  const cols = useMemo(() => {
-    if (!rows || rows.length === 0) return [];
-    const keys = Object.keys(rows[0] ?? {});
-    if (!columns || columns.length === 0) return keys;
-
-    const set = new Set(keys);
-    const picked = columns.filter((c) => set.has(c));
-
-    // Don’t collapse to 1 col if mismatch—fall back to all keys
-    if (picked.length <= 1 && keys.length > 1) return keys;
-
-    return picked;
-  }, [rows, columns]);
-
-  const slice = useMemo(() => rows.slice(0, maxRows), [rows, maxRows]);
-
-  const [colWidths, setColWidths] = useState<Record<string, number>>({});
-
   useEffect(() => {
-    if (!slice.length || !cols.length) {
-      setColWidths({});
-      return;
+    if (!focusTable || activeTab !== "tables") return;
+    const input = document.querySelector<HTMLInputElement>(`input[aria-label="Filter ${focusTable}"]`);
+    input?.scrollIntoView({ block: "center" });
+    input?.focus();
+    setFocusTable(null);
+  }, [focusTable, activeTab]);
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.error("Copy link failed:", e);
+      alert("Could not copy the link. Copy it from the address bar instead.");
     }
+  }
 
-    const widths = buildColWidths(rows, cols, percentCols, {
-      sample: Math.min(120, rows.length),
-      font: "12px system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial",
-      paddingPx: 20,
-      minPx: 70,
-      maxTextPx: 520,
-      maxDefaultPx: 320,
-    });
-
-    setColWidths(widths);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [rows, cols.join("|"), (percentCols ?? []).join("|"), maxRows]);
-
-  return (
-    <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-4 min-w-0">
-      <div className="mb-3">
-        <div className="text-sm font-semibold text-slate-900">{title}</div>
-        <div className="text-xs text-slate-500">
-          Showing {slice.length.toLocaleString()}
-          {rows.length > slice.length ? ` of ${rows.length.toLocaleString()}` : ""} rows
-        </div>
-      </div>
-
-      {slice.length === 0 ? (
-        <div className="text-sm text-slate-600">No data.</div>
-      ) : (
-        // Individual table scroll container (x + y), with a fixed max height and sticky header
-        <div className="rounded-xl border border-slate-200 overflow-hidden">
-          {/* This box is constrained to the card width (screen-width container) */}
-          <div
-            className="w-full max-h-[520px] overflow-x-auto overflow-y-auto"
-            aria-label={`${title} table`}
-          >
-            {/* Table can be wider than the box; scroll happens on the box */}
-            <table className="w-max text-[13px] leading-5 table-fixed">
-
-              <colgroup>
-                {cols.map((c) => (
-                  <col key={c} style={colWidths[c] ? { width: `${colWidths[c]}px` } : undefined} />
-                ))}
-              </colgroup>
-
-              <thead className="sticky top-0 z-10 border-b-2 border-slate-300">
-                <tr>
-                  {cols.map((c, colIdx) => {
-                    const textHeavy = isTextHeavyCol(c);
-                    const helpText = COLUMN_HELP_TEXT[c];
-                    const isOddCol = colIdx % 2 === 1;
-                    return (
-                      <th
-                        key={c}
-                        scope="col"
-                        className={`text-left px-3 py-2.5 text-xs font-semibold text-slate-800 align-top border-r border-slate-300 last:border-r-0 ${
-                          textHeavy ? "break-words" : "whitespace-nowrap"
-                        } ${isOddCol ? "bg-slate-200" : "bg-slate-100"}`}
-                      >
-                        <span>
-                          {c}
-                          {helpText && (
-                            <Tooltip text={helpText} position="bottom">
-                              <span className="ml-1 text-slate-400 hover:text-slate-600 cursor-help">ⓘ</span>
-                            </Tooltip>
-                          )}
-                        </span>
-                      </th>
-                    );
-                  })}
-                </tr>
-              </thead>
-
-              <tbody>
-                {slice.map((r, rowIdx) => (
-                  <tr
-                    key={rowIdx}
-                    className="border-t border-slate-300"
-                  >
-                    {cols.map((c, colIdx) => {
-                      const textHeavy = isTextHeavyCol(c);
-                      const isOddCol = colIdx % 2 === 1;
-                      return (
-                        <td
-                          key={c}
-                          className={`px-3 py-2 text-[13px] leading-5 text-slate-800 align-top border-r border-slate-200 last:border-r-0 ${
-                            textHeavy ? "break-words" : "whitespace-nowrap"
-                          } ${isOddCol ? "bg-slate-200" : "bg-white"}`}
-                        >
-                          {formatCell(c, r[c], percentCols)}
-                        </td>
-                      );
-                    })}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      )}
-    </div>
-  );
-}
-
-export default function Home() {
-  const [step, setStep] = useState<1 | 2 | 3>(1);
-  const [activeTab, setActiveTab] = useState<"tables" | "charts" | "ai">("tables");
-
-  const [courseId, setCourseId] = useState("");
-  const [canvasCsv, setCanvasCsv] = useState<File | null>(null);
-  const [echoCsv, setEchoCsv] = useState<File | null>(null);
-
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<AnalyzeResponse | null>(null);
-
-  // PDF export state
-  const [exportingPDF, setExportingPDF] = useState(false);
-  const printRef = useRef<HTMLDivElement>(null);
-
-  const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL || "";
+  // Nothing renders until the pseudonymized copy is ready, so raw identifiers never flash on screen
+  const shown = privacyMode ? privateResult : result;
+  const shownBaseline = useMemo(() => {
+    if (!baselineRun || !privacyMode) return baselineRun;
+    return privateBaseline ? { ...baselineRun, result: privateBaseline } : null;
+  }, [baselineRun, privacyMode, privateBaseline]);
 
-  const echoSummary = result?.echo?.summary ?? [];
-  const echoModules = result?.echo?.modules ?? [];
+  const echoSummary = shown?.echo?.summary ?? [];
+  const gradeSummary = shown?.grades?.summary ?? [];
 
-  const gradeSummary = result?.grades?.summary ?? [];
-  const gradeModuleMetrics = result?.grades?.module_metrics ?? [];
+  const students = useMemo(() => shown?.students ?? [], [shown]);
 
   const gradeSummaryPercentCols = useMemo(() => {
     if (!gradeSummary?.[0]) return [];
     return Object.keys(gradeSummary[0]).filter((k) => k !== "Metric");
   }, [gradeSummary]);
 
-  // Sort gradebook module metrics by Canvas module order (from echoModules)
-  // Preserve original API order for modules not found in echoModules
-  const sortedGradeModuleMetrics = useMemo(() => {
-    if (!gradeModuleMetrics || gradeModuleMetrics.length === 0) return gradeModuleMetrics;
-    if (!echoModules || echoModules.length === 0) return gradeModuleMetrics;
-
-    // Extract module order from echoModules
-    const moduleOrder = echoModules.map((row) => {
-      return String(row.Module ?? row.module ?? row["Module Name"] ?? row.module_name ?? "");
-    });
-
-    // Create a map of module name to its position
-    const orderMap = new Map<string, number>();
-    moduleOrder.forEach((module, idx) => {
-      if (module && !orderMap.has(module)) {
-        orderMap.set(module, idx);
-      }
-    });
-
-    // Create a map of original positions in gradeModuleMetrics
-    const originalOrderMap = new Map<string, number>();
-    gradeModuleMetrics.forEach((row, idx) => {
-      const module = String(row.Module ?? row.module ?? row["Module Name"] ?? row.module_name ?? "");
-      if (module && !originalOrderMap.has(module)) {
-        originalOrderMap.set(module, idx);
-      }
-    });
+  // Module mapping for the results: this session's mapping, else the one saved for the course
+  const mediaMapping = useMemo(
+    () => moduleMapping ?? loadModuleMapping(courseId.trim()),
+    [moduleMapping, courseId]
+  );
 
-    // Sort gradeModuleMetrics by the module order, preserving original order for unmatched modules
-    return [...gradeModuleMetrics].sort((a, b) => {
-      const moduleA = String(a.Module ?? a.module ?? a["Module Name"] ?? a.module_name ?? "");
-      const moduleB = String(b.Module ?? b.module ?? b["Module Name"] ?? b.module_name ?? "");
+  // Module tables in the mapping's order (backend runs included); without one, gradebook
+  // modules follow the Canvas module order from the Echo table
+  const { echoModules, gradeModules: sortedGradeModuleMetrics } = useMemo(
+    () => orderModuleTables(shown?.echo?.modules ?? [], shown?.grades?.module_metrics ?? [], mediaMapping),
+    [shown, mediaMapping]
+  );
+  const echoModuleOrder = useMemo(() => echoModules.map((m) => m.Module), [echoModules]);
 
-      const echoOrderA = orderMap.get(moduleA);
-      const echoOrderB = orderMap.get(moduleB);
+  // Calculate KPIs
+  const kpis = useMemo(
+    () => evaluateKpis(kpiIds, shown, shownBaseline?.result),
+    [kpiIds, shown, shownBaseline]
+  );
 
-      // If both are in echoModules, sort by echo order
-      if (echoOrderA !== undefined && echoOrderB !== undefined) {
-        return echoOrderA - echoOrderB;
-      }
-      // If only A is in echoModules, A comes first
-      if (echoOrderA !== undefined && echoOrderB === undefined) {
-        return -1;
-      }
-      // If only B is in echoModules, B comes first
-      if (echoOrderA === undefined && echoOrderB !== undefined) {
-        return 1;
-      }
-      // If neither is in echoModules, preserve original API order
-      const origA = originalOrderMap.get(moduleA) ?? 0;
-      const origB = originalOrderMap.get(moduleB) ?? 0;
-      return origA - origB;
-    });
-  }, [gradeModuleMetrics, echoModules]);
+  async function handleCsvSelected(kind: CsvKind, file: File | null) {
+    const setFile = kind === "canvas" ? setCanvasCsv : setEchoCsv;
+    const setReport = kind === "canvas" ? setCanvasReport : setEchoReport;
 
-  // Calculate KPIs
-  const kpis = useMemo(() => {
-    const kpiData = {
-      studentsEnrolled: null as number | null,
-      averageViewPercent: null as number | null,
-      averageAssignmentGrade: null as number | null,
-      medianLetterGrade: null as string | null,
-    };
+    const setTitles = kind === "canvas" ? setAssignmentTitles : setMediaTitles;
 
-    // Students Enrolled - from echo modules "# of Students"
-    if (echoModules && echoModules.length > 0) {
-      const firstModule = echoModules[0];
-      const studentCount =
-        toNumber(firstModule["# of Students"]) ??
-        toNumber(firstModule["# Students"]) ??
-        toNumber(firstModule.students_count);
-      if (studentCount !== null) {
-        kpiData.studentsEnrolled = studentCount;
-      }
+    selectedCsvRef.current[kind] = file;
+    setFile(file);
+    setReport(null);
+    setTitles([]);
+    if (!file) {
+      setCheckingCsv((prev) => ({ ...prev, [kind]: false }));
+      return;
     }
 
-    // Average View % - average of "Average View %" from echo summary
-    if (echoSummary && echoSummary.length > 0) {
-      const viewPercentages = echoSummary
-        .map((row) => toNumber(row["Average View %"] ?? row["Avg View %"]))
-        .filter((v): v is number => v !== null);
-
-      if (viewPercentages.length > 0) {
-        const sum = viewPercentages.reduce((acc, val) => acc + val, 0);
-        kpiData.averageViewPercent = sum / viewPercentages.length;
+    const isCurrent = () => selectedCsvRef.current[kind] === file;
+    setCheckingCsv((prev) => ({ ...prev, [kind]: true }));
+    try {
+      const parsed = await readCsvFile(file);
+      if (!isCurrent()) return;
+      const report = validateCsv(kind, parsed);
+      setReport(report);
+      if (!report.blocking) {
+        setTitles(
+          kind === "canvas"
+            ? Array.from(new Set(parseCanvasGradebook(parsed).assignments.map((a) => a.name)))
+            : parseEchoAnalytics(parsed).media.map((m) => m.title)
+        );
       }
+    } catch (e: any) {
+      if (!isCurrent()) return;
+      setReport({
+        kind,
+        detectedKind: null,
+        checks: [],
+        rowCount: 0,
+        headers: [],
+        preview: [],
+        errors: [`Could not read file: ${e?.message ?? String(e)}`],
+        warnings: [],
+        blocking: true,
+      });
+    } finally {
+      if (isCurrent()) setCheckingCsv((prev) => ({ ...prev, [kind]: false }));
     }
+  }
 
-    // Average Assignment Grade - from gradeSummary "Average Excluding Zeros"
-    if (gradeSummary && gradeSummary.length > 0) {
-      const avgExcludingZerosRow = gradeSummary.find(
-        (row) => row.Metric === "Average Excluding Zeros" || row.Metric === "Avg Average Excluding Zeros"
-      );
+  // Mappings are saved per course, so a different course ID picks up that course's saved edits
+  const mappingCourseId = courseId.trim();
+  useEffect(() => {
+    if (assignmentTitles.length === 0 && mediaTitles.length === 0) {
+      setModuleMapping(null);
+      return;
+    }
+    setModuleMapping(
+      buildModuleMapping(assignmentTitles, mediaTitles, moduleHints, loadModuleMapping(mappingCourseId))
+    );
+  }, [assignmentTitles, mediaTitles, moduleHints, mappingCourseId]);
+
+  function handleMappingChange(mapping: ModuleMapping) {
+    setModuleMapping(mapping);
+    saveModuleMapping(courseId.trim(), mapping);
+  }
 
-      if (avgExcludingZerosRow) {
-        const values = Object.entries(avgExcludingZerosRow)
-          .filter(([key]) => key !== "Metric")
-          .map(([, value]) => toNumber(value))
-          .filter((v): v is number => v !== null);
+  function resetMapping() {
+    saveModuleMapping(courseId.trim(), null);
+    setModuleMapping(buildModuleMapping(assignmentTitles, mediaTitles, moduleHints, null));
+  }
 
-        if (values.length > 0) {
-          const sum = values.reduce((acc, val) => acc + val, 0);
-          kpiData.averageAssignmentGrade = sum / values.length;
-        }
-      }
-    }
+  const unassignedCount = moduleMapping
+    ? [...Object.values(moduleMapping.assignments), ...Object.values(moduleMapping.media)].filter(
+        (m) => m === UNASSIGNED_MODULE
+      ).length
+    : 0;
+
+  const csvBlocked =
+    !!canvasReport?.blocking || !!echoReport?.blocking || checkingCsv.canvas || checkingCsv.echo;
 
-    // Median Letter Grade - from backend KPIs if available
-    if (result?.kpis?.["Median Letter Grade"]) {
-      kpiData.medianLetterGrade = result.kpis["Median Letter Grade"];
+  // Save every successful analysis so it survives reloads; a failed save is reported but never blocks the results
+  async function persistRun(json: AnalyzeResponse) {
+    const createdAt = new Date().toISOString();
+    const id = courseId.trim();
+    try {
+      const run = await saveRun({
+        id: makeRunId(id, createdAt),
+        courseId: id,
+        name: defaultRunName(id, createdAt),
+        createdAt,
+        engine,
+        result: json,
+      });
+      selectRun(run.id);
+    } catch (e: any) {
+      setError(
+        `These results could not be saved to History (${e?.message ?? String(e)}). They stay on screen until you leave the page; export them to keep a copy.`
+      );
+      selectRun(null);
     }
+  }
+
+  // Showing a run from the page (not from a link) starts its tables unfiltered
+  function selectRun(id: string | null) {
+    clearTableViews();
+    setActiveRunId(id);
+  }
+
+  function openRun(run: SavedRun) {
+    setResult(run.result);
+    setSchemaWarnings([]);
+    setCourseId(run.courseId);
+    selectRun(run.id);
+    if (baselineRun?.id === run.id) setBaselineRun(null);
+    setError(null);
+    setPanel(null);
+    setStep(3);
+    setActiveTab("tables");
+  }
 
-    return kpiData;
-  }, [echoSummary, echoModules, gradeSummary, result?.kpis]);
+  // A deleted run can't be shown or compared against, so links stop pointing at it
+  function handleRunDeleted(id: string) {
+    const params: Record<string, string | null> = {};
+    if (activeRunId === id) {
+      setActiveRunId(null);
+      params.run = null;
+    }
+    if (baselineRun?.id === id) {
+      setBaselineRun(null);
+      params.baseline = null;
+    }
+    updateUrl(params, "replace");
+  }
 
   async function runAnalysis() {
     setError(null);
 
-    if (!apiBase) {
-      setError("Missing NEXT_PUBLIC_API_BASE_URL environment variable in Vercel.");
+    if (engine === "backend" && !apiBase) {
+      setError("Missing NEXT_PUBLIC_API_BASE_URL environment variable in Vercel. Choose \"In this browser\" to analyze offline.");
       return;
     }
     if (!courseId.trim()) {
@@ -530,170 +475,134 @@ export default function Home() {
       setError("Please upload both CSV files.");
       return;
     }
+    if (csvBlocked) {
+      setError("One or both CSV files failed validation. Fix the issues listed under each file and try again.");
+      return;
+    }
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const onStage: StageReporter = (id, status, message) => {
+      if (analysisAbortRef.current === controller) setStages((s) => updateStage(s, id, status, message));
+    };
 
     try {
       setLoading(true);
-
-      const form = new FormData();
-      form.append("course_id", courseId.trim());
-      form.append("canvas_gradebook_csv", canvasCsv);
-      form.append("echo_analytics_csv", echoCsv);
-
-      const res = await fetch(`${apiBase.replace(/\/$/, "")}/analyze`, {
-        method: "POST",
-        body: form,
-      });
-
-      if (!res.ok) {
-        const txt = await res.text();
-        throw new Error(`Backend error (${res.status}): ${txt}`);
+      setCancelling(false);
+      setStages(initialStages());
+      setAnalysisStartedAt(Date.now());
+
+      if (engine === "local") {
+        const json = await analyzeFilesLocally(canvasCsv, echoCsv, moduleMapping, { onStage, signal: controller.signal });
+        setResult(json);
+        setSchemaWarnings([]);
+        await persistRun(json);
+        setStep(3);
+        setActiveTab("tables");
+        return;
       }
 
-      const json = (await res.json()) as AnalyzeResponse;
+      const { data, warnings } = await runAnalysisJob({
+        apiBase,
+        courseId,
+        canvasCsv,
+        echoCsv,
+        mapping: moduleMapping,
+        signal: controller.signal,
+        onStage,
+      });
+      // The backend may leave out per-student rows; build them here from the same two files
+      const json = data.students?.length
+        ? data
+        : { ...data, students: await studentRowsFromFiles(canvasCsv, echoCsv).catch(() => data.students) };
       setResult(json);
+      setSchemaWarnings(warnings);
+      await persistRun(json);
       setStep(3);
       setActiveTab("tables");
     } catch (e: any) {
-      setError(e?.message ?? String(e));
+      setError(e instanceof ApiError ? e : e?.name === "AbortError" ? "Analysis cancelled." : e?.message ?? String(e));
     } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
       setLoading(false);
+      setCancelling(false);
     }
   }
 
-  async function exportToPDF() {
-    if (!printRef.current) return;
+  function cancelAnalysis() {
+    setCancelling(true);
+    analysisAbortRef.current?.abort();
+  }
+
+  async function exportToPDF(settings: ReportSettings) {
+    if (!shown) return;
     setExportingPDF(true);
 
     try {
-      // Dynamic imports to avoid SSR issues
-      const html2canvas = (await import("html2canvas")).default;
-      const jsPDF = (await import("jspdf")).default;
-
-      // Make print container visible temporarily
-      printRef.current.style.position = "absolute";
-      printRef.current.style.left = "-9999px";
-      printRef.current.style.top = "0";
-      printRef.current.style.width = "800px";
-      printRef.current.style.display = "block";
-
-      // A4 dimensions in mm
-      const pdfWidth = 210;
-      const pdfHeight = 297;
-      const margin = 10;
-      const contentWidth = pdfWidth - 2 * margin;
-      const pageContentHeight = pdfHeight - 2 * margin;
-
-      const pdf = new jsPDF("p", "mm", "a4");
-      let yPosition = margin; // Track current y position on page
-
-      // Get all sections in the print container
-      const sections = printRef.current.querySelectorAll("[data-pdf-section]");
-
-      for (let i = 0; i < sections.length; i++) {
-        const section = sections[i] as HTMLElement;
-
-        const canvas = await html2canvas(section, {
-          scale: 2,
-          useCORS: true,
-          logging: false,
-          backgroundColor: "#ffffff",
-        });
-
-        const imgData = canvas.toDataURL("image/png");
-        const imgWidth = contentWidth;
-        const imgHeight = (canvas.height * imgWidth) / canvas.width;
-
-        // Check if section fits on current page
-        const spaceLeft = pdfHeight - margin - yPosition;
-
-        if (imgHeight <= spaceLeft) {
-          // Section fits on current page
-          pdf.addImage(imgData, "PNG", margin, yPosition, imgWidth, imgHeight);
-          yPosition += imgHeight + 5; // Add 5mm gap between sections
-        } else if (imgHeight <= pageContentHeight) {
-          // Section fits on a single page but not current page - start new page
-          pdf.addPage();
-          yPosition = margin;
-          pdf.addImage(imgData, "PNG", margin, yPosition, imgWidth, imgHeight);
-          yPosition += imgHeight + 5;
-        } else {
-          // Section is taller than a page - need to split across pages
-          // Start on a new page for consistency
-          if (yPosition > margin + 10) {
-            pdf.addPage();
-            yPosition = margin;
-          }
-
-          // Calculate how to split the image across pages
-          const sourceHeight = canvas.height;
-          const sourceWidth = canvas.width;
-          const pixelsPerMm = sourceWidth / imgWidth;
-          const pageHeightPx = pageContentHeight * pixelsPerMm;
-
-          let sourceY = 0;
-
-          while (sourceY < sourceHeight) {
-            const remainingSourceHeight = sourceHeight - sourceY;
-            const sliceHeightPx = Math.min(pageHeightPx, remainingSourceHeight);
-            const sliceHeightMm = sliceHeightPx / pixelsPerMm;
-
-            // Create a canvas for this slice
-            const sliceCanvas = document.createElement("canvas");
-            sliceCanvas.width = sourceWidth;
-            sliceCanvas.height = sliceHeightPx;
-            const sliceCtx = sliceCanvas.getContext("2d");
-
-            if (sliceCtx) {
-              sliceCtx.drawImage(
-                canvas,
-                0, sourceY, sourceWidth, sliceHeightPx,
-                0, 0, sourceWidth, sliceHeightPx
-              );
-
-              const sliceImgData = sliceCanvas.toDataURL("image/png");
-              pdf.addImage(sliceImgData, "PNG", margin, yPosition, imgWidth, sliceHeightMm);
-            }
-
-            sourceY += sliceHeightPx;
-
-            // If more content remains, add a new page
-            if (sourceY < sourceHeight) {
-              pdf.addPage();
-              yPosition = margin;
-            } else {
-              yPosition += sliceHeightMm + 5;
-            }
-          }
-        }
-
-        // If near bottom of page after a section, start fresh on next section
-        if (yPosition > pdfHeight - margin - 20) {
-          yPosition = pdfHeight; // Force new page on next section
-        }
-      }
-
-      // Hide print container again
-      printRef.current.style.display = "none";
-
-      pdf.save("analytics-report.pdf");
+      const pdf = await buildPdfReport(buildReportSpec(settings, { courseId, result: shown, kpis, mapping: mediaMapping }));
+      pdf.save(courseId.trim() ? `analytics-report-${courseId.trim()}.pdf` : "analytics-report.pdf");
+      setShowReportBuilder(false);
     } catch (err) {
       console.error("PDF export error:", err);
       alert("Failed to export PDF. Please try again.");
     } finally {
-      if (printRef.current) {
-        printRef.current.style.display = "none";
-      }
       setExportingPDF(false);
     }
   }
 
+  // Single-chart downloads, named like the other exports
+  const chartExportName = (chart: string) => (courseId.trim() ? `${chart}-${courseId.trim()}` : chart);
+
+  async function exportToExcel() {
+    setExportingExcel(true);
+
+    try {
+      await exportWorkbook({
+        fileName: courseId.trim() ? `analytics-report-${courseId.trim()}.xlsx` : "analytics-report.xlsx",
+        courseId: courseId.trim(),
+        // The standard KPI set, so workbooks compare across users regardless of their on-screen picks
+        kpis: evaluateKpis(DEFAULT_KPI_IDS, shown).map((k) => ({
+          label: k.def.format === "minutes" ? `${k.def.label} (Min)` : k.def.label,
+          value: k.value,
+          percent: k.def.format === "percent",
+        })),
+        sheets: [
+          { name: "Echo Summary", rows: echoSummary, columns: ECHO_SUMMARY_COLS, percentCols: ECHO_SUMMARY_PERCENT_COLS },
+          { name: "Echo Module Table", rows: echoModules, columns: ECHO_MODULE_COLS, percentCols: ECHO_MODULE_PERCENT_COLS },
+          {
+            name: "Gradebook Summary Rows",
+            rows: gradeSummary,
+            columns: gradeSummary?.[0]?.Metric
+              ? ["Metric", ...Object.keys(gradeSummary[0]).filter((k) => k !== "Metric")]
+              : undefined,
+            percentCols: gradeSummaryPercentCols,
+          },
+          {
+            name: "Gradebook Module Metrics",
+            rows: sortedGradeModuleMetrics,
+            columns: GRADEBOOK_MODULE_COLS,
+            percentCols: GRADEBOOK_MODULE_PERCENT_COLS,
+          },
+          ...(students.length > 0
+            ? [{ name: "Students", rows: students, columns: STUDENT_COLS, percentCols: STUDENT_PERCENT_COLS }]
+            : []),
+        ],
+      });
+    } catch (err) {
+      console.error("Excel export error:", err);
+      alert("Failed to export Excel workbook. Please try again.");
+    } finally {
+      setExportingExcel(false);
+    }
+  }
+
   const steps = [
     { n: 1 as const, label: "Enter course" },
     { n: 2 as const, label: "Upload CSVs" },
     { n: 3 as const, label: "Review insights" },
   ];
 
-  const canGoToStep = (n: 1 | 2 | 3) => {
+  const canGoToStep = (n: DashboardStep) => {
     if (n <= step) return true;
     // Avoid changing behavior: only allow step 3 navigation once results exist.
     return n === 3 && !!result;
@@ -714,7 +623,7 @@ export default function Home() {
           <div className="mt-5 border-t border-slate-200" />
 
           {/* Stepper */}
-          <nav aria-label="Progress" className="mt-5">
+          <nav aria-label="Progress" className="mt-5 flex flex-wrap items-start justify-between gap-2">
             <ol className="flex flex-wrap gap-2">
               {steps.map((s) => {
                 const isActive = s.n === step;
@@ -724,9 +633,13 @@ export default function Home() {
                   <li key={s.n} className="min-w-0">
                     <button
                       type="button"
-                      onClick={() => !disabled && setStep(s.n)}
+                      onClick={() => {
+                        if (disabled) return;
+                        setPanel(null);
+                        setStep(s.n);
+                      }}
                       disabled={disabled}
-                      aria-current={isActive ? "step" : undefined}
+                      aria-current={isActive && !panel ? "step" : undefined}
                       className={
                         "group inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-50 disabled:cursor-not-allowed " +
                         (isActive
@@ -755,16 +668,57 @@ export default function Home() {
                 );
               })}
             </ol>
+            <div className="flex gap-2">
+              {(["batch", "history"] as const).map((p) => (
+                <button
+                  key={p}
+                  type="button"
+                  onClick={() => setPanel((v) => (v === p ? null : p))}
+                  aria-pressed={panel === p}
+                  className={
+                    "rounded-xl border px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen " +
+                    (panel === p ? "border-slate-900 bg-slate-900 text-white" : "border-slate-200 bg-white text-slate-800 hover:bg-slate-50")
+                  }
+                >
+                  {p === "batch" ? "Batch" : "History"}
+                </button>
+              ))}
+            </div>
           </nav>
         </header>
 
-        {error && (
-          <div className="mb-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
-            {error}
-          </div>
+        {error instanceof ApiError ? (
+          <ApiErrorNotice
+            error={error}
+            onRetry={runAnalysis}
+            onUseLocal={() => {
+              setEngine("local");
+              setError(null);
+            }}
+          />
+        ) : (
+          error && (
+            <div className="mb-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {error}
+            </div>
+          )
         )}
 
-        {step === 1 && (
+        {panel === "history" && (
+          <HistoryPanel
+            activeRunId={activeRunId}
+            onOpen={openRun}
+            onDeleted={handleRunDeleted}
+            onClose={() => setPanel(null)}
+          />
+        )}
+
+        {/* Kept mounted while hidden so a running batch and its rollup survive opening a course */}
+        <div hidden={panel !== "batch"}>
+          <BatchPanel apiBase={apiBase} defaultEngine={engine} onOpen={openRun} onClose={() => setPanel(null)} />
+        </div>
+
+        {!panel && step === 1 && (
           <section aria-label="Enter course" className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
             <h2 className="text-lg font-semibold text-slate-900 mb-2">Step 1: Enter Course</h2>
             <div className="text-sm text-slate-600 mb-3">
@@ -790,20 +744,56 @@ export default function Home() {
           </section>
         )}
 
-        {step === 2 && (
+        {!panel && step === 2 && (
           <section aria-label="Upload CSVs" className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
             <h2 className="text-lg font-semibold text-slate-900 mb-2">Step 2: Upload CSVs</h2>
 
             <div className="grid md:grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-slate-800 mb-1">Canvas Gradebook CSV</label>
-                <input
-                  type="file"
-                  accept=".csv"
-                  onChange={(e) => setCanvasCsv(e.target.files?.[0] ?? null)}
-                  className="w-full"
-                />
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                  <label className="block text-sm font-medium text-slate-800">Canvas Gradebook CSV</label>
+                  <div className="inline-flex gap-3 text-xs text-slate-700">
+                    <label className="inline-flex items-center gap-1">
+                      <input
+                        type="radio"
+                        name="canvas-source"
+                        checked={canvasSource === "upload"}
+                        onChange={() => setCanvasSource("upload")}
+                      />
+                      Upload CSV
+                    </label>
+                    <label className="inline-flex items-center gap-1">
+                      <input
+                        type="radio"
+                        name="canvas-source"
+                        checked={canvasSource === "api"}
+                        onChange={() => setCanvasSource("api")}
+                      />
+                      Fetch from Canvas
+                    </label>
+                  </div>
+                </div>
+                {canvasSource === "upload" ? (
+                  <input
+                    type="file"
+                    accept=".csv"
+                    onChange={(e) => {
+                      setModuleHints(null);
+                      handleCsvSelected("canvas", e.target.files?.[0] ?? null);
+                    }}
+                    className="w-full"
+                  />
+                ) : (
+                  <CanvasFetchPanel
+                    courseId={courseId}
+                    onFetched={(file, hints) => {
+                      setModuleHints(hints);
+                      handleCsvSelected("canvas", file);
+                    }}
+                  />
+                )}
                 <div className="text-xs text-slate-500 mt-1">{canvasCsv ? canvasCsv.name : "No file selected"}</div>
+                <CsvCheckPanel report={canvasReport} parsing={checkingCsv.canvas} />
               </div>
 
               <div>
@@ -811,13 +801,72 @@ export default function Home() {
                 <input
                   type="file"
                   accept=".csv"
-                  onChange={(e) => setEchoCsv(e.target.files?.[0] ?? null)}
+                  onChange={(e) => handleCsvSelected("echo", e.target.files?.[0] ?? null)}
                   className="w-full"
                 />
                 <div className="text-xs text-slate-500 mt-1">{echoCsv ? echoCsv.name : "No file selected"}</div>
+                <CsvCheckPanel report={echoReport} parsing={checkingCsv.echo} />
               </div>
             </div>
 
+            {moduleMapping && (
+              <div className="mt-6 rounded-xl border border-slate-200">
+                <button
+                  type="button"
+                  onClick={() => setShowMapping((v) => !v)}
+                  aria-expanded={showMapping}
+                  className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen rounded-xl"
+                >
+                  <span className="text-sm font-medium text-slate-800">
+                    Module mapping
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {moduleMapping.modules.length} modules
+                      {moduleHints ? " from Canvas" : ""}
+                      {unassignedCount > 0 ? ` · ${unassignedCount} unassigned` : ""}
+                    </span>
+                  </span>
+                  <span aria-hidden="true" className="text-slate-500">
+                    {showMapping ? "▲" : "▼"}
+                  </span>
+                </button>
+                {showMapping && (
+                  <div className="border-t border-slate-200 p-4">
+                    <ModuleMappingEditor mapping={moduleMapping} onChange={handleMappingChange} onReset={resetMapping} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <fieldset className="mt-6">
+              <legend className="block text-sm font-medium text-slate-800 mb-2">Run analysis</legend>
+              <div className="flex flex-wrap gap-4">
+                <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+                  <input
+                    type="radio"
+                    name="engine"
+                    value="backend"
+                    checked={engine === "backend"}
+                    onChange={() => setEngine("backend")}
+                    disabled={!apiBase}
+                  />
+                  On the analytics server (includes AI analysis)
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm text-slate-800">
+                  <input
+                    type="radio"
+                    name="engine"
+                    value="local"
+                    checked={engine === "local"}
+                    onChange={() => setEngine("local")}
+                  />
+                  In this browser (offline, files never leave this device)
+                </label>
+              </div>
+              {!apiBase && (
+                <div className="text-xs text-slate-500 mt-1">No analytics server is configured, so analysis runs in the browser.</div>
+              )}
+            </fieldset>
+
             <div className="mt-6 flex items-center gap-3">
               <button
                 onClick={() => setStep(1)}
@@ -828,7 +877,7 @@ export default function Home() {
 
               <button
                 onClick={runAnalysis}
-                disabled={loading}
+                disabled={loading || csvBlocked}
                 className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60"
               >
                 {loading ? "Running..." : "Run Analysis"}
@@ -836,98 +885,85 @@ export default function Home() {
             </div>
 
             {loading && (
-              <div className="mt-6">
-                <div className="flex items-center gap-3 mb-2">
-                  <div className="text-sm font-medium text-slate-700">Analyzing your data...</div>
-                </div>
-                <div className="w-full bg-slate-200 rounded-full h-2 overflow-hidden">
-                  <div className="h-full bg-gradient-to-r from-slate-600 via-slate-800 to-slate-600 animate-[progress_1.5s_ease-in-out_infinite] bg-[length:200%_100%]" />
-                </div>
-                <div className="text-xs text-slate-500 mt-2">This may take a few moments...</div>
-              </div>
+              <AnalysisProgress
+                stages={stages}
+                startedAt={analysisStartedAt}
+                cancelling={cancelling}
+                onCancel={cancelAnalysis}
+              />
             )}
           </section>
         )}
 
-        {step === 3 && (
+        {!panel && step === 3 && (
           <div>
             {/* Header with Export Button */}
             <div className="flex justify-between items-center mb-6">
               <h2 className="text-lg font-semibold text-slate-900">Review Insights</h2>
-              <button
-                onClick={exportToPDF}
-                disabled={exportingPDF}
-                className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
-              >
-                {exportingPDF ? "Generating PDF..." : "Export Full Report"}
-              </button>
-            </div>
-
-            {/* KPIs */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-              {/* Students Enrolled */}
-              <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5">
-                <div className="text-xs font-medium text-slate-500 tracking-wide mb-1 flex items-center gap-1">
-                  Students Enrolled
-                  <Tooltip text="Unique students with Canvas enrollments included in these metrics.">
-                    <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">
-                      ⓘ
-                    </span>
-                  </Tooltip>
-                </div>
-                <div className="text-2xl font-semibold text-slate-900">
-                  {kpis.studentsEnrolled !== null ? kpis.studentsEnrolled.toLocaleString() : "—"}
-                </div>
-              </div>
-
-              {/* Average View % */}
-              <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5">
-                <div className="text-xs font-medium text-slate-500 tracking-wide mb-1 flex items-center gap-1">
-                  Average View %
-                  <Tooltip text="Average Echo360 engagement percentage across all published media.">
-                    <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">
-                      ⓘ
-                    </span>
+              <div className="flex flex-wrap items-center gap-2">
+                <label className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900">
+                  <input
+                    type="checkbox"
+                    checked={privacyMode}
+                    onChange={(e) => togglePrivacyMode(e.target.checked)}
+                  />
+                  Privacy mode
+                  <Tooltip text={`Replaces student names, emails and IDs with pseudonyms and hides groups under ${MIN_GROUP_SIZE} students, on screen and in every export.`}>
+                    <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">ⓘ</span>
                   </Tooltip>
-                </div>
-                <div className="text-2xl font-semibold text-slate-900">
-                  {kpis.averageViewPercent !== null
-                    ? `${(kpis.averageViewPercent * 100).toFixed(1)}%`
-                    : "—"}
-                </div>
+                </label>
+                <button
+                  type="button"
+                  onClick={copyLink}
+                  className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen"
+                >
+                  {linkCopied ? "Link copied" : "Copy link"}
+                </button>
+                <button
+                  onClick={exportToExcel}
+                  disabled={exportingExcel}
+                  className="rounded-xl border border-slate-300 bg-white px-4 py-2 text-sm text-slate-900 hover:bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {exportingExcel ? "Building workbook..." : "Export to Excel"}
+                </button>
+                <button
+                  onClick={() => setShowReportBuilder(true)}
+                  disabled={exportingPDF}
+                  className="rounded-xl bg-slate-900 text-white px-4 py-2 text-sm hover:bg-slate-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-csuGreen disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {exportingPDF ? "Generating PDF..." : "Export Full Report"}
+                </button>
               </div>
+            </div>
 
-              {/* Average Assignment Grade */}
-              <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5">
-                <div className="text-xs font-medium text-slate-500 tracking-wide mb-1 flex items-center gap-1">
-                  Average Assignment Grade
-                  <Tooltip text="Mean assignment score for the class, combining all available grades.">
-                    <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">
-                      ⓘ
-                    </span>
-                  </Tooltip>
-                </div>
-                <div className="text-2xl font-semibold text-slate-900">
-                  {kpis.averageAssignmentGrade !== null
-                    ? `${(kpis.averageAssignmentGrade * 100).toFixed(1)}%`
-                    : "—"}
-                </div>
+            {schemaWarnings.length > 0 && (
+              <div className="mb-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900" role="status">
+                <div className="font-medium mb-1">The analysis response did not match the expected format.</div>
+                <div className="text-xs mb-1">Unknown fields were ignored; charts and tables may be missing the listed columns.</div>
+                <ul className="list-disc list-inside text-xs space-y-0.5">
+                  {schemaWarnings.map((w) => (
+                    <li key={w.table}>{describeSchemaWarning(w)}</li>
+                  ))}
+                </ul>
               </div>
+            )}
 
-              {/* Median Letter Grade */}
-              <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-5">
-                <div className="text-xs font-medium text-slate-500 tracking-wide mb-1 flex items-center gap-1">
-                  Median Letter Grade
-                  <Tooltip text="Median letter grade calculated from current Canvas scores.">
-                    <span className="inline-block cursor-help text-slate-400 hover:text-slate-600">
-                      ⓘ
-                    </span>
-                  </Tooltip>
-                </div>
-                <div className="text-2xl font-semibold text-slate-900">
-                  {kpis.medianLetterGrade ?? "—"}
-                </div>
-              </div>
+            {/* KPIs */}
+            <div className="flex justify-end mb-2">
+              <button
+                type="button"
+                onClick={() => setShowKpiPicker((v) => !v)}
+                aria-expanded={showKpiPicker}
+                className="text-sm text-slate-700 underline"
+              >
+                {showKpiPicker ? "Done choosing KPIs" : "Choose KPIs"}
+              </button>
+            </div>
+            {showKpiPicker && <KpiPicker selected={kpiIds} onChange={changeKpiSelection} />}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+              {kpis.map((k) => (
+                <KpiCard key={k.def.id} kpi={k} />
+              ))}
             </div>
 
             {/* Tabs */}
@@ -936,10 +972,19 @@ export default function Home() {
               aria-label="Insights"
               className="mb-4 inline-flex flex-wrap gap-2 rounded-2xl bg-white border border-slate-200 p-2"
             >
-              {(["tables", "charts", "ai"] as const).map((t, idx) => {
-                const label = t === "tables" ? "Tables" : t === "charts" ? "Charts" : "AI Analysis";
+              {DASHBOARD_TABS.map((t, idx) => {
+                const label =
+                  t === "tables"
+                    ? "Tables"
+                    : t === "students"
+                      ? "Students"
+                      : t === "charts"
+                        ? "Charts"
+                        : t === "ai"
+                          ? "AI Analysis"
+                          : "Compare";
                 const selected = activeTab === t;
-                const tabs = ["tables", "charts", "ai"] as const;
+                const tabs = DASHBOARD_TABS;
 
                 const handleKeyDown = (e: React.KeyboardEvent) => {
                   if (e.key === "ArrowRight") {
@@ -998,7 +1043,6 @@ export default function Home() {
                   rows={echoSummary}
                   columns={ECHO_SUMMARY_COLS}
                   percentCols={ECHO_SUMMARY_PERCENT_COLS}
-                  maxRows={200}
                 />
 
                 <Table
@@ -1006,7 +1050,6 @@ export default function Home() {
                   rows={echoModules}
                   columns={ECHO_MODULE_COLS}
                   percentCols={ECHO_MODULE_PERCENT_COLS}
-                  maxRows={200}
                 />
 
                 <Table
@@ -1018,7 +1061,6 @@ export default function Home() {
                       : undefined
                   }
                   percentCols={gradeSummaryPercentCols}
-                  maxRows={50}
                 />
 
                 <Table
@@ -1026,11 +1068,20 @@ export default function Home() {
                   rows={sortedGradeModuleMetrics}
                   columns={GRADEBOOK_MODULE_COLS}
                   percentCols={GRADEBOOK_MODULE_PERCENT_COLS}
-                  maxRows={200}
                 />
               </div>
             )}
 
+            {activeTab === "students" && (
+              <div
+                role="tabpanel"
+                id="panel-students"
+                aria-labelledby="tab-students"
+              >
+                <StudentsPanel students={students} courseId={courseId.trim()} />
+              </div>
+            )}
+
             {activeTab === "charts" && (
               <div
                 role="tabpanel"
@@ -1040,13 +1091,46 @@ export default function Home() {
               >
                 <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
                   <div className="text-lg font-semibold text-slate-900 mb-2">Echo Chart</div>
-                  <EchoComboChart moduleRows={echoModules as any} />
+                  <EchoComboChart moduleRows={echoModules} exportName={chartExportName("echo-engagement")} />
                 </div>
 
+                <MediaEngagementPanel
+                  summary={echoSummary}
+                  mapping={mediaMapping}
+                  moduleOrder={echoModuleOrder}
+                  exportName={chartExportName("echo-media")}
+                />
+
                 <div className="rounded-2xl bg-white border border-slate-200 shadow-sm p-6">
                   <div className="text-lg font-semibold text-slate-900 mb-2">Gradebook Chart</div>
-                  <GradebookComboChart rows={sortedGradeModuleMetrics as any} />
+                  <GradebookComboChart
+                    rows={sortedGradeModuleMetrics}
+                    exportName={chartExportName("gradebook-performance")}
+                  />
                 </div>
+
+                <CorrelationPanel
+                  echoModules={echoModules}
+                  gradeModules={sortedGradeModuleMetrics}
+                  exportName={chartExportName("viewing-vs-scores")}
+                />
+              </div>
+            )}
+
+            {activeTab === "compare" && shown && (
+              <div
+                role="tabpanel"
+                id="panel-compare"
+                aria-labelledby="tab-compare"
+              >
+                <ComparePanel
+                  current={shown}
+                  currentRunId={activeRunId}
+                  courseId={courseId.trim()}
+                  baseline={shownBaseline}
+                  mapping={mediaMapping}
+                  onBaselineChange={setBaselineRun}
+                />
               </div>
             )}
 
@@ -1057,311 +1141,26 @@ export default function Home() {
                 aria-labelledby="tab-ai"
                 className="space-y-4"
               >
-                {result?.analysis?.error ? (
-                  <div className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
-                    <div className="text-sm text-red-700">{result.analysis.error}</div>
-                  </div>
-                ) : (() => {
-                  // Try to parse the JSON from analysis.text
-                  let analysisData: AIAnalysisData | null = null;
-                  try {
-                    if (result?.analysis?.text) {
-                      analysisData = JSON.parse(result.analysis.text) as AIAnalysisData;
-                    }
-                  } catch {
-                    // If parsing fails, fall back to raw text display
-                  }
-
-                  // If we have valid cards data, render cards
-                  if (analysisData?.cards && Array.isArray(analysisData.cards) && analysisData.cards.length > 0) {
-                    return analysisData.cards.map((card) => (
-                      <div
-                        key={card.id}
-                        className="rounded-2xl bg-white border border-slate-200 shadow-md p-6"
-                      >
-                        <div className="text-lg font-semibold text-slate-900 mb-3">{card.title}</div>
-
-                        {/* Summary */}
-                        {card.summary && (
-                          <p className="text-sm text-slate-700 mb-4">{card.summary}</p>
-                        )}
-
-                        {/* Bullets */}
-                        {card.bullets && card.bullets.length > 0 && (
-                          <ul className="list-disc list-inside space-y-1 mb-4">
-                            {card.bullets.map((bullet, idx) => (
-                              <li key={idx} className="text-sm text-slate-700">{bullet}</li>
-                            ))}
-                          </ul>
-                        )}
-
-                        {/* Metrics */}
-                        {card.metrics && card.metrics.length > 0 && (
-                          <div className="flex flex-wrap gap-4 pt-3 border-t border-slate-100">
-                            {card.metrics.map((metric, idx) => (
-                              <div key={idx} className="text-sm">
-                                <span className="text-slate-500">{metric.label}:</span>{" "}
-                                <span className="font-medium text-slate-800">{metric.value}</span>
-                              </div>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    ));
-                  }
-
-                  // Fallback: show raw text if no valid cards
-                  return (
-                    <div className="rounded-2xl bg-white border border-slate-200 shadow-md p-6">
-                      <div className="text-lg font-semibold text-slate-900 mb-2">AI Analysis</div>
-                      <pre className="text-sm font-sans whitespace-pre-wrap text-slate-800">
-                        {result?.analysis?.text ?? "No AI analysis returned."}
-                      </pre>
-                    </div>
-                  );
-                })()}
+                <AIAnalysisPanel result={shown} onOpenRows={openTableRows} />
+                <ChatPanel
+                  runId={activeRunId}
+                  courseId={courseId}
+                  result={shown}
+                  endpoint={chatEndpoint(apiBase)}
+                  onOpenRows={openTableRows}
+                />
               </div>
             )}
           </div>
         )}
       </div>
 
-      {/* Hidden print container for PDF export */}
-      <div
-        ref={printRef}
-        style={{ display: "none", width: "800px" }}
-        className="bg-white"
-      >
-        {/* Section 1: Header + KPIs (combined to fit on first page) */}
-        <div data-pdf-section="header-kpis" className="p-6">
-          <div className="mb-6 pb-4 border-b-2 border-slate-300">
-            <h1 className="text-2xl font-bold text-slate-900 mb-2">CLE Analytics Report</h1>
-            <p className="text-sm text-slate-600">Course ID: {courseId}</p>
-            <p className="text-sm text-slate-500">Generated: {new Date().toLocaleDateString()}</p>
-          </div>
-          <h2 className="text-lg font-semibold text-slate-900 mb-4">Key Performance Indicators</h2>
-          <div className="grid grid-cols-4 gap-4">
-            <div className="border border-slate-200 rounded-lg p-4">
-              <div className="text-xs text-slate-500 mb-1">Students Enrolled</div>
-              <div className="text-xl font-semibold">{kpis.studentsEnrolled ?? "—"}</div>
-            </div>
-            <div className="border border-slate-200 rounded-lg p-4">
-              <div className="text-xs text-slate-500 mb-1">Average View %</div>
-              <div className="text-xl font-semibold">
-                {kpis.averageViewPercent !== null ? `${(kpis.averageViewPercent * 100).toFixed(1)}%` : "—"}
-              </div>
-            </div>
-            <div className="border border-slate-200 rounded-lg p-4">
-              <div className="text-xs text-slate-500 mb-1">Avg Assignment Grade</div>
-              <div className="text-xl font-semibold">
-                {kpis.averageAssignmentGrade !== null ? `${(kpis.averageAssignmentGrade * 100).toFixed(1)}%` : "—"}
-              </div>
-            </div>
-            <div className="border border-slate-200 rounded-lg p-4">
-              <div className="text-xs text-slate-500 mb-1">Median Letter Grade</div>
-              <div className="text-xl font-semibold">{kpis.medianLetterGrade ?? "—"}</div>
-            </div>
-          </div>
-        </div>
-
-        {/* Section 2: Echo Summary Table */}
-        {echoSummary.length > 0 && (
-          <div data-pdf-section="echo-summary" className="p-6">
-            <h2 className="text-lg font-semibold text-slate-900 mb-3">Echo Summary</h2>
-            <table className="w-full text-xs border-collapse border border-slate-300">
-              <thead>
-                <tr className="bg-slate-100">
-                  {ECHO_SUMMARY_COLS.filter(col => echoSummary[0]?.[col] !== undefined).map(col => (
-                    <th key={col} className="border border-slate-300 px-2 py-1.5 text-left font-semibold">{col}</th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {echoSummary.slice(0, 25).map((row, idx) => (
-                  <tr key={idx} className={idx % 2 === 0 ? "bg-white" : "bg-slate-50"}>
-                    {ECHO_SUMMARY_COLS.filter(col => echoSummary[0]?.[col] !== undefined).map(col => (
-                      <td key={col} className="border border-slate-300 px-2 py-1.5">
-                        {formatCell(col, row[col], ECHO_SUMMARY_PERCENT_COLS)}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-            {echoSummary.length > 25 && (
-              <p className="text-xs text-slate-500 mt-2">Showing 25 of {echoSummary.length} rows</p>
-            )}
-          </div>
-        )}
-
-        {/* Section 3: Echo Module + Gradebook Summary (smaller tables combined) */}
-        <div data-pdf-section="module-tables" className="p-6">
-          {echoModules.length > 0 && (
-            <div className="mb-6">
-              <h2 className="text-lg font-semibold text-slate-900 mb-3">Echo Module Metrics</h2>
-              <table className="w-full text-xs border-collapse border border-slate-300">
-                <thead>
-                  <tr className="bg-slate-100">
-                    {ECHO_MODULE_COLS.filter(col => echoModules[0]?.[col] !== undefined).map(col => (
-                      <th key={col} className="border border-slate-300 px-2 py-1.5 text-left font-semibold">{col}</th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {echoModules.map((row, idx) => (
-                    <tr key={idx} className={idx % 2 === 0 ? "bg-white" : "bg-slate-50"}>
-                      {ECHO_MODULE_COLS.filter(col => echoModules[0]?.[col] !== undefined).map(col => (
-                        <td key={col} className="border border-slate-300 px-2 py-1.5">
-                          {formatCell(col, row[col], ECHO_MODULE_PERCENT_COLS)}
-                        </td>
-                      ))}
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          )}
-
-          {gradeSummary.length > 0 && (() => {
-            // Split Gradebook Summary into multiple tables for PDF (5 data columns per table + Metric column)
-            const allCols = Object.keys(gradeSummary[0] || {});
-            const metricCol = allCols.includes("Metric") ? "Metric" : null;
-            const dataCols = allCols.filter(c => c !== "Metric");
-            const colsPerTable = 5;
-            const tableChunks: string[][] = [];
-
-            for (let i = 0; i < dataCols.length; i += colsPerTable) {
-              const chunk = dataCols.slice(i, i + colsPerTable);
-              tableChunks.push(metricCol ? [metricCol, ...chunk] : chunk);
-            }
-
-            return (
-              <div>
-                <h2 className="text-lg font-semibold text-slate-900 mb-3">Gradebook Summary</h2>
-                {tableChunks.map((tableCols, tableIdx) => (
-                  <div key={tableIdx} className={tableIdx > 0 ? "mt-4" : ""}>
-                    {tableChunks.length > 1 && (
-                      <p className="text-xs text-slate-500 mb-1">Part {tableIdx + 1} of {tableChunks.length}</p>
-                    )}
-                    <table className="w-full text-xs border-collapse border border-slate-300">
-                      <thead>
-                        <tr className="bg-slate-100">
-                          {tableCols.map((col, colIdx) => (
-                            <th key={col} className={`border border-slate-300 px-2 py-1.5 text-left font-semibold ${colIdx % 2 === 1 ? "bg-slate-200" : "bg-slate-100"}`}>{col}</th>
-                          ))}
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {gradeSummary.map((row, idx) => (
-                          <tr key={idx}>
-                            {tableCols.map((col, colIdx) => (
-                              <td key={col} className={`border border-slate-300 px-2 py-1.5 ${colIdx % 2 === 1 ? "bg-slate-100" : "bg-white"}`}>
-                                {formatCell(col, row[col], gradeSummaryPercentCols)}
-                              </td>
-                            ))}
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                ))}
-              </div>
-            );
-          })()}
-        </div>
-
-        {/* Section 4: Gradebook Module Table */}
-        {sortedGradeModuleMetrics.length > 0 && (
-          <div data-pdf-section="gradebook-module" className="p-6">
-            <h2 className="text-lg font-semibold text-slate-900 mb-3">Gradebook Module Metrics</h2>
-            <table className="w-full text-xs border-collapse border border-slate-300">
-              <thead>
-                <tr className="bg-slate-100">
-                  {GRADEBOOK_MODULE_COLS.filter(col => sortedGradeModuleMetrics[0]?.[col] !== undefined).map(col => (
-                    <th key={col} className="border border-slate-300 px-2 py-1.5 text-left font-semibold">{col}</th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {sortedGradeModuleMetrics.map((row, idx) => (
-                  <tr key={idx} className={idx % 2 === 0 ? "bg-white" : "bg-slate-50"}>
-                    {GRADEBOOK_MODULE_COLS.filter(col => sortedGradeModuleMetrics[0]?.[col] !== undefined).map(col => (
-                      <td key={col} className="border border-slate-300 px-2 py-1.5">
-                        {formatCell(col, row[col], GRADEBOOK_MODULE_PERCENT_COLS)}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        )}
-
-        {/* Section 5: Echo Chart */}
-        <div data-pdf-section="echo-chart" className="p-6">
-          <h2 className="text-lg font-semibold text-slate-900 mb-3">Echo Engagement Chart</h2>
-          <div style={{ width: "750px", height: "480px" }}>
-            <EchoComboChart moduleRows={echoModules as any} />
-          </div>
-        </div>
-
-        {/* Section 6: Gradebook Chart */}
-        <div data-pdf-section="gradebook-chart" className="p-6">
-          <h2 className="text-lg font-semibold text-slate-900 mb-3">Gradebook Performance Chart</h2>
-          <div style={{ width: "750px", height: "480px" }}>
-            <GradebookComboChart rows={sortedGradeModuleMetrics as any} />
-          </div>
-        </div>
-
-        {/* Section 7: AI Analysis */}
-        <div data-pdf-section="ai-analysis" className="p-6">
-          <h2 className="text-lg font-semibold text-slate-900 mb-4">AI Analysis</h2>
-          {(() => {
-            let analysisData: AIAnalysisData | null = null;
-            try {
-              if (result?.analysis?.text) {
-                analysisData = JSON.parse(result.analysis.text) as AIAnalysisData;
-              }
-            } catch {
-              // fallback
-            }
-
-            if (analysisData?.cards && Array.isArray(analysisData.cards) && analysisData.cards.length > 0) {
-              return analysisData.cards.map((card) => (
-                <div key={card.id} className="mb-4 border border-slate-200 rounded-lg p-4">
-                  <div className="text-md font-semibold text-slate-900 mb-2">{card.title}</div>
-                  {card.summary && <p className="text-sm text-slate-700 mb-3">{card.summary}</p>}
-                  {card.bullets && card.bullets.length > 0 && (
-                    <ul className="list-disc list-inside space-y-1 mb-3">
-                      {card.bullets.map((bullet, idx) => (
-                        <li key={idx} className="text-sm text-slate-700">{bullet}</li>
-                      ))}
-                    </ul>
-                  )}
-                  {card.metrics && card.metrics.length > 0 && (
-                    <div className="flex flex-wrap gap-4 pt-2 border-t border-slate-100">
-                      {card.metrics.map((metric, idx) => (
-                        <div key={idx} className="text-sm">
-                          <span className="text-slate-500">{metric.label}:</span>{" "}
-                          <span className="font-medium text-slate-800">{metric.value}</span>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              ));
-            }
-
-            return (
-              <div className="border border-slate-200 rounded-lg p-4">
-                <pre className="text-sm whitespace-pre-wrap text-slate-700">
-                  {result?.analysis?.text ?? "No AI analysis available."}
-                </pre>
-              </div>
-            );
-          })()}
-        </div>
-      </div>
+      <ReportBuilderDialog
+        open={showReportBuilder}
+        exporting={exportingPDF}
+        onClose={() => setShowReportBuilder(false)}
+        onExport={exportToPDF}
+      />
     </main>
   );
 }
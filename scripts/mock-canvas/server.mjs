@@ -0,0 +1,76 @@
+// Minimal Canvas REST API stand-in for trying "Fetch from Canvas" without a real instance.
+// Serves the recorded responses in ./fixtures for any course id, paginated with Link headers
+// like Canvas does. Any non-empty bearer token is accepted.
+//
+//   npm run mock:canvas            # http://localhost:4010
+//   CANVAS_ALLOWED_HOSTS=localhost:4010 npm run dev
+//   Canvas address: http://localhost:4010   Access token: anything
+
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PORT = Number(process.env.PORT ?? 4010);
+// Deliberately small so pagination is exercised
+const PAGE_SIZE = Number(process.env.MOCK_PAGE_SIZE ?? 3);
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+const fixture = (name) => JSON.parse(readFileSync(join(fixturesDir, `${name}.json`), "utf8"));
+
+const routes = [
+  [/^\/api\/v1\/courses\/\d+\/enrollments$/, "enrollments"],
+  [/^\/api\/v1\/courses\/\d+\/sections$/, "sections"],
+  [/^\/api\/v1\/courses\/\d+\/assignment_groups$/, "assignment_groups"],
+  [/^\/api\/v1\/courses\/\d+\/assignments$/, "assignments"],
+  [/^\/api\/v1\/courses\/\d+\/modules$/, "modules"],
+  [/^\/api\/v1\/courses\/\d+\/modules\/(\d+)\/items$/, (m) => `module_${m[1]}_items`],
+  [/^\/api\/v1\/courses\/\d+\/students\/submissions$/, "submissions"],
+];
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) {
+    return send(res, 401, { errors: [{ message: "Invalid access token." }] });
+  }
+
+  for (const [pattern, name] of routes) {
+    const m = url.pathname.match(pattern);
+    if (!m) continue;
+
+    let items;
+    try {
+      items = fixture(typeof name === "function" ? name(m) : name);
+    } catch {
+      return send(res, 404, { errors: [{ message: "The specified resource does not exist." }] });
+    }
+
+    const perPage = Math.min(PAGE_SIZE, Number(url.searchParams.get("per_page") ?? PAGE_SIZE));
+    const page = Math.max(1, Number(url.searchParams.get("page") ?? 1));
+    const slice = items.slice((page - 1) * perPage, page * perPage);
+
+    const link = (p, rel) => {
+      const u = new URL(url);
+      u.searchParams.set("page", String(p));
+      u.searchParams.set("per_page", String(perPage));
+      return `<${u}>; rel="${rel}"`;
+    };
+    const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+    const links = [link(page, "current"), link(1, "first"), link(lastPage, "last")];
+    if (page < lastPage) links.push(link(page + 1, "next"));
+    if (page > 1) links.push(link(page - 1, "prev"));
+
+    console.log(`${req.method} ${url.pathname}${url.search} -> ${slice.length} items`);
+    return send(res, 200, slice, { link: links.join(",") });
+  }
+
+  send(res, 404, { errors: [{ message: "The specified resource does not exist." }] });
+}).listen(PORT, () => {
+  console.log(`Mock Canvas API on http://localhost:${PORT}`);
+});
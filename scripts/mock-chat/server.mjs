@@ -0,0 +1,131 @@
+// Local stand-in for the "Ask about this course" chat endpoint. Answers a few question shapes
+// from the tables sent as context, cites rows as [ref:<table>:<row>], and streams the answer
+// word by word as server-sent events (or plain chunked text with MOCK_CHAT_FORMAT=text).
+//
+//   npm run mock:chat              # http://localhost:4020/chat
+//   NEXT_PUBLIC_CHAT_URL=http://localhost:4020/chat npm run dev
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 4020);
+const FORMAT = process.env.MOCK_CHAT_FORMAT === "text" ? "text" : "sse";
+// Delay between streamed words, so streaming and "Stop" can be seen
+const DELAY_MS = Number(process.env.MOCK_CHAT_DELAY ?? 40);
+
+const CORS = {
+  "access-control-allow-origin": "*",
+  "access-control-allow-methods": "POST, OPTIONS",
+  "access-control-allow-headers": "content-type, accept",
+};
+
+const pct = (v) => (typeof v === "number" ? `${(v * 100).toFixed(1)}%` : "no data");
+
+function rowsOf(context, table) {
+  return context?.tables?.[table]?.rows ?? [];
+}
+
+function worstViewing(context) {
+  const modules = rowsOf(context, "echo-modules").filter((r) => typeof r["Average View %"] === "number");
+  if (modules.length === 0) return "There is no Echo360 module data in this run, so I can't compare viewing by module.";
+  const worst = modules.reduce((a, b) => (b["Average View %"] < a["Average View %"] ? b : a));
+  const best = modules.reduce((a, b) => (b["Average View %"] > a["Average View %"] ? b : a));
+  return (
+    `${worst.Module} had the weakest viewing: an average view of ${pct(worst["Average View %"])} ` +
+    `with ${worst["# of Students Viewing"] ?? "an unknown number of"} students viewing [ref:${worst.ref}]. ` +
+    `For comparison, ${best.Module} was the strongest at ${pct(best["Average View %"])} [ref:${best.ref}].`
+  );
+}
+
+function announcement(context, question) {
+  const modules = rowsOf(context, "echo-modules");
+  const named = question.match(/module\s+(\d+)/i);
+  const row = named ? modules.find((r) => new RegExp(`\\b${named[1]}\\b`).test(r.Module)) : modules[0];
+  const name = row?.Module ?? (named ? `Module ${named[1]}` : "this week's module");
+  const cite = row ? ` [ref:${row.ref}]` : "";
+  return [
+    `Here is a draft announcement${cite}:`,
+    "",
+    `Subject: Don't miss the ${name} videos`,
+    "",
+    "Hi everyone,",
+    "",
+    `The ${name} recordings cover material you'll need for the upcoming assignments. ` +
+      `So far ${row ? pct(row["Overall View %"]) : "only some"} of the available viewing has happened, ` +
+      "so please set aside time this week to watch them. Bring your questions to class or office hours.",
+    "",
+    "Thanks!",
+  ].join("\n");
+}
+
+function overview(context) {
+  const media = rowsOf(context, "echo-summary");
+  const modules = rowsOf(context, "echo-modules");
+  const grades = rowsOf(context, "gradebook-modules");
+  const top = media
+    .filter((r) => typeof r["Total Views"] === "number")
+    .sort((a, b) => b["Total Views"] - a["Total Views"])[0];
+  const parts = [
+    `This run covers ${media.length} media, ${modules.length} Echo360 modules and ${grades.length} gradebook modules.`,
+  ];
+  if (top) parts.push(`The most-viewed media is "${top["Media Title"]}" with ${top["Total Views"]} views [ref:${top.ref}].`);
+  parts.push("(This is the mock endpoint: try asking which module had the worst viewing, or for an announcement.)");
+  return parts.join(" ");
+}
+
+function answerFor(question, context) {
+  if (/worst|lowest|least|weakest/i.test(question) && /view|watch/i.test(question)) return worstViewing(context);
+  if (/announce|draft|email|message/i.test(question)) return announcement(context, question);
+  return overview(context);
+}
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+async function stream(res, text) {
+  let closed = false;
+  // Client went away (e.g. "Stop" in the dashboard)
+  res.on("close", () => (closed = true));
+  res.writeHead(200, {
+    ...CORS,
+    "content-type": FORMAT === "sse" ? "text/event-stream" : "text/plain; charset=utf-8",
+    "cache-control": "no-cache",
+  });
+  for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+    if (closed) return;
+    res.write(FORMAT === "sse" ? `data: ${JSON.stringify({ delta: piece })}\n\n` : piece);
+    await sleep(DELAY_MS);
+  }
+  if (FORMAT === "sse") res.write("data: [DONE]\n\n");
+  res.end();
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS);
+    return res.end();
+  }
+  if (req.method !== "POST" || url.pathname !== "/chat") {
+    res.writeHead(404, { ...CORS, "content-type": "application/json" });
+    return res.end(JSON.stringify({ error: "Not found. POST /chat" }));
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      res.writeHead(400, { ...CORS, "content-type": "application/json" });
+      return res.end(JSON.stringify({ error: "Body must be JSON." }));
+    }
+    const question = String(payload?.question ?? "");
+    console.log(`POST /chat (${payload?.history?.length ?? 0} earlier turns): ${question}`);
+    stream(res, answerFor(question, payload?.context)).catch((e) => {
+      console.error(e);
+      res.end();
+    });
+  });
+}).listen(PORT, () => {
+  console.log(`Mock chat endpoint on http://localhost:${PORT}/chat (${FORMAT})`);
+});